@@ -5,6 +5,7 @@ import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "./libraries/MathUtils.sol";
 import "./CryptoTitty.sol";
+import "./TitsTreasury.sol";
 
 contract TittyPool is Ownable {
   using MathUtils for uint256;
@@ -70,9 +71,14 @@ contract TittyPool is Ownable {
   PoolInfo public poolInfo;
   mapping(address => TraderDeviation) public traderDeviations;
   address[] public traders;
+  address public treasury; // fees are only charged once the factory sets it
   
   // Constants
-  uint256 constant FEE_BASIS_POINTS = 10; // 0.1% = 10 basis points
+  // Fees are 2x the gas of a trade, priced at the transaction's gas price. TRADE_GAS is a
+  // typical trade (it grows with the trader count) fixed so the fee is known before sending,
+  // tits-core mirrors both.
+  uint256 public constant TRADE_GAS = 300000;
+  uint256 public constant FEE_GAS_MULTIPLIER = 2;
   uint256 constant DEVIATION_THRESHOLD = 690; // 6.9% in basis points
   uint256 constant MAX_DELAY = 12 hours;
   uint256 constant POOL_DURATION = 24 hours;
@@ -120,6 +126,7 @@ contract TittyPool is Ownable {
     require(isValidCandleSize(candleSize), "Invalid candle size");
     
     address trader = msg.sender;
+    uint256 fee = getTradeFee(tx.gasprice);
     
     // Calculate current candle and expected price
     uint256 currentCandleSize = (24 * 60) / poolInfo.lValue; // minutes
@@ -137,7 +144,7 @@ contract TittyPool is Ownable {
     // Handle token transfers
     if (side) {
       // BUY: Native token -> Pool tokens
-      require(msg.value >= quantity, "Insufficient payment");
+      require(msg.value >= quantity + fee, "Insufficient payment");
       
       uint256 inputAmountFixed = MathUtils.toFixedPoint(quantity);
       ammOutput = MathUtils.calculateAmmOut(inputAmountFixed, poolInfo.xReserve, poolInfo.yReserve);
@@ -156,6 +163,8 @@ contract TittyPool is Ownable {
       
     } else {
       // SELL: Pool tokens -> Native token
+      require(msg.value >= fee, "Insufficient fee");
+      
       uint256 inputAmountFixed = MathUtils.toFixedPoint(quantity);
       ammOutput = MathUtils.calculateAmmOut(inputAmountFixed, poolInfo.yReserve, poolInfo.xReserve);
       
@@ -163,7 +172,8 @@ contract TittyPool is Ownable {
       poolInfo.xReserve = MathUtils.safeSub(poolInfo.xReserve, ammOutput);
       poolInfo.yReserve = MathUtils.safeAdd(poolInfo.yReserve, inputAmountFixed);
       
-      // Transfer tokens
+      // Transfer tokens, trader must have approved the pool beforehand
+      require(IERC20(poolInfo.tokenAddress).transferFrom(trader, address(this), quantity), "Token transfer failed");
       CryptoTitty(poolInfo.tokenAddress).burn(quantity);
       uint256 ammOutputRegular = MathUtils.fromFixedPoint(ammOutput);
       payable(trader).transfer(ammOutputRegular);
@@ -178,6 +188,16 @@ contract TittyPool is Ownable {
     
     poolInfo.totalTrades++;
     
+    if (fee > 0) {
+      TitsTreasury(payable(treasury)).collectFees{value: fee}(fee);
+    }
+
+    // the fee is quoted before the gas price is known, send back what was paid over it
+    uint256 refund = msg.value - fee - (side ? quantity : 0);
+    if (refund > 0) {
+      payable(trader).transfer(refund);
+    }
+    
     emit TradeEvent(
       poolInfo.poolId,
       trader,
@@ -201,6 +221,10 @@ contract TittyPool is Ownable {
     emit PoolLocked(poolInfo.poolId, reason, block.timestamp);
   }
   
+  function setTreasury(address _treasury) external onlyOwner {
+    treasury = _treasury;
+  }
+  
   function finalizeWinner() external onlyOwner {
     require(block.timestamp > poolInfo.endTime, "Pool not ended");
     require(!poolInfo.isLocked, "Pool is locked");
@@ -292,6 +316,11 @@ contract TittyPool is Ownable {
   }
   
   // View functions
+  function getTradeFee(uint256 gasPrice) public view returns (uint256) {
+    if (treasury == address(0)) return 0;
+    return FEE_GAS_MULTIPLIER * TRADE_GAS * gasPrice;
+  }
+  
   function getTraderDeviation(address trader) external view returns (TraderDeviation memory) {
     return traderDeviations[trader];
   }
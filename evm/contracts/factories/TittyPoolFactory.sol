@@ -12,6 +12,7 @@ contract TittyPoolFactory is Ownable {
   TittyPool[] public deployedPools;
   mapping(uint256 => address) public poolIdToAddress;
   mapping(address => bool) public isDeployedPool;
+  address public treasury; // where new pools send their trade fees
   
   // Valid candle sizes
   uint256[] public validCandleSizes = [96, 144, 288];
@@ -38,8 +39,19 @@ contract TittyPoolFactory is Ownable {
     uint256 timestamp
   );
   
+  event TreasuryUpdated(
+    address treasury,
+    uint256 timestamp
+  );
+  
   constructor(address initialOwner) Ownable(initialOwner) {}
   
+  // Only pools created afterwards pick it up
+  function setTreasury(address _treasury) external onlyOwner {
+    treasury = _treasury;
+    emit TreasuryUpdated(_treasury, block.timestamp);
+  }
+  
   // Public function to create pool
   function createPool(
     uint256 lValue,
@@ -98,11 +110,16 @@ contract TittyPoolFactory is Ownable {
     
     address poolAddress = address(pool);
     
+    // Transfer initial liquidity to pool. mint is owner only, so this has to happen
+    // while the factory still owns the token, minting after the handover reverts
+    token.mint(poolAddress, 1000000 * 10**18);
+    
     // Transfer token ownership to pool
     token.transferOwnership(poolAddress);
     
-    // Transfer initial liquidity to pool
-    token.mint(poolAddress, 1000000 * 10**18);
+    if (treasury != address(0)) {
+      pool.setTreasury(treasury);
+    }
     
     // Register pool
     deployedPools.push(pool);
@@ -155,6 +172,17 @@ contract TittyPoolFactory is Ownable {
     return _createPool(randomLValue, randomDelay);
   }
   
+  // Pools are owned by the factory, the keeper goes through here
+  function lockPool(uint256 poolId, string memory reason) external onlyOwner {
+    require(poolIdToAddress[poolId] != address(0), "Pool does not exist");
+    TittyPool(payable(poolIdToAddress[poolId])).lockPool(reason);
+  }
+  
+  function finalizeWinner(uint256 poolId) external onlyOwner {
+    require(poolIdToAddress[poolId] != address(0), "Pool does not exist");
+    TittyPool(payable(poolIdToAddress[poolId])).finalizeWinner();
+  }
+  
   // Helper function to convert uint to string
   function uintToString(uint256 value) internal pure returns (string memory) {
     if (value == 0) return "0";
@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import "../libraries/MathUtils.sol";
+
+// Exposes the internal library functions for the off-chain parity tests
+contract MathUtilsHarness {
+  function safeAdd(uint256 a, uint256 b) external pure returns (uint256) {
+    return MathUtils.safeAdd(a, b);
+  }
+
+  function safeSub(uint256 a, uint256 b) external pure returns (uint256) {
+    return MathUtils.safeSub(a, b);
+  }
+
+  function safeMul(uint256 a, uint256 b) external pure returns (uint256) {
+    return MathUtils.safeMul(a, b);
+  }
+
+  function safeDiv(uint256 a, uint256 b) external pure returns (uint256) {
+    return MathUtils.safeDiv(a, b);
+  }
+
+  function safeDivPrecision(uint256 a, uint256 b) external pure returns (uint256) {
+    return MathUtils.safeDivPrecision(a, b);
+  }
+
+  function safeMulFixedPoint(uint256 a, uint256 b) external pure returns (uint256) {
+    return MathUtils.safeMulFixedPoint(a, b);
+  }
+
+  function absDiff(uint256 a, uint256 b) external pure returns (uint256) {
+    return MathUtils.absDiff(a, b);
+  }
+
+  function sqrt(uint256 x) external pure returns (uint256) {
+    return MathUtils.sqrt(x);
+  }
+
+  function toFixedPoint(uint256 value) external pure returns (uint256) {
+    return MathUtils.toFixedPoint(value);
+  }
+
+  function fromFixedPoint(uint256 value) external pure returns (uint256) {
+    return MathUtils.fromFixedPoint(value);
+  }
+
+  function calculateCurveY(uint256 x, uint256 h, uint256 l) external pure returns (uint256) {
+    return MathUtils.calculateCurveY(x, h, l);
+  }
+
+  function calculateAmmOut(uint256 xIn, uint256 xReserve, uint256 yReserve) external pure returns (uint256) {
+    return MathUtils.calculateAmmOut(xIn, xReserve, yReserve);
+  }
+}
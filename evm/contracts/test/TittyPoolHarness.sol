@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.28;
+
+import "../TittyPool.sol";
+
+// Exposes TittyPool internals for the parity and winner selection tests
+contract TittyPoolHarness is TittyPool {
+  constructor(
+    address initialOwner,
+    uint256 _poolId,
+    uint256 _lValue,
+    uint256 _hValue,
+    address _tokenAddress,
+    uint256 _startTime
+  ) TittyPool(initialOwner, _poolId, _lValue, _hValue, _tokenAddress, _startTime) {}
+
+  function exposedCalculateDeviation(uint256 actual, uint256 expected) external pure returns (uint256) {
+    return calculateDeviation(actual, expected);
+  }
+
+  // Records a deviation as a trade at the current block would, without the AMM in the way
+  function exposedUpdateTraderDeviation(address trader, uint256 deviation) external {
+    updateTraderDeviation(trader, deviation);
+  }
+}
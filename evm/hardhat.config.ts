@@ -1,9 +1,19 @@
-import type { HardhatUserConfig } from "hardhat/config";
+import { task, type HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox-viem";
 require('@openzeppelin/hardhat-upgrades');
 require('dotenv').config();
 import "@nomicfoundation/hardhat-ethers";
 
+import { writeBindings } from "./scripts/lib/bindings";
+import "./tasks/admin";
+
+// Keep the tits-contracts ABIs in step with the build
+task("compile").setAction(async (args, hre, runSuper) => {
+  const result = await runSuper(args);
+  if (await writeBindings(hre)) console.log("Updated tits-contracts ABIs");
+  return result;
+});
+
 const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.28",
@@ -0,0 +1,24 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { parseEther } from "viem";
+
+// Treasury and both factories, owned by `owner` (the deployer unless set) with the
+// treasury seeded from the deployer. Per-network values live in ignition/parameters.
+// The pool factory starts out owned by the deployer to point it at the treasury for
+// trade fees, then is handed to `owner`.
+const TitsModule = buildModule("TitsModule", (m) => {
+  const deployer = m.getAccount(0);
+  const owner = m.getParameter("owner", deployer);
+  const treasurySeed = m.getParameter("treasurySeed", parseEther("10"));
+
+  const treasury = m.contract("TitsTreasury", [owner]);
+  const factory = m.contract("TittyPoolFactory", [deployer]);
+  const tokenFactory = m.contract("CryptoTittyFactory", [owner]);
+
+  m.call(treasury, "fundTreasury", [], { value: treasurySeed });
+  const setTreasury = m.call(factory, "setTreasury", [treasury]);
+  m.call(factory, "transferOwnership", [owner], { after: [setTreasury] });
+
+  return { treasury, factory, tokenFactory };
+});
+
+export default TitsModule;
@@ -0,0 +1,20 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import TitsModule from "./Tits";
+
+// TitsModule plus pool #1, the keeper takes over from there. createPool is owner only,
+// so this needs the deployer to be the TitsModule owner.
+const TitsFirstPoolModule = buildModule("TitsFirstPoolModule", (m) => {
+  const tits = m.useModule(TitsModule);
+
+  const lValue = m.getParameter("lValue", 96n);
+  const delay = m.getParameter("delay", 0n);
+
+  const createPool = m.call(tits.factory, "createPool", [lValue, delay]);
+  const poolAddress = m.readEventArgument(createPool, "PoolCreated", "poolAddress");
+  const firstPool = m.contractAt("TittyPool", poolAddress);
+
+  return { ...tits, firstPool };
+});
+
+export default TitsFirstPoolModule;
@@ -1,61 +1,53 @@
-import { ethers } from "hardhat";
+import hre from "hardhat";
+import path from "path";
 
-async function main() {
-  const [deployer] = await ethers.getSigners();
-  console.log("Deploying contracts with the account:", deployer.address);
-  console.log("Account balance:", (await ethers.provider.getBalance(deployer.address)).toString());
-
-  // Deploy Treasury first
-  console.log("\n=== Deploying TitsTreasury ===");
-  const TitsTreasury = await ethers.getContractFactory("TitsTreasury");
-  const treasury = await TitsTreasury.deploy(deployer.address);
-  await treasury.waitForDeployment();
-  const treasuryAddress = await treasury.getAddress();
-  console.log("TitsTreasury deployed to:", treasuryAddress);
-
-  // Deploy TittyPoolFactory
-  console.log("\n=== Deploying TittyPoolFactory ===");
-  const TittyPoolFactory = await ethers.getContractFactory("TittyPoolFactory");
-  const factory = await TittyPoolFactory.deploy(deployer.address);
-  await factory.waitForDeployment();
-  const factoryAddress = await factory.getAddress();
-  console.log("TittyPoolFactory deployed to:", factoryAddress);
+import TitsModule from "../ignition/modules/Tits";
+import TitsFirstPoolModule from "../ignition/modules/TitsFirstPool";
+import { findDeploymentBlock, recordDeployment, REGISTRY_PATH } from "./lib/registry";
 
-  // Deploy CryptoTittyFactory
-  console.log("\n=== Deploying CryptoTittyFactory ===");
-  const CryptoTittyFactory = await ethers.getContractFactory("CryptoTittyFactory");
-  const tokenFactory = await CryptoTittyFactory.deploy(deployer.address);
-  await tokenFactory.waitForDeployment();
-  const tokenFactoryAddress = await tokenFactory.getAddress();
-  console.log("CryptoTittyFactory deployed to:", tokenFactoryAddress);
-
-  // Fund the treasury with some initial funds
-  console.log("\n=== Funding Treasury ===");
-  const fundingTx = await treasury.fundTreasury({ value: ethers.parseEther("10") });
-  await fundingTx.wait();
-  console.log("Treasury funded with 10 ETH");
+async function main() {
+  const fs = require('fs');
+  const [deployer] = await hre.viem.getWalletClients();
+  const publicClient = await hre.viem.getPublicClient();
+  console.log("Deploying contracts to", hre.network.name, "with the account:", deployer.account.address);
+  console.log("Account balance:", (await publicClient.getBalance({ address: deployer.account.address })).toString());
+
+  // Per-network parameters, a TitsFirstPoolModule entry also opens pool #1.
+  // Ignition journals everything outside the in-process network, so a rerun resumes
+  const parametersFile = path.join(__dirname, "..", "ignition", "parameters", `${hre.network.name}.json`);
+  const hasParameters = fs.existsSync(parametersFile);
+  const withFirstPool = hasParameters && "TitsFirstPoolModule" in JSON.parse(fs.readFileSync(parametersFile, 'utf8'));
+  const parameters = hasParameters ? parametersFile : {};
+
+  const deployment = withFirstPool
+    ? await hre.ignition.deploy(TitsFirstPoolModule, { parameters, displayUi: true })
+    : { ...await hre.ignition.deploy(TitsModule, { parameters, displayUi: true }), firstPool: null };
+  const { treasury, factory, tokenFactory } = deployment;
+  const firstPool = deployment.firstPool?.address ?? null;
 
   console.log("\n=== Deployment Summary ===");
-  console.log("TitsTreasury:", treasuryAddress);
-  console.log("TittyPoolFactory:", factoryAddress);
-  console.log("CryptoTittyFactory:", tokenFactoryAddress);
-
-  // Save deployment addresses
-  const deploymentInfo = {
-    treasury: treasuryAddress,
-    factory: factoryAddress,
-    tokenFactory: tokenFactoryAddress,
-    network: (await ethers.provider.getNetwork()).name,
-    deployer: deployer.address,
-    timestamp: new Date().toISOString()
-  };
-
-  const fs = require('fs');
-  fs.writeFileSync(
-    'deployment.json', 
-    JSON.stringify(deploymentInfo, null, 2)
-  );
-  console.log("\nDeployment info saved to deployment.json");
+  console.log("TitsTreasury:", treasury.address);
+  console.log("TittyPoolFactory:", factory.address);
+  console.log("CryptoTittyFactory:", tokenFactory.address);
+  if (firstPool) console.log("TittyPool #1:", firstPool);
+
+  // The in-process network is gone once this exits, nothing to record
+  if (hre.network.name === "hardhat") return;
+
+  const chainId = await publicClient.getChainId();
+  recordDeployment(chainId, "flow", hre.network.name, {
+    deployedAt: new Date().toISOString(),
+    deployedBlock: Number(await findDeploymentBlock(publicClient, factory.address)),
+    deployer: deployer.account.address,
+    owner: await factory.read.owner(),
+    contracts: {
+      treasury: treasury.address,
+      factory: factory.address,
+      tokenFactory: tokenFactory.address,
+      ...(firstPool ? { firstPool } : {}),
+    },
+  });
+  console.log(`\nDeployment recorded for chain ${chainId} in ${path.relative(process.cwd(), REGISTRY_PATH)}`);
 }
 
 main()
@@ -63,4 +55,4 @@ main()
   .catch((error) => {
     console.error(error);
     process.exit(1);
-  }); 
\ No newline at end of file
+  });
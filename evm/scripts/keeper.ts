@@ -0,0 +1,33 @@
+import hre from "hardhat";
+import { getAddress } from "viem";
+
+import { createKeeper } from "./lib/keeper";
+import { getCurrentDeployment, type FlowContracts } from "./lib/registry";
+
+async function main() {
+  // KEEPER_FACTORY wins over the current deployment in the registry
+  const chainId = await (await hre.viem.getPublicClient()).getChainId();
+  const deployment = getCurrentDeployment(chainId);
+  const factory = process.env.KEEPER_FACTORY
+    ?? (deployment?.chain === "flow" ? (deployment.contracts as FlowContracts).factory : undefined);
+  if (!factory) throw new Error(`No factory address for chain ${chainId}, set KEEPER_FACTORY or run the deployment script first`);
+
+  const pollInterval = process.env.KEEPER_POLL_INTERVAL ? Number(process.env.KEEPER_POLL_INTERVAL) : undefined;
+  const keeper = await createKeeper(getAddress(factory), { pollInterval });
+  console.log("Keeper watching TittyPoolFactory at", keeper.factory.address);
+
+  const stop = keeper.run();
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+  stop();
+  console.log("Keeper stopped");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,36 @@
+import fs from "fs";
+import path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Contracts the off-chain code talks to, test harnesses stay out
+export const BOUND_CONTRACTS = [
+  "TittyPool",
+  "TittyPoolFactory",
+  "CryptoTitty",
+  "CryptoTittyFactory",
+  "TitsTreasury",
+] as const;
+
+export const BINDINGS_PATH = path.join(__dirname, "..", "..", "..", "tits-contracts", "src", "abis.ts");
+
+const toAbiName = (contract: string) => `${contract[0].toLowerCase()}${contract.slice(1)}Abi`;
+
+/**
+ * Writes the ABIs of `BOUND_CONTRACTS` as `as const` literals into tits-contracts, so a
+ * changed signature fails type checks in the web app and scripts. Runs after every compile,
+ * the file is only touched when an ABI changed.
+ */
+export async function writeBindings(hre: HardhatRuntimeEnvironment) {
+  const abis = await Promise.all(
+    BOUND_CONTRACTS.map(async (contract) => {
+      const { abi } = await hre.artifacts.readArtifact(contract);
+      return `export const ${toAbiName(contract)} = ${JSON.stringify(abi, null, 2)} as const;\n`;
+    })
+  );
+
+  const source = `// Generated from the evm artifacts by evm/scripts/lib/bindings.ts on compile, do not edit.\n\n${abis.join("\n")}`;
+  if (fs.existsSync(BINDINGS_PATH) && fs.readFileSync(BINDINGS_PATH, "utf8") === source) return false;
+
+  fs.writeFileSync(BINDINGS_PATH, source);
+  return true;
+}
@@ -0,0 +1,171 @@
+import hre from "hardhat";
+import type { ContractTypesMap } from "hardhat/types/artifacts";
+import { zeroAddress, type Address, type Hash } from "viem";
+import {
+  DEVIATION_THRESHOLD,
+  getCurrentWinner,
+  getPoolLifecycle,
+  toFixedPoint,
+  type TraderDeviation,
+} from "tits-core";
+import { tittyPoolAbi, toPoolInfo } from "tits-contracts";
+
+type TittyPoolFactory = ContractTypesMap["TittyPoolFactory"];
+type TittyPool = ContractTypesMap["TittyPool"];
+
+export const LOCK_REASON = "Deviation threshold exceeded";
+export const NO_WINNER_REASON = "No winner";
+
+export type KeeperAction =
+  | { type: "locked"; poolId: bigint; maxDeviation: bigint; hash: Hash }
+  | { type: "finalized"; poolId: bigint; winner: Address; hash: Hash }
+  | { type: "launched"; poolId: bigint; lValue: bigint | null; delay: bigint | null; reason: string | null; hash: Hash };
+
+export interface KeeperOptions {
+  pollInterval?: number; // ms, catches endTime passing on a quiet chain
+  log?: (message: string) => void;
+}
+
+/**
+ * Drives the game on Flow EVM through the factory, which owns every pool. Only the latest
+ * pool is looked at: once it crosses the deviation threshold it is locked and replaced with
+ * random parameters, once it ends its winner is finalized and the next pool is launched with
+ * the winner's L and delay, or random parameters when nobody traded.
+ *
+ * `tick` is safe to call at any time, the pool state decides what (if anything) to send.
+ */
+export async function createKeeper(factoryAddress: Address, { pollInterval = 15_000, log = console.log }: KeeperOptions = {}) {
+  const publicClient = await hre.viem.getPublicClient();
+  const factory: TittyPoolFactory = await hre.viem.getContractAt("TittyPoolFactory", factoryAddress);
+
+  async function send(write: Promise<Hash>) {
+    const hash = await write;
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") throw new Error(`Transaction ${hash} reverted`);
+    return hash;
+  }
+
+  async function readDeviations(pool: TittyPool): Promise<TraderDeviation[]> {
+    const traders = await pool.read.getAllTraders();
+    return Promise.all(traders.map((trader) => pool.read.getTraderDeviation([trader])));
+  }
+
+  // with a winner the next pool takes their L and delay, the factory randomises them otherwise
+  async function launch(reason: string, winner: TraderDeviation | null, lValue: bigint, delay: bigint): Promise<KeeperAction> {
+    const hash = winner
+      ? await send(factory.write.createPoolWithWinner([lValue, delay, winner.trader as Address, winner.deviation]))
+      : await send(factory.write.createPoolWithRandomParams([reason]));
+    return {
+      type: "launched",
+      poolId: await factory.read.getDeployedPoolCount(),
+      lValue: winner ? lValue : null,
+      delay: winner ? delay : null,
+      reason: winner ? null : reason,
+      hash,
+    };
+  }
+
+  async function tick(): Promise<KeeperAction[]> {
+    const poolId = await factory.read.getDeployedPoolCount();
+    if (poolId === 0n) return [];
+
+    const pool: TittyPool = await hre.viem.getContractAt(
+      "TittyPool",
+      await factory.read.getPoolByPoolId([poolId])
+    );
+    const { lValue, startTime, endTime, isLocked, currentWinner, winnerProposedDelay, winnerProposedCandleSize } =
+      toPoolInfo(await pool.read.poolInfo());
+    const { timestamp: now } = await publicClient.getBlock();
+    const lifecycleInfo = {
+      lValue,
+      startTime,
+      endTime,
+      isLocked,
+      currentWinner: currentWinner === zeroAddress ? null : currentWinner,
+      winnerProposedDelay,
+    };
+    let { phase } = getPoolLifecycle(lifecycleInfo, now);
+    if (phase === "ended") {
+      // an earlier tick may have finalized the winner and then failed to launch
+      const finalized = (await pool.getEvents.PoolWinnerFinalized({}, { fromBlock: 0n })).length > 0;
+      ({ phase } = getPoolLifecycle(lifecycleInfo, now, { finalized }));
+    }
+
+    const actions: KeeperAction[] = [];
+
+    switch (phase) {
+      case "scheduled":
+        break;
+      case "active": {
+        const deviations = await readDeviations(pool);
+        const maxDeviation = deviations.reduce((max, t) => (t.deviation > max ? t.deviation : max), 0n);
+        if (maxDeviation <= toFixedPoint(DEVIATION_THRESHOLD)) break;
+
+        const hash = await send(factory.write.lockPool([poolId, LOCK_REASON]));
+        actions.push({ type: "locked", poolId, maxDeviation, hash });
+        actions.push(await launch(LOCK_REASON, null, 0n, 0n));
+        break;
+      }
+      case "locked":
+        // locked by someone else, or we stopped before the relaunch
+        actions.push(await launch(LOCK_REASON, null, 0n, 0n));
+        break;
+      case "ended":
+      case "finalized": {
+        const winner = currentWinner === zeroAddress ? null : getCurrentWinner(await readDeviations(pool));
+        if (winner && phase === "ended") {
+          const hash = await send(factory.write.finalizeWinner([poolId]));
+          actions.push({ type: "finalized", poolId, winner: winner.trader as Address, hash });
+        }
+        actions.push(await launch(NO_WINNER_REASON, winner, winnerProposedCandleSize, winnerProposedDelay));
+        break;
+      }
+    }
+
+    for (const action of actions) {
+      log(`[keeper] ${action.type} pool #${action.poolId} (${action.hash})`);
+    }
+    return actions;
+  }
+
+  /** Ticks on every trade and on a timer, until the returned function is called */
+  function run() {
+    let running = false;
+    let pending = false;
+
+    // trades can land while a tick is sending, so run once more after it instead of overlapping
+    const schedule = async () => {
+      if (running) {
+        pending = true;
+        return;
+      }
+      running = true;
+      try {
+        do {
+          pending = false;
+          await tick();
+        } while (pending);
+      } catch (error) {
+        log(`[keeper] tick failed: ${error instanceof Error ? error.message : error}`);
+      } finally {
+        running = false;
+      }
+    };
+
+    // any pool, the tick works out which one is live
+    const unwatchTrades = publicClient.watchContractEvent({
+      abi: tittyPoolAbi,
+      eventName: "TradeEvent",
+      onLogs: () => void schedule(),
+    });
+    const interval = setInterval(() => void schedule(), pollInterval);
+    void schedule();
+
+    return () => {
+      unwatchTrades();
+      clearInterval(interval);
+    };
+  }
+
+  return { factory, tick, run };
+}
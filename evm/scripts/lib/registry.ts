@@ -0,0 +1,151 @@
+import fs from "fs";
+import path from "path";
+import type { Address, PublicClient } from "viem";
+
+// Every deployment of the game, keyed by chain ID, newest last. The web app reads the
+// generated module below rather than this file
+export const REGISTRY_PATH = path.join(__dirname, "..", "..", "..", "deployments", "registry.json");
+export const WEB_CONFIG_PATH = path.join(__dirname, "..", "..", "..", "tits-web", "src", "chain", "deployments.ts");
+
+export type RegistryChain = "flow" | "supra";
+
+export interface FlowContracts {
+  treasury: string;
+  factory: string;
+  tokenFactory: string;
+  firstPool?: string;
+}
+
+export interface SupraContracts {
+  titsFun: string; // the account the Move package is published under
+}
+
+export interface Deployment<C = FlowContracts | SupraContracts> {
+  deployedAt: string | null; // ISO timestamp, null when it predates the registry
+  deployedBlock?: number; // block the Flow factory was created in, where event scans start
+  deployer: string;
+  owner: string;
+  contracts: C;
+}
+
+export interface RegistryEntry {
+  chain: RegistryChain;
+  network: string;
+  history: Deployment[];
+}
+
+export type Registry = Record<string, RegistryEntry>;
+
+export function readRegistry(): Registry {
+  if (!fs.existsSync(REGISTRY_PATH)) return {};
+  return JSON.parse(fs.readFileSync(REGISTRY_PATH, "utf8"));
+}
+
+export function getCurrentDeployment(chainId: number): (Deployment & { chain: RegistryChain; network: string }) | null {
+  const entry = readRegistry()[chainId.toString()];
+  const current = entry?.history[entry.history.length - 1];
+  return current ? { ...current, chain: entry.chain, network: entry.network } : null;
+}
+
+/** Appends `deployment` as the current one for `chainId`, unless it already is, and regenerates the web config */
+export function recordDeployment(chainId: number, chain: RegistryChain, network: string, deployment: Deployment) {
+  const registry = readRegistry();
+  const entry = registry[chainId.toString()];
+  if (entry && entry.chain !== chain) {
+    throw new Error(`Chain ${chainId} is registered as ${entry.chain}, not ${chain}`);
+  }
+
+  // rerunning a finished Ignition deployment hands back the same contracts, only a
+  // deployment block the record predates is worth keeping from it
+  const current = entry?.history[entry.history.length - 1];
+  if (current && JSON.stringify(current.contracts) === JSON.stringify(deployment.contracts)) {
+    if (current.deployedBlock !== undefined || deployment.deployedBlock === undefined) return;
+    current.deployedBlock = deployment.deployedBlock;
+  } else {
+    registry[chainId.toString()] = {
+      chain,
+      network,
+      history: [...(entry?.history ?? []), deployment],
+    };
+  }
+
+  fs.mkdirSync(path.dirname(REGISTRY_PATH), { recursive: true });
+  fs.writeFileSync(REGISTRY_PATH, JSON.stringify(registry, null, 2) + "\n");
+  writeWebConfig(registry);
+}
+
+/** First block with code at `address`, found by bisecting over historical state */
+export async function findDeploymentBlock(client: PublicClient, address: Address): Promise<bigint> {
+  let high = await client.getBlockNumber();
+  if (!await client.getCode({ address, blockNumber: high })) throw new Error(`No contract at ${address}`);
+  let low = 0n;
+  while (low < high) {
+    const middle = (low + high) / 2n;
+    if (await client.getCode({ address, blockNumber: middle })) high = middle;
+    else low = middle + 1n;
+  }
+  return low;
+}
+
+function toWebConfig(registry: Registry) {
+  const current = (chain: RegistryChain) => Object.entries(registry)
+    .filter(([, entry]) => entry.chain === chain && entry.history.length > 0)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([chainId, entry]) => {
+      const { deployedAt, deployedBlock, contracts } = entry.history[entry.history.length - 1];
+      return {
+        chainId: Number(chainId),
+        network: entry.network,
+        deployedAt,
+        ...(deployedBlock === undefined ? {} : { deployedBlock: BigInt(deployedBlock) }),
+        ...contracts,
+      };
+    });
+
+  // tits-web style, single quotes and 2 space indents
+  const literal = (value: unknown, indent: string): string => {
+    if (value === null) return "null";
+    if (typeof value === "number") return value.toString();
+    if (typeof value === "bigint") return `${value}n`;
+    if (typeof value === "string") return `'${value}'`;
+    const inner = `${indent}  `;
+    const fields = Object.entries(value as object)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${inner}${/^\d+$/.test(k) || /^[a-zA-Z_]\w*$/.test(k) ? k : `'${k}'`}: ${literal(v, inner)},`);
+    return fields.length ? `{\n${fields.join("\n")}\n${indent}}` : "{}";
+  };
+  const byChainId = (deployments: { chainId: number }[]) =>
+    literal(Object.fromEntries(deployments.map((d) => [d.chainId, d])), "");
+
+  return `// Generated from deployments/registry.json by evm/scripts/lib/registry.ts, do not edit.
+// Run \`npm run registry:web\` in evm/ after changing the registry by hand.
+
+import type { Address } from 'viem';
+
+interface BaseDeployment {
+  chainId: number;
+  network: string;
+  deployedAt: string | null;
+}
+
+export interface FlowDeployment extends BaseDeployment {
+  treasury: Address;
+  factory: Address;
+  tokenFactory: Address;
+  firstPool?: Address;
+  deployedBlock?: bigint; // where event scans start, from block 0 when unknown
+}
+
+export interface SupraDeployment extends BaseDeployment {
+  titsFun: string; // module address, pool_manager lives under it
+}
+
+export const flowDeployments: Partial<Record<number, FlowDeployment>> = ${byChainId(current("flow"))};
+
+export const supraDeployments: Partial<Record<number, SupraDeployment>> = ${byChainId(current("supra"))};
+`;
+}
+
+export function writeWebConfig(registry: Registry = readRegistry()) {
+  fs.writeFileSync(WEB_CONFIG_PATH, toWebConfig(registry));
+}
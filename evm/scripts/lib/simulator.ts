@@ -0,0 +1,322 @@
+import fs from "fs";
+import path from "path";
+import hre from "hardhat";
+import { time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { getAddress, maxUint256 } from "viem";
+import {
+  PRECISION,
+  estimateTradeFee,
+  getCandleSeconds,
+  getCurveExpected,
+  getTradeValue,
+  rankTraders,
+  simulateTrade,
+  toPrice,
+  type TraderDeviation,
+} from "tits-core";
+import { toPoolInfo } from "tits-contracts";
+
+import { createKeeper } from "./keeper";
+import type { Strategy } from "./strategies";
+
+export interface SimulationOptions {
+  agents: Strategy[]; // one wallet each, after the owner's
+  pools?: number; // played back to back, the keeper launches each next one
+  lValue?: bigint; // of the first pool
+  candles?: number; // traded per pool before warping to its end, all of them by default
+  enforceThreshold?: boolean; // let the keeper lock pools over the deviation threshold
+  maxTradesPerCandle?: number; // per agent
+  seed?: number;
+  log?: (message: string) => void;
+}
+
+export interface CandleRow {
+  poolId: number;
+  candle: number;
+  timestamp: number;
+  price: number; // native per token after the candle
+  curveExpected: number; // wei the curve asks a trade to pay out this candle
+  trades: number;
+  maxDeviation: number; // basis points, worst recorded
+  leader: string;
+  leaderStrategy: string;
+  leaderDeviation: number; // basis points
+}
+
+export interface TradeRow {
+  poolId: number;
+  candle: number;
+  timestamp: number;
+  agent: string;
+  strategy: string;
+  side: "buy" | "sell";
+  quantity: string;
+  fee: string; // wei, charged only when the trade succeeds
+  deviation: number; // basis points
+  status: "success" | "reverted";
+}
+
+export interface PoolReport {
+  poolId: number;
+  lValue: number;
+  startTime: number;
+  candles: number; // traded
+  outcome: "locked" | "won" | "noWinner";
+  lock: { candle: number; maxDeviation: number } | null;
+  winner: { agent: string; strategy: string; deviation: number; nextPoolDelay: number; nextPoolCandleSize: number } | null;
+}
+
+export interface SimulationReport {
+  seed: number;
+  enforceThreshold: boolean;
+  agents: { agent: string; strategy: string }[];
+  feesCollected: string; // wei, the treasury's totalFeesCollected after the run
+  pools: PoolReport[];
+  candles: CandleRow[];
+  trades: TradeRow[];
+}
+
+// mulberry32, a seeded run trades the same way every time
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// fixed-point to a float for the reports, deviations come out in basis points
+const toNumber = (value: bigint) => Number(value) / Number(PRECISION);
+
+function shuffle<T>(items: T[], random: () => number) {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Plays pools on the in-process Hardhat network with bots. Each candle the agents take turns
+ * in a shuffled order, asking their strategy for trades until it passes, then time jumps to
+ * the next candle. Pools are run by the keeper as on a live deployment: locked once a recorded
+ * deviation crosses the threshold (unless `enforceThreshold` is off), finalized at the end
+ * and followed by the next pool. Trades pay the gas-indexed fee into a fresh treasury.
+ */
+export async function runSimulation({
+  agents,
+  pools = 1,
+  lValue = 96n,
+  candles,
+  enforceThreshold = true,
+  maxTradesPerCandle = 3,
+  seed = 1,
+  log = console.log,
+}: SimulationOptions): Promise<SimulationReport> {
+  if (hre.network.name !== "hardhat") throw new Error("The simulator warps time, run it on the hardhat network");
+
+  const [owner, ...wallets] = await hre.viem.getWalletClients();
+  if (agents.length > wallets.length) throw new Error(`${agents.length} agents but only ${wallets.length} funded wallets`);
+  const players = agents.map((strategy, i) => ({
+    strategy,
+    wallet: wallets[i],
+    address: getAddress(wallets[i].account.address),
+  }));
+  const strategyOf = (address: string) => (
+    players.find((p) => p.address.toLowerCase() === address.toLowerCase())?.strategy.name ?? "unknown"
+  );
+
+  const publicClient = await hre.viem.getPublicClient();
+  const treasury = await hre.viem.deployContract("TitsTreasury", [owner.account.address]);
+  const factory = await hre.viem.deployContract("TittyPoolFactory", [owner.account.address]);
+  await factory.write.setTreasury([treasury.address]);
+  await factory.write.createPool([lValue, 0n]);
+  const keeper = await createKeeper(factory.address, { log: () => {} });
+  const random = createRandom(seed);
+
+  const report: SimulationReport = {
+    seed,
+    enforceThreshold,
+    agents: players.map(({ address, strategy }) => ({ agent: address, strategy: strategy.name })),
+    feesCollected: "0",
+    pools: [],
+    candles: [],
+    trades: [],
+  };
+
+  for (let round = 0; round < pools; round++) {
+    const poolId = await factory.read.getDeployedPoolCount();
+    const pool = await hre.viem.getContractAt("TittyPool", await factory.read.getPoolByPoolId([poolId]));
+    const readPool = async () => toPoolInfo(await pool.read.poolInfo());
+    const readTraders = async (): Promise<TraderDeviation[]> => (
+      Promise.all((await pool.read.getAllTraders()).map((trader) => pool.read.getTraderDeviation([trader])))
+    );
+
+    const { lValue: poolL, startTime, endTime, tokenAddress } = await readPool();
+    const token = await hre.viem.getContractAt("CryptoTitty", tokenAddress);
+    for (const { wallet } of players) {
+      await token.write.approve([pool.address, maxUint256], { account: wallet.account });
+    }
+    if (BigInt(await time.latest()) < startTime) await time.increaseTo(startTime);
+
+    const candleSeconds = BigInt(getCandleSeconds(poolL));
+    const candleCount = Math.min(candles ?? Number(poolL), Number(poolL));
+    const poolReport: PoolReport = {
+      poolId: Number(poolId),
+      lValue: Number(poolL),
+      startTime: Number(startTime),
+      candles: 0,
+      outcome: "noWinner",
+      lock: null,
+      winner: null,
+    };
+    log(`Pool #${poolId}: L ${poolL}, ${candleCount} candles, ${players.length} agents`);
+
+    for (let candle = 0; candle < candleCount; candle++) {
+      const candleStart = startTime + BigInt(candle) * candleSeconds;
+      const candleEnd = candleStart + candleSeconds;
+      const order = shuffle(players.map((_, i) => i), random);
+      const tradesBy = new Map<number, number>();
+      const done = new Set<number>();
+      let trades = 0;
+
+      for (let turn = 0; turn < maxTradesPerCandle; turn++) {
+        for (const i of order) {
+          if (done.has(i)) continue;
+          const { strategy, wallet, address } = players[i];
+          const latest = BigInt(await time.latest());
+          const timestamp = latest >= candleStart ? latest + 1n : candleStart + 1n;
+          if (timestamp >= candleEnd) break;
+
+          const info = await readPool();
+          const intent = strategy.decide({
+            agent: address,
+            pool: info,
+            candle,
+            candleCount,
+            timestamp,
+            traders: await readTraders(),
+            tokenBalance: await token.read.balanceOf([address]),
+            tradesThisCandle: tradesBy.get(i) ?? 0,
+            random,
+          });
+          if (!intent) {
+            done.add(i);
+            continue;
+          }
+
+          const { deviation } = simulateTrade(info, intent.quantity, intent.side, timestamp);
+          const gasPrice = await publicClient.getGasPrice();
+          const fee = estimateTradeFee(gasPrice);
+          await time.setNextBlockTimestamp(timestamp);
+          const status = await pool.write.trade(
+            [intent.quantity, intent.side, intent.delay ?? 0n, intent.candleSize ?? poolL],
+            { account: wallet.account, value: getTradeValue(intent.quantity, intent.side, fee), gasPrice }
+          )
+            .then((hash) => publicClient.waitForTransactionReceipt({ hash }))
+            .then((receipt) => receipt.status)
+            .catch(() => "reverted" as const);
+
+          tradesBy.set(i, (tradesBy.get(i) ?? 0) + 1);
+          trades++;
+          report.trades.push({
+            poolId: Number(poolId),
+            candle,
+            timestamp: Number(timestamp),
+            agent: address,
+            strategy: strategy.name,
+            side: intent.side ? "buy" : "sell",
+            quantity: intent.quantity.toString(),
+            fee: fee.toString(),
+            deviation: toNumber(deviation),
+            status,
+          });
+        }
+      }
+
+      const info = await readPool();
+      const traders = await readTraders();
+      const [leader] = rankTraders(traders);
+      const maxDeviation = traders.reduce((max, t) => (t.deviation > max ? t.deviation : max), 0n);
+      report.candles.push({
+        poolId: Number(poolId),
+        candle,
+        timestamp: Number(candleStart),
+        price: toPrice(info.xReserve, info.yReserve),
+        curveExpected: toNumber(getCurveExpected(info, candleStart)),
+        trades,
+        maxDeviation: toNumber(maxDeviation),
+        leader: leader?.trader ?? "",
+        leaderStrategy: leader ? strategyOf(leader.trader) : "",
+        leaderDeviation: leader ? toNumber(leader.deviation) : 0,
+      });
+      poolReport.candles++;
+
+      if (!enforceThreshold) continue;
+      const locked = (await keeper.tick()).find((action) => action.type === "locked");
+      if (locked) {
+        poolReport.outcome = "locked";
+        poolReport.lock = { candle, maxDeviation: toNumber(locked.maxDeviation) };
+        log(`Pool #${poolId} locked in candle ${candle}`);
+        break;
+      }
+    }
+
+    if (poolReport.outcome !== "locked") {
+      await time.increaseTo(endTime + 1n);
+      const info = await readPool();
+      const finalized = (await keeper.tick()).find((action) => action.type === "finalized");
+      if (finalized) {
+        const standing = (await readTraders()).find((t) => t.trader === finalized.winner)!;
+        poolReport.outcome = "won";
+        poolReport.winner = {
+          agent: finalized.winner,
+          strategy: strategyOf(finalized.winner),
+          deviation: toNumber(standing.deviation),
+          nextPoolDelay: Number(info.winnerProposedDelay),
+          nextPoolCandleSize: Number(info.winnerProposedCandleSize),
+        };
+        log(`Pool #${poolId} won by ${finalized.winner} (${poolReport.winner.strategy})`);
+      } else {
+        log(`Pool #${poolId} ended without a winner`);
+      }
+    }
+    report.pools.push(poolReport);
+  }
+
+  report.feesCollected = (await treasury.read.totalFeesCollected()).toString();
+  return report;
+}
+
+function toCsv<T extends object>(rows: T[]) {
+  if (!rows.length) return "";
+  const escape = (value: unknown) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const header = Object.keys(rows[0]);
+  const lines = rows.map((row) => header.map((key) => escape(row[key as keyof T])).join(","));
+  return `${[header.join(","), ...lines].join("\n")}\n`;
+}
+
+/** `report.json` with everything, plus `candles.csv`, `trades.csv` and `pools.csv` */
+export function writeReport(report: SimulationReport, dir: string) {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, "report.json"), `${JSON.stringify(report, null, 2)}\n`);
+  fs.writeFileSync(path.join(dir, "candles.csv"), toCsv(report.candles));
+  fs.writeFileSync(path.join(dir, "trades.csv"), toCsv(report.trades));
+  fs.writeFileSync(path.join(dir, "pools.csv"), toCsv(report.pools.map(({ lock, winner, ...pool }) => ({
+    ...pool,
+    lockCandle: lock?.candle ?? "",
+    lockMaxDeviation: lock?.maxDeviation ?? "",
+    winner: winner?.agent ?? "",
+    winnerStrategy: winner?.strategy ?? "",
+    winnerDeviation: winner?.deviation ?? "",
+    nextPoolDelay: winner?.nextPoolDelay ?? "",
+    nextPoolCandleSize: winner?.nextPoolCandleSize ?? "",
+  }))));
+}
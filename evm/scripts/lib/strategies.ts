@@ -0,0 +1,163 @@
+import { parseEther, type Address } from "viem";
+import {
+  PRECISION,
+  rankTraders,
+  simulateTrade,
+  simulateTradeOutcome,
+  type PoolCurveParams,
+  type PoolReserves,
+  type TraderDeviation,
+} from "tits-core";
+
+export interface TradeIntent {
+  quantity: bigint; // wei for buys, token units for sells
+  side: boolean; // true = buy, false = sell
+  delay?: bigint; // proposed for the next pool, 0 by default
+  candleSize?: bigint; // proposed L for the next pool, this pool's L by default
+}
+
+/** What an agent sees before each of its trades, read fresh from the chain */
+export interface StrategyContext {
+  agent: Address;
+  pool: PoolCurveParams & PoolReserves;
+  candle: number; // 0 based, within the pool
+  candleCount: number; // candles the simulator will run in this pool
+  timestamp: bigint; // the trade's block timestamp
+  traders: TraderDeviation[]; // in `getAllTraders` order
+  tokenBalance: bigint;
+  tradesThisCandle: number; // by this agent
+  random: () => number; // seeded, [0, 1)
+}
+
+/**
+ * Called repeatedly per candle until it returns null or the simulator's per-candle cap is
+ * hit, so a strategy can stock up on tokens and then trade on the new reserves.
+ */
+export interface Strategy {
+  name: string;
+  decide: (context: StrategyContext) => TradeIntent | null;
+}
+
+/** One group of `count` agents, members may share state */
+export type StrategyFactory = (count: number) => Strategy[];
+
+const STASH = parseEther("0.001"); // a buy this size covers thousands of on-curve sells
+
+const isSame = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Tokens to sell so the native `ammOutput` lands on the curve, ie, the lowest deviation
+ * any trade can score this candle. Null when the pool cannot pay out that much.
+ */
+export function getCurveSellQuantity(pool: PoolCurveParams & PoolReserves, timestamp: bigint): bigint | null {
+  const { curveExpected } = simulateTrade(pool, 1n, false, timestamp);
+  if (curveExpected === 0n || curveExpected >= pool.xReserve) return null;
+
+  const quantity = (curveExpected * pool.yReserve) / (pool.xReserve - curveExpected) / PRECISION;
+  // rounding can land either side of the curve, keep the closer one
+  const candidates = [quantity, quantity + 1n].filter((q) => q > 0n);
+  if (!candidates.length) return null;
+  return candidates.reduce((best, q) => (
+    simulateTrade(pool, q, false, timestamp).deviation < simulateTrade(pool, best, false, timestamp).deviation ? q : best
+  ));
+}
+
+// sells on the curve, buying a stash first when short of tokens
+function curveTrade(context: StrategyContext): TradeIntent | null {
+  const quantity = getCurveSellQuantity(context.pool, context.timestamp);
+  if (quantity === null) return null;
+  if (context.tokenBalance < quantity) return { quantity: STASH, side: true };
+  return { quantity, side: false };
+}
+
+/** Trades about `activity` of the candles, random side and size */
+export const random = (activity = 0.3): StrategyFactory => (count) => (
+  Array.from({ length: count }, (): Strategy => ({
+    name: "random",
+    decide: ({ random, tokenBalance, tradesThisCandle }) => {
+      if (tradesThisCandle > 0 || random() >= activity) return null;
+      if (tokenBalance > 0n && random() < 0.5) {
+        return { quantity: (tokenBalance * BigInt(Math.ceil(random() * 100))) / 100n, side: false };
+      }
+      return { quantity: (STASH * BigInt(Math.ceil(random() * 10))) / 2n, side: true };
+    },
+  }))
+);
+
+/**
+ * Plays for itself: makes the on-curve sell whenever it would lower its own recorded
+ * deviation or take back the lead, and sits out otherwise.
+ */
+export const greedy = (): StrategyFactory => (count) => (
+  Array.from({ length: count }, (): Strategy => ({
+    name: "greedy",
+    decide: (context) => {
+      const intent = curveTrade(context);
+      if (!intent || intent.side) return intent;
+
+      const { agent, pool, traders, timestamp } = context;
+      const current = traders.find((t) => isSame(t.trader, agent));
+      const leader = rankTraders(traders)[0];
+      const leading = !!leader && isSame(leader.trader, agent);
+      const outcome = simulateTradeOutcome(pool, traders, agent, intent.quantity, false, timestamp);
+      const improves = !current || outcome.recordedDeviation < current.deviation;
+      return improves || (!leading && outcome.isWinner) ? intent : null;
+    },
+  }))
+);
+
+/**
+ * Draws the curve together: each candle one member, in turn, makes the on-curve sell
+ * whether or not it helps them, and every member proposes the same next pool.
+ */
+export const coalition = (delay = 0n, candleSize?: bigint): StrategyFactory => (count) => (
+  Array.from({ length: count }, (_, member): Strategy => {
+    let soldAt: number | null = null;
+    return {
+      name: "coalition",
+      decide: (context) => {
+        if (context.candle % count !== member || soldAt === context.candle) return null;
+        const intent = curveTrade(context);
+        if (intent && !intent.side) soldAt = context.candle;
+        return intent && { ...intent, delay, candleSize };
+      },
+    };
+  })
+);
+
+/**
+ * Waits for one random candle of each pool and then buys big, which records a deviation far
+ * over the threshold and shoves the price off the curve for everyone after.
+ */
+export const griefer = (size = parseEther("0.5")): StrategyFactory => (count) => (
+  Array.from({ length: count }, (): Strategy => {
+    // picked again for every pool, the next one can have fewer candles
+    let attack: { startTime: bigint; candle: number } | null = null;
+    return {
+      name: "griefer",
+      decide: ({ pool, candle, candleCount, random, tradesThisCandle }) => {
+        if (attack?.startTime !== pool.startTime) {
+          attack = { startTime: pool.startTime, candle: Math.floor(random() * candleCount) };
+        }
+        return candle === attack.candle && tradesThisCandle === 0 ? { quantity: size, side: true } : null;
+      },
+    };
+  })
+);
+
+export const STRATEGIES: Record<string, StrategyFactory> = {
+  random: random(),
+  greedy: greedy(),
+  coalition: coalition(),
+  griefer: griefer(),
+};
+
+/** `"greedy:3,random:5"` into one strategy per agent, in order */
+export function parseAgents(spec: string): Strategy[] {
+  return spec.split(",").filter(Boolean).flatMap((group) => {
+    const [name, count = "1"] = group.trim().split(":");
+    const factory = STRATEGIES[name];
+    if (!factory) throw new Error(`Unknown strategy ${name}, expected one of ${Object.keys(STRATEGIES).join(", ")}`);
+    return factory(Number(count));
+  });
+}
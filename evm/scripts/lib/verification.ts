@@ -0,0 +1,134 @@
+import hre from "hardhat";
+import { Etherscan } from "@nomicfoundation/hardhat-verify/etherscan";
+import { getAddress, type Address } from "viem";
+import { INITIAL_TOKEN_SUPPLY } from "tits-core";
+
+import type { FlowContracts } from "./registry";
+
+export type VerifiableContract = "TitsTreasury" | "TittyPoolFactory" | "CryptoTittyFactory" | "TittyPool" | "CryptoTitty";
+
+/** As recorded in the registry, Ignition deploys the pool factory owned by the deployer */
+export interface DeploymentAccounts {
+  owner: Address;
+  deployer: Address;
+}
+
+export interface VerificationTarget {
+  contract: VerifiableContract;
+  address: Address;
+  constructorArguments: unknown[];
+  poolId: bigint | null; // for the contracts the factory deployed
+}
+
+export type VerificationStatus = "verified" | "alreadyVerified" | "failed";
+
+export interface VerificationResult extends VerificationTarget {
+  status: VerificationStatus;
+  error: string | null;
+}
+
+export interface Verifier {
+  isVerified: (address: Address) => Promise<boolean>;
+  verify: (target: VerificationTarget) => Promise<void>;
+}
+
+// fully qualified, so the plugin skips matching the bytecode against every artifact
+const SOURCES: Record<VerifiableContract, string> = {
+  TitsTreasury: "contracts/TitsTreasury.sol:TitsTreasury",
+  TittyPoolFactory: "contracts/factories/TittyPoolFactory.sol:TittyPoolFactory",
+  CryptoTittyFactory: "contracts/factories/CryptoTittyFactory.sol:CryptoTittyFactory",
+  TittyPool: "contracts/TittyPool.sol:TittyPool",
+  CryptoTitty: "contracts/CryptoTitty.sol:CryptoTitty",
+};
+
+/**
+ * The three roots plus every pool and token the factory deployed, found from its
+ * `PoolCreated` events. Constructor arguments of the children are rebuilt the way
+ * `TittyPoolFactory._createPool` passes them, the factory owns both until handing the
+ * token to its pool.
+ */
+export async function discoverTargets(
+  contracts: FlowContracts,
+  { owner, deployer }: DeploymentAccounts,
+  fromBlock = 0n
+): Promise<VerificationTarget[]> {
+  const factoryAddress = getAddress(contracts.factory);
+  const factory = await hre.viem.getContractAt("TittyPoolFactory", factoryAddress);
+
+  const roots: VerificationTarget[] = [
+    { contract: "TitsTreasury", address: getAddress(contracts.treasury), constructorArguments: [owner], poolId: null },
+    { contract: "TittyPoolFactory", address: factoryAddress, constructorArguments: [deployer], poolId: null },
+    { contract: "CryptoTittyFactory", address: getAddress(contracts.tokenFactory), constructorArguments: [owner], poolId: null },
+  ];
+
+  const created = await factory.getEvents.PoolCreated({}, { fromBlock });
+  const deployedCount = await factory.read.getDeployedPoolCount();
+  if (BigInt(created.length) !== deployedCount) {
+    throw new Error(`Found ${created.length} PoolCreated events for ${deployedCount} pools, is fromBlock ${fromBlock} after the factory's first pool?`);
+  }
+
+  const children = created.flatMap(({ args }): VerificationTarget[] => {
+    const { poolId, poolAddress, tokenAddress, lValue, hValue, startTime } = args as Required<typeof args>;
+    return [
+      {
+        contract: "CryptoTitty",
+        address: tokenAddress,
+        constructorArguments: [`Crypto Titty ${poolId}`, `T${poolId}`, INITIAL_TOKEN_SUPPLY, poolId, factoryAddress],
+        poolId,
+      },
+      {
+        contract: "TittyPool",
+        address: poolAddress,
+        constructorArguments: [factoryAddress, poolId, lValue, hValue, tokenAddress, startTime],
+        poolId,
+      },
+    ];
+  });
+
+  return [...roots, ...children];
+}
+
+/** The block explorer configured under `etherscan` for the current network */
+export async function createExplorerVerifier(): Promise<Verifier> {
+  const chainConfig = await Etherscan.getCurrentChainConfig(
+    hre.network.name,
+    hre.network.provider,
+    hre.config.etherscan.customChains
+  );
+  const explorer = Etherscan.fromChainConfig(hre.config.etherscan.apiKey, chainConfig);
+
+  return {
+    isVerified: (address) => explorer.isVerified(address),
+    verify: async ({ contract, address, constructorArguments }) => {
+      await hre.run("verify:verify", { address, constructorArguments, contract: SOURCES[contract] });
+    },
+  };
+}
+
+/** Verifies what the explorer does not know yet, a failure does not stop the others */
+export async function verifyTargets(
+  targets: VerificationTarget[],
+  verifier: Verifier,
+  log: (message: string) => void = console.log
+): Promise<VerificationResult[]> {
+  const results: VerificationResult[] = [];
+
+  for (const target of targets) {
+    const label = target.poolId === null ? target.contract : `${target.contract} #${target.poolId}`;
+    try {
+      if (await verifier.isVerified(target.address)) {
+        results.push({ ...target, status: "alreadyVerified", error: null });
+        continue;
+      }
+      log(`Verifying ${label} at ${target.address}`);
+      await verifier.verify(target);
+      results.push({ ...target, status: "verified", error: null });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`${label} verification failed: ${message}`);
+      results.push({ ...target, status: "failed", error: message });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,26 @@
+import { recordDeployment } from "./lib/registry";
+
+// Records a Move package publish, eg, after `supra move tool publish` of supra/move_workspace/titsFun
+//   SUPRA_TITS_FUN=0x... npm run registry:supra
+async function main() {
+  const titsFun = process.env.SUPRA_TITS_FUN;
+  if (!titsFun) throw new Error("Set SUPRA_TITS_FUN to the address the package was published under");
+
+  const chainId = Number(process.env.SUPRA_CHAIN_ID ?? 6); // 6 is testnet
+  const network = process.env.SUPRA_NETWORK ?? "testnet";
+
+  recordDeployment(chainId, "supra", network, {
+    deployedAt: new Date().toISOString(),
+    deployer: titsFun,
+    owner: titsFun,
+    contracts: { titsFun },
+  });
+  console.log(`Recorded ${titsFun} for Supra chain ${chainId}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
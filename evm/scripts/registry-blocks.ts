@@ -0,0 +1,31 @@
+import hre from "hardhat";
+import { getAddress } from "viem";
+
+import { findDeploymentBlock, getCurrentDeployment, recordDeployment, type FlowContracts } from "./lib/registry";
+
+// Fills in the deployment block of a Flow registry entry recorded without one, the web app
+// and verify.ts start their event scans there
+//   npm run registry:blocks -- --network flowTestnet
+async function main() {
+  const publicClient = await hre.viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+  const deployment = getCurrentDeployment(chainId);
+  if (!deployment || deployment.chain !== "flow") throw new Error(`No Flow deployment for chain ${chainId} in the registry`);
+  if (deployment.deployedBlock !== undefined) {
+    console.log(`Chain ${chainId} already records block ${deployment.deployedBlock}`);
+    return;
+  }
+
+  const { chain, network, ...current } = deployment;
+  const factory = getAddress((current.contracts as FlowContracts).factory);
+  const deployedBlock = Number(await findDeploymentBlock(publicClient, factory));
+  recordDeployment(chainId, chain, network, { ...current, deployedBlock });
+  console.log(`Recorded block ${deployedBlock} for the factory ${factory} on chain ${chainId}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
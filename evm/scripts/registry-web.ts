@@ -0,0 +1,6 @@
+import path from "path";
+import { WEB_CONFIG_PATH, writeWebConfig } from "./lib/registry";
+
+// Regenerates the tits-web config after a hand edit of deployments/registry.json
+writeWebConfig();
+console.log("Wrote", path.relative(process.cwd(), WEB_CONFIG_PATH));
@@ -0,0 +1,38 @@
+import path from "path";
+import { formatEther } from "viem";
+
+import { runSimulation, writeReport } from "./lib/simulator";
+import { parseAgents } from "./lib/strategies";
+
+async function main() {
+  const agents = parseAgents(process.env.SIM_AGENTS ?? "greedy:3,coalition:4,random:4,griefer:1");
+  const out = process.env.SIM_OUT
+    ?? path.join(__dirname, "..", "simulations", new Date().toISOString().replace(/[:.]/g, "-"));
+
+  const report = await runSimulation({
+    agents,
+    pools: Number(process.env.SIM_POOLS ?? 1),
+    lValue: BigInt(process.env.SIM_L ?? 96),
+    candles: process.env.SIM_CANDLES ? Number(process.env.SIM_CANDLES) : undefined,
+    enforceThreshold: process.env.SIM_ENFORCE_THRESHOLD !== "false",
+    seed: Number(process.env.SIM_SEED ?? 1),
+  });
+
+  writeReport(report, out);
+  console.table(report.pools.map(({ poolId, lValue, candles, outcome, winner }) => ({
+    poolId,
+    lValue,
+    candles,
+    outcome,
+    winner: winner?.strategy ?? "",
+  })));
+  console.log(`Fees collected: ${formatEther(BigInt(report.feesCollected))}`);
+  console.log("Reports written to", out);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
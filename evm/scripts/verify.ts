@@ -1,61 +1,33 @@
-import { ethers } from "hardhat";
+import hre from "hardhat";
+import { getAddress } from "viem";
 
-async function main() {
-  // Load deployment info
-  const fs = require('fs');
-  let deploymentInfo;
-  
-  try {
-    deploymentInfo = JSON.parse(fs.readFileSync('deployment.json', 'utf8'));
-  } catch (error) {
-    console.log("No deployment.json found, trying deployment-testnet.json...");
-    try {
-      deploymentInfo = JSON.parse(fs.readFileSync('deployment-testnet.json', 'utf8'));
-    } catch (error2) {
-      console.error("No deployment files found. Please run deployment script first.");
-      return;
-    }
-  }
-
-  console.log("Verifying contracts on", deploymentInfo.network);
+import { getCurrentDeployment, type FlowContracts } from "./lib/registry";
+import { createExplorerVerifier, discoverTargets, verifyTargets } from "./lib/verification";
 
-  // Verify Treasury
-  console.log("\n=== Verifying TitsTreasury ===");
-  try {
-    await hre.run("verify:verify", {
-      address: deploymentInfo.treasury,
-      constructorArguments: [deploymentInfo.deployer],
-    });
-    console.log("TitsTreasury verified successfully!");
-  } catch (error) {
-    console.log("TitsTreasury verification failed:", error.message);
+async function main() {
+  const chainId = await (await hre.viem.getPublicClient()).getChainId();
+  const deployment = getCurrentDeployment(chainId);
+  if (!deployment || deployment.chain !== "flow") {
+    throw new Error(`No deployment for chain ${chainId} in the registry, run the deployment script first`);
   }
 
-  // Verify TittyPoolFactory
-  console.log("\n=== Verifying TittyPoolFactory ===");
-  try {
-    await hre.run("verify:verify", {
-      address: deploymentInfo.factory,
-      constructorArguments: [deploymentInfo.deployer],
-    });
-    console.log("TittyPoolFactory verified successfully!");
-  } catch (error) {
-    console.log("TittyPoolFactory verification failed:", error.message);
-  }
+  // The PoolCreated scan starts at the factory's block, VERIFY_FROM_BLOCK narrows it further
+  // on RPCs that cap eth_getLogs ranges
+  const fromBlock = BigInt(process.env.VERIFY_FROM_BLOCK ?? deployment.deployedBlock ?? 0);
+  const accounts = { owner: getAddress(deployment.owner), deployer: getAddress(deployment.deployer) };
+  const targets = await discoverTargets(deployment.contracts as FlowContracts, accounts, fromBlock);
+  console.log(`Verifying ${targets.length} contracts on ${deployment.network}`);
 
-  // Verify CryptoTittyFactory
-  console.log("\n=== Verifying CryptoTittyFactory ===");
-  try {
-    await hre.run("verify:verify", {
-      address: deploymentInfo.tokenFactory,
-      constructorArguments: [deploymentInfo.deployer],
-    });
-    console.log("CryptoTittyFactory verified successfully!");
-  } catch (error) {
-    console.log("CryptoTittyFactory verification failed:", error.message);
-  }
+  const results = await verifyTargets(targets, await createExplorerVerifier());
+  console.table(results.map(({ contract, poolId, address, status }) => ({
+    contract,
+    poolId: poolId?.toString() ?? "",
+    address,
+    status,
+  })));
 
-  console.log("\n=== Verification Complete ===");
+  const failed = results.filter((result) => result.status === "failed").length;
+  if (failed) throw new Error(`${failed} of ${results.length} contracts failed to verify`);
 }
 
 main()
@@ -63,4 +35,4 @@ main()
   .catch((error) => {
     console.error(error);
     process.exit(1);
-  }); 
\ No newline at end of file
+  });
@@ -0,0 +1,252 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatEther, getAddress, parseEther, zeroAddress, type Address, type Hash } from "viem";
+import {
+  DEVIATION_THRESHOLD,
+  fromFixedPoint,
+  getNextCandle,
+  getPoolLifecycle,
+  toFixedPoint,
+  toPrice,
+} from "tits-core";
+import { toPoolInfo } from "tits-contracts";
+
+import { getCurrentDeployment, type FlowContracts } from "../scripts/lib/registry";
+
+// Operator tasks against the current registry deployment, `--factory` / `--treasury` point
+// them elsewhere (a local node has no registry entry). Every write is simulated first, so a
+// revert shows up before anything is sent, and `--dry-run` stops there.
+
+type Contract = "factory" | "treasury";
+
+async function resolveAddress(hre: HardhatRuntimeEnvironment, contract: Contract, override?: string): Promise<Address> {
+  if (override) return getAddress(override);
+  const chainId = await (await hre.viem.getPublicClient()).getChainId();
+  const deployment = getCurrentDeployment(chainId);
+  const address = deployment?.chain === "flow" ? (deployment.contracts as FlowContracts)[contract] : undefined;
+  if (!address) throw new Error(`No ${contract} for chain ${chainId} in the registry, pass --${contract}`);
+  return getAddress(address);
+}
+
+async function execute<T>(
+  hre: HardhatRuntimeEnvironment,
+  description: string,
+  dryRun: boolean,
+  simulate: () => Promise<{ result: T }>,
+  write: () => Promise<Hash>
+): Promise<{ result: T; hash: Hash | null }> {
+  const { result } = await simulate();
+  if (dryRun) {
+    console.log(`[dry run] ${description}`);
+    return { result, hash: null };
+  }
+
+  const hash = await write();
+  const receipt = await (await hre.viem.getPublicClient()).waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") throw new Error(`${description} reverted in ${hash}`);
+  console.log(`${description}: ${hash}`);
+  return { result, hash };
+}
+
+function formatDuration(seconds: bigint) {
+  if (seconds <= 0n) return "0s";
+  const h = seconds / 3600n;
+  const m = (seconds % 3600n) / 60n;
+  const s = seconds % 60n;
+  return [h && `${h}h`, m && `${m}m`, s && `${s}s`].filter(Boolean).join(" ");
+}
+
+const formatDeviation = (deviation: bigint) => `${(Number(deviation) / Number(toFixedPoint(1n)) / 100).toFixed(2)}%`;
+
+function printState(title: string, rows: [string, unknown][]) {
+  const width = Math.max(...rows.map(([label]) => label.length));
+  console.log(title);
+  for (const [label, value] of rows) console.log(`  ${label.padEnd(width)}  ${value}`);
+}
+
+async function getPool(hre: HardhatRuntimeEnvironment, factoryAddress: Address, poolId?: bigint) {
+  const factory = await hre.viem.getContractAt("TittyPoolFactory", factoryAddress);
+  const count = await factory.read.getDeployedPoolCount();
+  const id = poolId ?? count;
+  if (id === 0n || id > count) throw new Error(`Pool #${id} does not exist, the factory has ${count}`);
+  return hre.viem.getContractAt("TittyPool", await factory.read.getPoolByPoolId([id]));
+}
+
+export async function inspectPool(hre: HardhatRuntimeEnvironment, factoryAddress: Address, poolId?: bigint) {
+  const factory = await hre.viem.getContractAt("TittyPoolFactory", factoryAddress);
+  const pool = await getPool(hre, factoryAddress, poolId);
+  const info = toPoolInfo(await pool.read.poolInfo());
+  const { timestamp: now } = await (await hre.viem.getPublicClient()).getBlock();
+
+  const traders = await Promise.all((await pool.read.getAllTraders()).map((t) => pool.read.getTraderDeviation([t])));
+  const maxDeviation = traders.reduce((max, t) => (t.deviation > max ? t.deviation : max), 0n);
+  const currentWinner = info.currentWinner === zeroAddress ? null : info.currentWinner;
+  const winner = currentWinner && traders.find((t) => t.trader === currentWinner);
+  const finalized = (await pool.getEvents.PoolWinnerFinalized({}, { fromBlock: 0n })).length > 0;
+  const nextPool = info.poolId < (await factory.read.getDeployedPoolCount())
+    ? toPoolInfo(await (await getPool(hre, factoryAddress, info.poolId + 1n)).read.poolInfo())
+    : null;
+  const lifecycle = getPoolLifecycle(
+    { ...info, currentWinner },
+    now,
+    { finalized, nextPoolStartTime: nextPool?.startTime ?? null }
+  );
+  const candle = lifecycle.phase === "active" ? getNextCandle(info.lValue, info.startTime, now) - 1n : null;
+
+  const state = {
+    ...info,
+    address: pool.address,
+    phase: lifecycle.phase,
+    candle,
+    timeRemaining: lifecycle.phase === "scheduled" || lifecycle.phase === "active" ? info.endTime - now : 0n,
+    price: toPrice(info.xReserve, info.yReserve),
+    traders: traders.length,
+    maxDeviation,
+    winner: winner ?? null,
+  };
+
+  const proposal = `proposes L ${info.winnerProposedCandleSize} after ${formatDuration(info.winnerProposedDelay)}`;
+  printState(`Pool #${info.poolId} at ${pool.address}`, [
+    ["phase", lifecycle.reason ? `${lifecycle.phase} (${lifecycle.reason})` : lifecycle.phase],
+    ["token", info.tokenAddress],
+    ["L / H", `${info.lValue} candles a day / ${fromFixedPoint(info.hValue)}`],
+    ["starts", new Date(Number(info.startTime) * 1000).toISOString()],
+    ["ends", `${new Date(Number(info.endTime) * 1000).toISOString()} (${formatDuration(state.timeRemaining)} left)`],
+    ["candle", candle === null ? "-" : `${candle + 1n} of ${info.lValue}, next at ${lifecycle.nextCandleAt}`],
+    ["reserves", `${formatEther(fromFixedPoint(info.xReserve))} native / ${formatEther(fromFixedPoint(info.yReserve))} tokens`],
+    ["price", `${state.price} native per token`],
+    ["trades", `${info.totalTrades} by ${traders.length} traders`],
+    ["max deviation", `${formatDeviation(maxDeviation)} (locks over ${formatDeviation(toFixedPoint(DEVIATION_THRESHOLD))})`],
+    ["winner", winner ? `${winner.trader} at ${formatDeviation(winner.deviation)}, ${proposal}${finalized ? ", finalized" : ""}` : "-"],
+  ]);
+  return state;
+}
+
+task("pool:create", "Opens a pool through the factory")
+  .addOptionalParam("l", "Candles per day, 96, 144 or 288", 96n, types.bigint)
+  .addOptionalParam("delay", "Seconds until it starts, at most 12h", 0n, types.bigint)
+  .addOptionalParam("factory", "TittyPoolFactory address, the registry's by default")
+  .addFlag("dryRun", "Simulate without sending")
+  .setAction(async ({ l, delay, factory: override, dryRun }, hre) => {
+    const factory = await hre.viem.getContractAt("TittyPoolFactory", await resolveAddress(hre, "factory", override));
+    const { result } = await execute(
+      hre,
+      `createPool(L ${l}, delay ${formatDuration(delay)})`,
+      dryRun,
+      () => factory.simulate.createPool([l, delay]),
+      () => factory.write.createPool([l, delay])
+    );
+    console.log(`${dryRun ? "Would open" : "Opened"} pool at ${result}`);
+    return result;
+  });
+
+task("pool:lock", "Locks a pool and burns its tokens")
+  .addParam("pool", "Pool ID", undefined, types.bigint)
+  .addOptionalParam("reason", "Emitted with PoolLocked", "Locked by the operator")
+  .addOptionalParam("factory", "TittyPoolFactory address, the registry's by default")
+  .addFlag("dryRun", "Simulate without sending")
+  .setAction(async ({ pool, reason, factory: override, dryRun }, hre) => {
+    const factory = await hre.viem.getContractAt("TittyPoolFactory", await resolveAddress(hre, "factory", override));
+    const { hash } = await execute(
+      hre,
+      `lockPool(#${pool}, "${reason}")`,
+      dryRun,
+      () => factory.simulate.lockPool([pool, reason]),
+      () => factory.write.lockPool([pool, reason])
+    );
+    return hash;
+  });
+
+task("pool:finalize", "Finalizes the winner of an ended pool")
+  .addParam("pool", "Pool ID", undefined, types.bigint)
+  .addOptionalParam("factory", "TittyPoolFactory address, the registry's by default")
+  .addFlag("dryRun", "Simulate without sending")
+  .setAction(async ({ pool, factory: override, dryRun }, hre) => {
+    const factoryAddress = await resolveAddress(hre, "factory", override);
+    const factory = await hre.viem.getContractAt("TittyPoolFactory", factoryAddress);
+    const { currentWinner } = toPoolInfo(await (await getPool(hre, factoryAddress, pool)).read.poolInfo());
+    if (currentWinner === zeroAddress) console.log(`Pool #${pool} has no winner, nothing will be emitted`);
+
+    const { hash } = await execute(
+      hre,
+      `finalizeWinner(#${pool})`,
+      dryRun,
+      () => factory.simulate.finalizeWinner([pool]),
+      () => factory.write.finalizeWinner([pool])
+    );
+    return hash;
+  });
+
+task("pool:inspect", "Prints a pool's state, the latest pool by default")
+  .addOptionalParam("pool", "Pool ID", undefined, types.bigint)
+  .addOptionalParam("factory", "TittyPoolFactory address, the registry's by default")
+  .setAction(async ({ pool, factory: override }, hre) => (
+    inspectPool(hre, await resolveAddress(hre, "factory", override), pool)
+  ));
+
+task("factory:list", "Lists every pool the factory deployed")
+  .addOptionalParam("factory", "TittyPoolFactory address, the registry's by default")
+  .setAction(async ({ factory: override }, hre) => {
+    const factory = await hre.viem.getContractAt("TittyPoolFactory", await resolveAddress(hre, "factory", override));
+    const { timestamp: now } = await (await hre.viem.getPublicClient()).getBlock();
+    const addresses = await factory.read.getAllDeployedPools();
+
+    const pools = await Promise.all(addresses.map(async (address, i) => {
+      const pool = await hre.viem.getContractAt("TittyPool", address);
+      const info = toPoolInfo(await pool.read.poolInfo());
+      const nextStart = addresses[i + 1]
+        ? toPoolInfo(await (await hre.viem.getContractAt("TittyPool", addresses[i + 1])).read.poolInfo()).startTime
+        : null;
+      const currentWinner = info.currentWinner === zeroAddress ? null : info.currentWinner;
+      const { phase } = getPoolLifecycle({ ...info, currentWinner }, now, { nextPoolStartTime: nextStart });
+      return { poolId: info.poolId, address, lValue: info.lValue, phase, trades: info.totalTrades, winner: currentWinner };
+    }));
+
+    console.log(`TittyPoolFactory at ${factory.address}, ${pools.length} pools`);
+    if (pools.length) {
+      console.table(pools.map(({ poolId, address, lValue, phase, trades, winner }) => ({
+        poolId: poolId.toString(),
+        address,
+        lValue: lValue.toString(),
+        phase,
+        trades: trades.toString(),
+        winner: winner ?? "-",
+      })));
+    }
+    return pools;
+  });
+
+task("treasury:fund", "Sends native tokens to the treasury")
+  .addParam("amount", "In native units, eg, 1.5")
+  .addOptionalParam("treasury", "TitsTreasury address, the registry's by default")
+  .addFlag("dryRun", "Simulate without sending")
+  .setAction(async ({ amount, treasury: override, dryRun }, hre) => {
+    const treasury = await hre.viem.getContractAt("TitsTreasury", await resolveAddress(hre, "treasury", override));
+    const value = parseEther(amount);
+    const { hash } = await execute(
+      hre,
+      `fundTreasury(${amount})`,
+      dryRun,
+      () => treasury.simulate.fundTreasury({ value }),
+      () => treasury.write.fundTreasury({ value })
+    );
+    console.log(`Treasury balance: ${formatEther(await treasury.read.getBalance())}`);
+    return hash;
+  });
+
+task("treasury:withdraw", "Withdraws collected fees to the treasury owner")
+  .addParam("amount", "In native units, eg, 1.5")
+  .addOptionalParam("treasury", "TitsTreasury address, the registry's by default")
+  .addFlag("dryRun", "Simulate without sending")
+  .setAction(async ({ amount, treasury: override, dryRun }, hre) => {
+    const treasury = await hre.viem.getContractAt("TitsTreasury", await resolveAddress(hre, "treasury", override));
+    const { hash } = await execute(
+      hre,
+      `withdrawFees(${amount})`,
+      dryRun,
+      () => treasury.simulate.withdrawFees([parseEther(amount)]),
+      () => treasury.write.withdrawFees([parseEther(amount)])
+    );
+    console.log(`Treasury balance: ${formatEther(await treasury.read.getBalance())}`);
+    return hash;
+  });
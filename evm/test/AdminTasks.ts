@@ -0,0 +1,88 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther } from "viem";
+
+describe("Admin tasks", function () {
+  // the tasks print for an operator, keep the test output readable
+  const log = console.log;
+  before(() => (console.log = () => {}));
+  after(() => (console.log = log));
+
+  async function deploySystemFixture() {
+    const [owner, alice] = await hre.viem.getWalletClients();
+    const treasury = await hre.viem.deployContract("TitsTreasury", [owner.account.address]);
+    const factory = await hre.viem.deployContract("TittyPoolFactory", [owner.account.address]);
+
+    return { treasury, factory, alice, targets: { factory: factory.address, treasury: treasury.address } };
+  }
+
+  it("creates a pool, and only simulates it on a dry run", async function () {
+    const { factory, targets } = await loadFixture(deploySystemFixture);
+
+    const simulated = await hre.run("pool:create", { l: 288n, delay: 600n, factory: targets.factory, dryRun: true });
+    expect(await factory.read.getDeployedPoolCount()).to.equal(0n);
+
+    const created = await hre.run("pool:create", { l: 288n, delay: 600n, factory: targets.factory });
+    expect(await factory.read.getPoolByPoolId([1n])).to.equal(created);
+    expect(simulated).to.equal(created);
+  });
+
+  it("inspects the latest pool through its life", async function () {
+    const { alice, targets } = await loadFixture(deploySystemFixture);
+    await hre.run("pool:create", { l: 96n, delay: 600n, factory: targets.factory });
+
+    const scheduled = await hre.run("pool:inspect", { factory: targets.factory });
+    expect(scheduled).to.include({ poolId: 1n, phase: "scheduled", candle: null, winner: null });
+
+    await time.increaseTo(scheduled.startTime + 1_000n);
+    const pool = await hre.viem.getContractAt("TittyPool", scheduled.address);
+    await pool.write.trade([parseEther("0.001"), true, 0n, 96n], { account: alice.account, value: parseEther("0.001") });
+
+    const active = await hre.run("pool:inspect", { pool: 1n, factory: targets.factory });
+    expect(active).to.include({ phase: "active", candle: 1n, totalTrades: 1n, traders: 1 });
+    expect(active.timeRemaining).to.equal(active.endTime - BigInt(await time.latest()));
+    expect(active.winner.trader).to.equal(getAddress(alice.account.address));
+
+    await time.increaseTo(active.endTime + 1n);
+    await hre.run("pool:finalize", { pool: 1n, factory: targets.factory });
+    expect(await hre.run("pool:inspect", { factory: targets.factory })).to.include({ phase: "finalized" });
+    expect(await pool.getEvents.PoolWinnerFinalized({}, { fromBlock: 0n })).to.have.length(1);
+  });
+
+  it("locks a pool and lists the factory's pools", async function () {
+    const { targets } = await loadFixture(deploySystemFixture);
+    await hre.run("pool:create", { factory: targets.factory });
+    await hre.run("pool:create", { l: 144n, factory: targets.factory });
+
+    await hre.run("pool:lock", { pool: 1n, reason: "Maintenance", factory: targets.factory, dryRun: true });
+    expect((await hre.run("factory:list", { factory: targets.factory }))[0].phase).to.equal("active");
+
+    await hre.run("pool:lock", { pool: 1n, reason: "Maintenance", factory: targets.factory });
+    const pools: { poolId: bigint; lValue: bigint; phase: string }[] = await hre.run("factory:list", { factory: targets.factory });
+    expect(pools.map((p) => [p.poolId, p.lValue, p.phase])).to.deep.equal([
+      [1n, 96n, "locked"],
+      [2n, 144n, "active"],
+    ]);
+
+    await expect(hre.run("pool:lock", { pool: 1n, factory: targets.factory, dryRun: true }))
+      .to.be.rejectedWith("Pool already locked");
+  });
+
+  it("funds the treasury and withdraws fees", async function () {
+    const { treasury, targets } = await loadFixture(deploySystemFixture);
+
+    await hre.run("treasury:fund", { amount: "2", treasury: targets.treasury, dryRun: true });
+    expect(await treasury.read.getBalance()).to.equal(0n);
+
+    await hre.run("treasury:fund", { amount: "2", treasury: targets.treasury });
+    await hre.run("treasury:withdraw", { amount: "0.5", treasury: targets.treasury });
+    expect(await treasury.read.getBalance()).to.equal(parseEther("1.5"));
+
+    await expect(hre.run("treasury:withdraw", { amount: "5", treasury: targets.treasury })).to.be.rejected;
+  });
+
+  it("needs a registry entry or an explicit address", async function () {
+    await expect(hre.run("factory:list")).to.be.rejectedWith("No factory for chain 31337 in the registry, pass --factory");
+  });
+});
@@ -0,0 +1,53 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther } from "viem";
+
+import TitsModule from "../ignition/modules/Tits";
+import TitsFirstPoolModule from "../ignition/modules/TitsFirstPool";
+import { findDeploymentBlock } from "../scripts/lib/registry";
+
+describe("Ignition modules", function () {
+  it("deploys the system owned by the deployer with a seeded treasury", async function () {
+    const [deployer] = await hre.viem.getWalletClients();
+    const { treasury, factory, tokenFactory } = await hre.ignition.deploy(TitsModule);
+
+    for (const contract of [treasury, factory, tokenFactory]) {
+      expect(await contract.read.owner()).to.equal(getAddress(deployer.account.address));
+    }
+    expect(await treasury.read.getBalance()).to.equal(parseEther("10"));
+    expect(await factory.read.getDeployedPoolCount()).to.equal(0n);
+    expect(await factory.read.treasury()).to.equal(treasury.address);
+  });
+
+  it("takes the owner and seed from parameters", async function () {
+    const [, owner] = await hre.viem.getWalletClients();
+    const { treasury, factory } = await hre.ignition.deploy(TitsModule, {
+      parameters: { TitsModule: { owner: owner.account.address, treasurySeed: parseEther("1") } },
+    });
+
+    expect(await factory.read.owner()).to.equal(getAddress(owner.account.address));
+    expect(await factory.read.treasury()).to.equal(treasury.address);
+    expect(await treasury.read.getBalance()).to.equal(parseEther("1"));
+  });
+
+  it("opens the first pool when asked to", async function () {
+    const { factory, firstPool } = await hre.ignition.deploy(TitsFirstPoolModule, {
+      parameters: { TitsFirstPoolModule: { lValue: 288n, delay: 60n } },
+    });
+
+    expect(await factory.read.getPoolByPoolId([1n])).to.equal(firstPool.address);
+    const [poolId, lValue] = await firstPool.read.poolInfo();
+    expect([poolId, lValue]).to.deep.equal([1n, 288n]);
+    expect(await firstPool.read.treasury()).to.equal(await factory.read.treasury());
+  });
+
+  it("finds the block the factory was deployed in", async function () {
+    const publicClient = await hre.viem.getPublicClient();
+    const { factory } = await hre.ignition.deploy(TitsModule);
+    await hre.network.provider.send("hardhat_mine", ["0x10"]);
+
+    const deployedBlock = await findDeploymentBlock(publicClient, factory.address);
+    expect(await publicClient.getCode({ address: factory.address, blockNumber: deployedBlock - 1n })).to.equal(undefined);
+    expect(await publicClient.getCode({ address: factory.address, blockNumber: deployedBlock })).to.not.equal(undefined);
+  });
+});
@@ -0,0 +1,176 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEventLogs, zeroAddress } from "viem";
+import { INITIAL_TOKEN_SUPPLY, toFixedPoint } from "tits-core";
+
+describe("TittyPoolFactory", function () {
+  async function deployFactoryFixture() {
+    const [owner, other] = await hre.viem.getWalletClients();
+    const factory = await hre.viem.deployContract("TittyPoolFactory", [owner.account.address]);
+    return { factory, owner, other };
+  }
+
+  async function getPool(factory: Awaited<ReturnType<typeof deployFactoryFixture>>["factory"], poolId: bigint) {
+    const pool = await hre.viem.getContractAt("TittyPool", await factory.read.getPoolByPoolId([poolId]));
+    const [, lValue, hValue, , , tokenAddress, startTime] = await pool.read.poolInfo();
+    const token = await hre.viem.getContractAt("CryptoTitty", tokenAddress);
+    return { pool, token, lValue, hValue, startTime };
+  }
+
+  it("registers pools under sequential IDs", async function () {
+    const { factory } = await loadFixture(deployFactoryFixture);
+
+    await factory.write.createPool([96n, 0n]);
+    await factory.write.createPool([144n, 60n]);
+    await factory.write.createPool([288n, 120n]);
+
+    expect(await factory.read.getDeployedPoolCount()).to.equal(3n);
+    const deployed = await factory.read.getAllDeployedPools();
+    expect(deployed).to.have.length(3);
+
+    for (const [i, address] of deployed.entries()) {
+      const poolId = BigInt(i + 1);
+      expect(await factory.read.getPoolByPoolId([poolId])).to.equal(address);
+      expect(await factory.read.isPoolDeployed([address])).to.equal(true);
+
+      const { pool, token } = await getPool(factory, poolId);
+      expect((await pool.read.poolInfo())[0]).to.equal(poolId);
+      expect(await token.read.name()).to.equal(`Crypto Titty ${poolId}`);
+      expect(await token.read.symbol()).to.equal(`T${poolId}`);
+      expect(await token.read.poolId()).to.equal(poolId);
+    }
+
+    const events = await factory.getEvents.PoolCreated({}, { fromBlock: 0n });
+    expect(events.map((e) => e.args.poolId)).to.deep.equal([1n, 2n, 3n]);
+    expect(events.map((e) => e.args.poolAddress)).to.deep.equal(deployed);
+  });
+
+  it("starts pools after the delay with H_0 = 1 for the first", async function () {
+    const { factory } = await loadFixture(deployFactoryFixture);
+
+    await factory.write.createPool([96n, 3_600n]);
+    const createdAt = BigInt(await time.latest());
+    const first = await getPool(factory, 1n);
+    expect(first.startTime).to.equal(createdAt + 3_600n);
+    expect(first.lValue).to.equal(96n);
+    expect(first.hValue).to.equal(toFixedPoint(1n));
+
+    const [event] = await factory.getEvents.PoolCreated();
+    expect(event.args.endTime).to.equal(createdAt + 3_600n + 24n * 3600n);
+  });
+
+  it("hands the token over to the pool with its liquidity", async function () {
+    const { factory } = await loadFixture(deployFactoryFixture);
+
+    await factory.write.createPool([96n, 0n]);
+    const { pool, token } = await getPool(factory, 1n);
+
+    expect(await token.read.owner()).to.equal(getAddress(pool.address));
+    expect(await pool.read.owner()).to.equal(getAddress(factory.address));
+    expect(await token.read.balanceOf([pool.address])).to.equal(INITIAL_TOKEN_SUPPLY);
+  });
+
+  it("mints the liquidity before giving up the token's mint rights", async function () {
+    const { factory } = await loadFixture(deployFactoryFixture);
+    const publicClient = await hre.viem.getPublicClient();
+
+    const hash = await factory.write.createPool([96n, 0n]);
+    const { logs } = await publicClient.waitForTransactionReceipt({ hash });
+    const { pool, token } = await getPool(factory, 1n);
+
+    const events = parseEventLogs({ abi: token.abi, logs }).filter((log) => getAddress(log.address) === token.address);
+    const mint = events.findIndex((log) => log.eventName === "Transfer" && log.args.to === getAddress(pool.address));
+    const handover = events.findIndex((log) => (
+      log.eventName === "OwnershipTransferred" && log.args.newOwner === getAddress(pool.address)
+    ));
+    expect(mint).to.be.greaterThan(-1);
+    expect(handover).to.be.greaterThan(mint);
+  });
+
+  it("rejects invalid parameters and non owners", async function () {
+    const { factory, other } = await loadFixture(deployFactoryFixture);
+
+    await expect(factory.write.createPool([100n, 0n])).to.be.rejectedWith("Invalid L value");
+    await expect(factory.write.createPool([96n, 12n * 3600n + 1n])).to.be.rejectedWith("Delay too long");
+    await expect(
+      factory.write.createPool([96n, 0n], { account: other.account })
+    ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+  });
+
+  it("creates the next pool with random params and reports them", async function () {
+    const { factory } = await loadFixture(deployFactoryFixture);
+
+    await factory.write.createPool([96n, 0n]);
+    await factory.write.createPoolWithRandomParams(["test"]);
+
+    const [event] = await factory.getEvents.PoolLockedWithRandomParams();
+    const next = await getPool(factory, 2n);
+    expect(event.args.poolId).to.equal(2n);
+    expect(event.args.reason).to.equal("test");
+    expect(next.lValue).to.equal(event.args.randomLValue);
+    expect(next.startTime).to.equal(BigInt(await time.latest()) + event.args.randomDelay!);
+  });
+
+  it("forwards lockPool and finalizeWinner to its pools for the owner", async function () {
+    const { factory, other } = await loadFixture(deployFactoryFixture);
+
+    await factory.write.createPool([96n, 0n]);
+    const { pool, token } = await getPool(factory, 1n);
+
+    await expect(
+      factory.write.lockPool([1n, "test"], { account: other.account })
+    ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+    await expect(factory.write.lockPool([2n, "test"])).to.be.rejectedWith("Pool does not exist");
+    await expect(factory.write.finalizeWinner([1n])).to.be.rejectedWith("Pool not ended");
+
+    await factory.write.lockPool([1n, "test"]);
+    expect((await pool.read.poolInfo())[8]).to.equal(true);
+    expect(await token.read.balanceOf([pool.address])).to.equal(0n);
+  });
+
+  it("points pools created after setTreasury at the treasury", async function () {
+    const { factory, owner, other } = await loadFixture(deployFactoryFixture);
+    const treasury = await hre.viem.deployContract("TitsTreasury", [owner.account.address]);
+
+    await factory.write.createPool([96n, 0n]);
+    await expect(
+      factory.write.setTreasury([treasury.address], { account: other.account })
+    ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+    await factory.write.setTreasury([treasury.address]);
+    await factory.write.createPool([96n, 0n]);
+
+    const [event] = await factory.getEvents.TreasuryUpdated({ fromBlock: 0n });
+    expect(event.args.treasury).to.equal(getAddress(treasury.address));
+    expect(await (await getPool(factory, 1n)).pool.read.treasury()).to.equal(zeroAddress);
+    expect(await (await getPool(factory, 2n)).pool.read.treasury()).to.equal(getAddress(treasury.address));
+  });
+});
+
+describe("CryptoTittyFactory", function () {
+  async function deployTokenFactoryFixture() {
+    const [owner, other] = await hre.viem.getWalletClients();
+    const tokenFactory = await hre.viem.deployContract("CryptoTittyFactory", [owner.account.address]);
+    return { tokenFactory, owner, other };
+  }
+
+  it("creates tokens owned by the caller, one per pool ID", async function () {
+    const { tokenFactory, owner, other } = await loadFixture(deployTokenFactoryFixture);
+
+    await tokenFactory.write.createToken(["Crypto Titty 1", "T1", 1_000n, 1n]);
+    const address = await tokenFactory.read.getTokenByPoolId([1n]);
+    const token = await hre.viem.getContractAt("CryptoTitty", address);
+
+    expect(await token.read.owner()).to.equal(getAddress(owner.account.address));
+    expect(await token.read.balanceOf([owner.account.address])).to.equal(1_000n);
+    expect(await tokenFactory.read.isTokenDeployed([address])).to.equal(true);
+    expect(await tokenFactory.read.getAllDeployedTokens()).to.deep.equal([address]);
+
+    await expect(
+      tokenFactory.write.createToken(["Crypto Titty 1", "T1", 0n, 1n])
+    ).to.be.rejectedWith("Pool ID already exists");
+    await expect(
+      tokenFactory.write.createToken(["Crypto Titty 2", "T2", 0n, 2n], { account: other.account })
+    ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+  });
+});
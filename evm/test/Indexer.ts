@@ -0,0 +1,180 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import { custom, getAddress, parseEther } from "viem";
+import type { AddressInfo } from "net";
+import { createApi, createIndexer, getLeaderboard, getOutcome, getPools, getTrades, openDb, type Db } from "tits-indexer";
+
+import { LOCK_REASON } from "../scripts/lib/keeper";
+
+describe("Indexer", function () {
+  async function deployFactoryFixture() {
+    const [owner, alice, bob] = await hre.viem.getWalletClients();
+
+    const factory = await hre.viem.deployContract("TittyPoolFactory", [owner.account.address]);
+    await factory.write.createPool([96n, 0n]);
+    const pool = await hre.viem.getContractAt("TittyPool", await factory.read.getPoolByPoolId([1n]));
+
+    return { factory, pool, alice, bob };
+  }
+
+  type Fixture = Awaited<ReturnType<typeof deployFactoryFixture>>;
+
+  function indexerFor(factory: Fixture["factory"], db: Db) {
+    return createIndexer({
+      transport: custom(hre.network.provider),
+      factory: factory.address,
+      db,
+      batchSize: 5n,
+      log: () => {},
+    });
+  }
+
+  async function buy(pool: Fixture["pool"], trader: Fixture["alice"], amount: string) {
+    await pool.write.trade([parseEther(amount), true, 0n, 96n], {
+      account: trader.account,
+      value: parseEther(amount),
+    });
+  }
+
+  it("indexes pools and trades with the deviations the pool recorded", async function () {
+    const { factory, pool, alice, bob } = await loadFixture(deployFactoryFixture);
+    await buy(pool, alice, "0.001");
+    await buy(pool, bob, "0.002");
+    await buy(pool, alice, "0.0005");
+
+    const db = openDb();
+    await indexerFor(factory, db).sync();
+
+    const [indexed] = getPools(db);
+    expect(indexed).to.include({ poolId: 1n, address: pool.address, lValue: 96n, totalTrades: 3n });
+
+    const trades = getTrades(db, 1n);
+    expect(trades.map((t) => t.trader)).to.deep.equal([alice, bob, alice].map((w) => getAddress(w.account.address)));
+    expect(getTrades(db, 1n, bob.account.address)).to.have.length(1);
+
+    const leaderboard = getLeaderboard(db, 1n)!;
+    const onChain = await Promise.all(leaderboard.map(({ trader }) => pool.read.getTraderDeviation([trader as `0x${string}`])));
+    expect(leaderboard).to.deep.equal(onChain.map((t) => ({ ...t })));
+
+    const [, , , , , , , , , , currentWinner] = await pool.read.poolInfo();
+    expect(leaderboard[0].trader).to.equal(currentWinner);
+    expect(getOutcome(db, 1n)).to.deep.equal({ status: "open" });
+  });
+
+  it("reports locked and finalized pools as outcomes", async function () {
+    const { factory, pool, alice } = await loadFixture(deployFactoryFixture);
+    await buy(pool, alice, "0.001");
+    await factory.write.lockPool([1n, LOCK_REASON]);
+
+    await factory.write.createPool([144n, 0n]);
+    const second = await hre.viem.getContractAt("TittyPool", await factory.read.getPoolByPoolId([2n]));
+    await buy(second, alice, "0.001");
+
+    const db = openDb();
+    const indexer = indexerFor(factory, db);
+    await indexer.sync();
+    expect(getOutcome(db, 1n)).to.deep.equal({ status: "locked", reason: LOCK_REASON });
+    expect(getOutcome(db, 2n)).to.deep.equal({ status: "open" });
+
+    const [, , , , , , , endTime] = await second.read.poolInfo();
+    await time.increaseTo(endTime + 1n);
+    await hre.network.provider.send("evm_mine");
+    await indexer.sync();
+    const { deviation } = await second.read.getTraderDeviation([alice.account.address]);
+    expect(getOutcome(db, 2n)).to.deep.include({
+      status: "won",
+      winner: getAddress(alice.account.address),
+      deviation,
+      finalized: false,
+    });
+
+    await factory.write.finalizeWinner([2n]);
+    await indexer.sync();
+    expect(getOutcome(db, 2n)).to.deep.include({ status: "won", deviation, nextPoolCandleSize: 96n, finalized: true });
+  });
+
+  it("resumes from its checkpoint after a restart", async function () {
+    const { factory, pool, alice, bob } = await loadFixture(deployFactoryFixture);
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "tits-indexer-")), "index.db");
+
+    try {
+      await buy(pool, alice, "0.001");
+      const first = openDb(file);
+      const { toBlock } = await indexerFor(factory, first).sync();
+      first.close();
+
+      await buy(pool, bob, "0.001");
+      const second = openDb(file);
+      const result = await indexerFor(factory, second).sync();
+      expect(result.fromBlock).to.equal(toBlock + 1n);
+      expect(getTrades(second, 1n)).to.have.length(2);
+      second.close();
+    } finally {
+      fs.rmSync(path.dirname(file), { recursive: true, force: true });
+    }
+  });
+
+  it("rolls back events from blocks that were reorged out", async function () {
+    const { factory, pool, alice, bob } = await loadFixture(deployFactoryFixture);
+    const db = openDb();
+    const indexer = indexerFor(factory, db);
+    const { toBlock: forkBlock } = await indexer.sync();
+
+    const snapshot = await hre.network.provider.send("evm_snapshot");
+    await buy(pool, alice, "0.001");
+    await buy(pool, alice, "0.002");
+    await indexer.sync();
+    expect(getTrades(db, 1n)).to.have.length(2);
+
+    // the same height again with different blocks
+    await hre.network.provider.send("evm_revert", [snapshot]);
+    await buy(pool, bob, "0.001");
+    await hre.network.provider.send("evm_mine");
+
+    const { reorgedTo } = await indexer.sync();
+    expect(reorgedTo).to.equal(forkBlock);
+    expect(getTrades(db, 1n).map((t) => t.trader)).to.deep.equal([getAddress(bob.account.address)]);
+  });
+
+  it("serves candles, trades, leaderboards and outcomes over HTTP", async function () {
+    const { factory, pool, alice } = await loadFixture(deployFactoryFixture);
+    await buy(pool, alice, "0.001");
+
+    const db = openDb();
+    await indexerFor(factory, db).sync();
+    const server = createApi(db).listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    const { port } = server.address() as AddressInfo;
+    const get = (route: string) => fetch(`http://127.0.0.1:${port}${route}`);
+
+    try {
+      const poolResponse = await (await get("/pools/1")).json();
+      expect(poolResponse).to.include({ poolId: "1", address: pool.address, totalTrades: "1" });
+      expect(poolResponse.outcome).to.deep.equal({ status: "open" });
+
+      const trades = await (await get(`/pools/1/trades?trader=${alice.account.address}`)).json();
+      expect(trades).to.have.length(1);
+      expect(trades[0]).to.include({ trader: getAddress(alice.account.address), quantity: parseEther("0.001").toString() });
+
+      const candles = await (await get("/pools/1/candles")).json();
+      expect(candles).to.have.length(1);
+      expect(candles[0]).to.include({ index: 0, trades: 1 });
+
+      const [leader] = await (await get("/pools/1/leaderboard")).json();
+      expect(leader.trader).to.equal(getAddress(alice.account.address));
+
+      const player = await (await get(`/players/${alice.account.address}`)).json();
+      expect(player.pools).to.have.length(1);
+      expect(player.pools[0]).to.include({ poolId: "1", rank: 0, won: false });
+
+      expect((await get("/pools/2")).status).to.equal(404);
+      expect((await get("/pools/abc")).status).to.equal(400);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,200 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  encodeAbiParameters,
+  getAddress,
+  keccak256,
+  pad,
+  parseAbiParameters,
+  parseEther,
+  zeroAddress,
+  type Address,
+} from "viem";
+import { DEVIATION_THRESHOLD, simulateTrade, toFixedPoint } from "tits-core";
+
+import { createKeeper, LOCK_REASON, NO_WINNER_REASON } from "../scripts/lib/keeper";
+
+describe("Keeper", function () {
+  const DELAY = 60n;
+
+  async function deployFactoryFixture() {
+    const [owner, alice] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+
+    const factory = await hre.viem.deployContract("TittyPoolFactory", [owner.account.address]);
+    await factory.write.createPool([96n, DELAY]);
+    const pool = await hre.viem.getContractAt("TittyPool", await factory.read.getPoolByPoolId([1n]));
+    const keeper = await createKeeper(factory.address, { log: () => {} });
+
+    return { factory, pool, keeper, alice, publicClient };
+  }
+
+  async function readPool(pool: Awaited<ReturnType<typeof deployFactoryFixture>>["pool"]) {
+    const [poolId, lValue, hValue, xReserve, yReserve, tokenAddress, startTime, endTime, isLocked] =
+      await pool.read.poolInfo();
+    return { poolId, lValue, hValue, xReserve, yReserve, tokenAddress, startTime, endTime, isLocked };
+  }
+
+  async function getLatestPool(factory: Awaited<ReturnType<typeof deployFactoryFixture>>["factory"]) {
+    const poolId = await factory.read.getDeployedPoolCount();
+    return readPool(await hre.viem.getContractAt("TittyPool", await factory.read.getPoolByPoolId([poolId])));
+  }
+
+  // storage slot of the factory's poolIdToAddress[poolId], found through pool 1's entry
+  async function findPoolIdSlot(
+    factory: Awaited<ReturnType<typeof deployFactoryFixture>>["factory"],
+    firstPool: Address,
+    poolId: bigint
+  ) {
+    const publicClient = await hre.viem.getPublicClient();
+    const entry = (id: bigint, slot: bigint) => keccak256(encodeAbiParameters(parseAbiParameters("uint256, uint256"), [id, slot]));
+    for (let slot = 0n; slot < 32n; slot++) {
+      const stored = await publicClient.getStorageAt({ address: factory.address, slot: entry(1n, slot) });
+      if (stored && BigInt(stored) === BigInt(firstPool)) return entry(poolId, slot);
+    }
+    throw new Error("poolIdToAddress not found in the factory's storage");
+  }
+
+  it("does nothing before the pool starts or while deviations are in range", async function () {
+    const { factory, pool, keeper } = await loadFixture(deployFactoryFixture);
+
+    expect(await keeper.tick()).to.deep.equal([]);
+
+    await time.increaseTo((await readPool(pool)).startTime + 10n);
+    expect(await keeper.tick()).to.deep.equal([]);
+    expect(await factory.read.getDeployedPoolCount()).to.equal(1n);
+  });
+
+  it("locks a pool over the threshold and relaunches with random params", async function () {
+    const { factory, pool, keeper, alice, publicClient } = await loadFixture(deployFactoryFixture);
+    const { startTime } = await readPool(pool);
+
+    await time.setNextBlockTimestamp(startTime + 10n);
+    await pool.write.trade([parseEther("0.01"), true, 0n, 96n], {
+      account: alice.account,
+      value: parseEther("0.01"),
+    });
+
+    const actions = await keeper.tick();
+    expect(actions.map((a) => a.type)).to.deep.equal(["locked", "launched"]);
+    expect(actions[0].type === "locked" && actions[0].maxDeviation > toFixedPoint(DEVIATION_THRESHOLD)).to.equal(true);
+    expect(actions[1]).to.include({ poolId: 2n, reason: LOCK_REASON });
+
+    expect((await readPool(pool)).isLocked).to.equal(true);
+    const lockEvents = await pool.getEvents.PoolLocked({}, { fromBlock: 0n });
+    expect(lockEvents[0].args.reason).to.equal(LOCK_REASON);
+
+    const next = await getLatestPool(factory);
+    const { timestamp } = await publicClient.getBlock();
+    expect(next.poolId).to.equal(2n);
+    expect(next.startTime >= timestamp && next.startTime < timestamp + 12n * 3600n).to.equal(true);
+
+    // nothing left to do until the new pool does something
+    expect(await keeper.tick()).to.deep.equal([]);
+  });
+
+  it("finalizes the winner after endTime and launches with their L and delay", async function () {
+    const { factory, pool, keeper, alice, publicClient } = await loadFixture(deployFactoryFixture);
+    const { startTime, tokenAddress } = await readPool(pool);
+    const token = await hre.viem.getContractAt("CryptoTitty", tokenAddress);
+
+    // the winner's proposal is taken from the trade that first made them the winner
+    await time.setNextBlockTimestamp(startTime + 10n);
+    await pool.write.trade([parseEther("0.001"), true, 7_200n, 288n], {
+      account: alice.account,
+      value: parseEther("0.001"),
+    });
+    await token.write.approve([pool.address, parseEther("1000")], { account: alice.account });
+
+    // a sell sized to land on the curve brings alice's best deviation back under the threshold
+    const sellAt = startTime + 30n;
+    const state = await readPool(pool);
+    const expected = simulateTrade(state, 1n, false, sellAt).curveExpected;
+    const quantity = (expected * state.yReserve) / (state.xReserve - expected) / toFixedPoint(1n);
+    expect(simulateTrade(state, quantity, false, sellAt).deviation < toFixedPoint(DEVIATION_THRESHOLD)).to.equal(true);
+
+    await time.setNextBlockTimestamp(sellAt);
+    await pool.write.trade([quantity, false, 0n, 96n], { account: alice.account });
+
+    expect(await keeper.tick()).to.deep.equal([]);
+
+    await time.increaseTo(startTime + 24n * 3600n + 1n);
+    const actions = await keeper.tick();
+    expect(actions.map((a) => a.type)).to.deep.equal(["finalized", "launched"]);
+    expect(actions[0]).to.include({ poolId: 1n, winner: getAddress(alice.account.address) });
+    expect(actions[1]).to.include({ poolId: 2n, lValue: 288n, delay: 7_200n, reason: null });
+
+    const [finalized] = await pool.getEvents.PoolWinnerFinalized({}, { fromBlock: 0n });
+    expect(finalized.args.winner).to.equal(getAddress(alice.account.address));
+
+    const next = await getLatestPool(factory);
+    const { timestamp } = await publicClient.getBlock();
+    expect(next.lValue).to.equal(288n);
+    expect(next.startTime).to.equal(timestamp + 7_200n);
+  });
+
+  it("only launches on the retry when the launch after finalizing failed", async function () {
+    const { factory, pool, keeper, alice } = await loadFixture(deployFactoryFixture);
+    const { startTime } = await readPool(pool);
+
+    await time.setNextBlockTimestamp(startTime + 10n);
+    await pool.write.trade([parseEther("0.001"), true, 3_600n, 144n], {
+      account: alice.account,
+      value: parseEther("0.001"),
+    });
+    await time.increaseTo(startTime + 24n * 3600n + 1n);
+
+    // a taken pool ID makes the launch revert after finalizeWinner went through
+    const slot = await findPoolIdSlot(factory, pool.address, 2n);
+    await hre.network.provider.send("hardhat_setStorageAt", [factory.address, slot, pad(alice.account.address)]);
+    await expect(keeper.tick()).to.be.rejectedWith("Pool ID already exists");
+    await hre.network.provider.send("hardhat_setStorageAt", [factory.address, slot, pad("0x0")]);
+    expect(await pool.getEvents.PoolWinnerFinalized({}, { fromBlock: 0n })).to.have.length(1);
+    expect(await factory.read.getDeployedPoolCount()).to.equal(1n);
+
+    const actions = await keeper.tick();
+    expect(actions.map((a) => a.type)).to.deep.equal(["launched"]);
+    expect(actions[0]).to.include({ poolId: 2n, lValue: 144n, delay: 3_600n, reason: null });
+    expect(await pool.getEvents.PoolWinnerFinalized({}, { fromBlock: 0n })).to.have.length(1);
+
+    expect(await keeper.tick()).to.deep.equal([]);
+  });
+
+  it("launches with random params when nobody traded", async function () {
+    const { factory, pool, keeper } = await loadFixture(deployFactoryFixture);
+
+    await time.increaseTo((await readPool(pool)).endTime + 1n);
+    const actions = await keeper.tick();
+    expect(actions.map((a) => a.type)).to.deep.equal(["launched"]);
+    expect(actions[0]).to.include({ poolId: 2n, reason: NO_WINNER_REASON });
+
+    const randomParams = await factory.getEvents.PoolLockedWithRandomParams({}, { fromBlock: 0n });
+    expect(randomParams[0].args.reason).to.equal(NO_WINNER_REASON);
+    expect(await pool.getEvents.PoolWinnerFinalized({}, { fromBlock: 0n })).to.have.length(0);
+  });
+
+  it("reacts to trades while running", async function () {
+    const { factory, pool, keeper, alice } = await loadFixture(deployFactoryFixture);
+    const { startTime } = await readPool(pool);
+    await time.increaseTo(startTime);
+
+    const stop = keeper.run();
+    try {
+      await pool.write.trade([parseEther("0.01"), true, 0n, 96n], {
+        account: alice.account,
+        value: parseEther("0.01"),
+      });
+
+      for (let i = 0; i < 100 && (await factory.read.getDeployedPoolCount()) === 1n; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+    } finally {
+      stop();
+    }
+
+    expect((await readPool(pool)).isLocked).to.equal(true);
+    expect(await factory.read.getDeployedPoolCount()).to.equal(2n);
+    expect((await getLatestPool(factory)).tokenAddress).to.not.equal(zeroAddress);
+  });
+});
@@ -0,0 +1,221 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import * as math from "tits-core";
+
+// Number of random cases per function, bump it locally for a deeper run
+const RUNS = Number(process.env.FUZZ_RUNS ?? 64);
+
+const EDGE_VALUES = [
+  0n,
+  1n,
+  2n,
+  96n,
+  144n,
+  288n,
+  9_999n,
+  10_000n,
+  math.PRECISION,
+  math.PRECISION + 1n,
+  math.INITIAL_X_RESERVE,
+  math.INITIAL_Y_RESERVE,
+  math.MAX_U256 / math.PRECISION,
+  math.MAX_U256 / math.PRECISION + 1n,
+  (1n << 128n) - 1n,
+  1n << 128n,
+  math.MAX_U256 - 1n,
+  math.MAX_U256,
+];
+
+// Seeded so a failing case can be reproduced, xorshift64*
+function createRandom(seed: bigint) {
+  let state = seed;
+  const next = () => {
+    state ^= state >> 12n;
+    state ^= (state << 25n) & 0xffffffffffffffffn;
+    state ^= state >> 27n;
+    return (state * 0x2545f4914f6cdd1dn) & 0xffffffffffffffffn;
+  };
+
+  // Random bit length first, otherwise almost every value would be close to 2^256
+  const uint256 = (): bigint => {
+    if (next() % 8n === 0n) {
+      return EDGE_VALUES[Number(next() % BigInt(EDGE_VALUES.length))];
+    }
+    const bits = next() % 257n;
+    let value = 0n;
+    for (let i = 0n; i < bits; i += 64n) {
+      value = (value << 64n) | next();
+    }
+    return bits === 0n ? 0n : value & ((1n << bits) - 1n);
+  };
+
+  const below = (max: bigint) => (max === 0n ? 0n : next() % max);
+
+  return { uint256, below };
+}
+
+type Outcome = { value: bigint } | { reverted: true };
+
+function offChain(fn: () => bigint): Outcome {
+  try {
+    return { value: fn() };
+  } catch (error) {
+    if (error instanceof math.MathOverflowError) return { reverted: true };
+    throw error;
+  }
+}
+
+async function onChain(fn: () => Promise<bigint>): Promise<Outcome> {
+  try {
+    return { value: await fn() };
+  } catch {
+    return { reverted: true };
+  }
+}
+
+async function expectParity(
+  label: string,
+  args: bigint[],
+  local: () => bigint,
+  remote: () => Promise<bigint>
+) {
+  const expected = await onChain(remote);
+  const actual = offChain(local);
+  expect(actual, `${label}(${args.join(", ")})`).to.deep.equal(expected);
+}
+
+describe("MathUtils parity", function () {
+  async function deployHarnessFixture() {
+    const [owner] = await hre.viem.getWalletClients();
+    const harness = await hre.viem.deployContract("MathUtilsHarness");
+    const pool = await hre.viem.deployContract("TittyPoolHarness", [
+      owner.account.address,
+      1n,
+      96n,
+      math.toFixedPoint(1n),
+      owner.account.address,
+      0n,
+    ]);
+    return { harness, pool };
+  }
+
+  const binary = [
+    "safeAdd",
+    "safeSub",
+    "safeMul",
+    "safeDiv",
+    "safeDivPrecision",
+    "safeMulFixedPoint",
+    "absDiff",
+  ] as const;
+
+  for (const name of binary) {
+    it(`matches ${name}`, async function () {
+      const { harness } = await loadFixture(deployHarnessFixture);
+      const random = createRandom(0x7115n + BigInt(name.length));
+
+      for (let i = 0; i < RUNS; i++) {
+        const a = random.uint256();
+        const b = random.uint256();
+        await expectParity(
+          name,
+          [a, b],
+          () => math[name](a, b),
+          () => harness.read[name]([a, b])
+        );
+      }
+    });
+  }
+
+  for (const name of ["sqrt", "toFixedPoint", "fromFixedPoint"] as const) {
+    it(`matches ${name}`, async function () {
+      const { harness } = await loadFixture(deployHarnessFixture);
+      const random = createRandom(0x5117n + BigInt(name.length));
+
+      // Sweep the hard-coded and linear search branches, then random ones
+      const inputs: bigint[] = [];
+      if (name === "sqrt") {
+        for (let x = 0n; x <= 10_000n; x += x < 300n ? 1n : 97n) inputs.push(x);
+      }
+      for (let i = 0; i < RUNS; i++) inputs.push(random.uint256());
+
+      for (const x of inputs) {
+        await expectParity(
+          name,
+          [x],
+          () => math[name](x),
+          () => harness.read[name]([x])
+        );
+      }
+    });
+  }
+
+  it("matches calculateCurveY over the game's parameter space", async function () {
+    const { harness } = await loadFixture(deployHarnessFixture);
+    const random = createRandom(0xc0ffeen);
+
+    for (const l of math.VALID_CANDLE_SIZES) {
+      for (const h of [1n, 9n, 12n, 16n]) {
+        for (let x = 0n; x <= l + 1n; x += 7n) {
+          await expectParity(
+            "calculateCurveY",
+            [x, h, l],
+            () => math.calculateCurveY(x, h, l),
+            () => harness.read.calculateCurveY([x, h, l])
+          );
+        }
+      }
+    }
+
+    for (let i = 0; i < RUNS; i++) {
+      const l = random.uint256();
+      const x = random.below(l + 2n);
+      const h = random.uint256();
+      await expectParity(
+        "calculateCurveY",
+        [x, h, l],
+        () => math.calculateCurveY(x, h, l),
+        () => harness.read.calculateCurveY([x, h, l])
+      );
+    }
+  });
+
+  it("matches calculateAmmOut", async function () {
+    const { harness } = await loadFixture(deployHarnessFixture);
+    const random = createRandom(0xa77n);
+
+    for (let i = 0; i < RUNS; i++) {
+      // Half the cases around realistic pool reserves, half anywhere in uint256
+      const realistic = i % 2 === 0;
+      const xReserve = realistic ? math.INITIAL_X_RESERVE + random.below(math.INITIAL_X_RESERVE) : random.uint256();
+      const yReserve = realistic ? math.INITIAL_Y_RESERVE - random.below(math.INITIAL_Y_RESERVE) : random.uint256();
+      const xIn = realistic ? math.toFixedPoint(random.below(10n ** 19n)) : random.uint256();
+
+      await expectParity(
+        "calculateAmmOut",
+        [xIn, xReserve, yReserve],
+        () => math.calculateAmmOut(xIn, xReserve, yReserve),
+        () => harness.read.calculateAmmOut([xIn, xReserve, yReserve])
+      );
+    }
+  });
+
+  it("matches TittyPool.calculateDeviation", async function () {
+    const { pool } = await loadFixture(deployHarnessFixture);
+    const random = createRandom(0xde5n);
+
+    for (let i = 0; i < RUNS; i++) {
+      const actual = random.uint256();
+      const expected = i % 3 === 0 ? actual + random.below(1000n) : random.uint256();
+      if (expected > math.MAX_U256) continue;
+
+      await expectParity(
+        "calculateDeviation",
+        [actual, expected],
+        () => math.calculateDeviation(actual, expected),
+        () => pool.read.exposedCalculateDeviation([actual, expected])
+      );
+    }
+  });
+});
@@ -0,0 +1,23 @@
+import { expect } from "chai";
+import { getAddress, keccak256, numberToHex, slice } from "viem";
+import { playerName } from "tits-core";
+
+describe("playerName", function () {
+  it("is the same for any casing of an address", function () {
+    const address = "0xabcdef0123456789abcdef0123456789abcdef01";
+
+    expect(playerName(getAddress(address))).to.equal(playerName(address));
+    expect(playerName(address)).to.match(/^[a-z]+-[a-z]+-[a-z]+$/);
+  });
+
+  it("tells apart addresses with the same digits in another order", function () {
+    expect(playerName("0xabcdef0123456789abcdef0123456789abcdef01"))
+      .to.not.equal(playerName("0xabcdef0123456789abcdef0123456789abcdef10"));
+  });
+
+  it("rarely gives two players the same name", function () {
+    const addresses = Array.from({ length: 2000 }, (_, i) => slice(keccak256(numberToHex(i)), 12));
+
+    expect(new Set(addresses.map(playerName)).size).to.be.greaterThan(1990);
+  });
+});
@@ -0,0 +1,106 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { parseEther, zeroAddress } from "viem";
+import { getPoolLifecycle, toFixedPoint } from "tits-core";
+
+describe("getPoolLifecycle", function () {
+  const DELAY = 3_600n;
+
+  async function deployScheduledPoolFixture() {
+    const [owner, trader] = await hre.viem.getWalletClients();
+    const startTime = BigInt(await time.latest()) + DELAY;
+
+    const token = await hre.viem.deployContract("CryptoTitty", ["Crypto Titty 1", "T1", 0n, 1n, owner.account.address]);
+    const pool = await hre.viem.deployContract("TittyPool", [
+      owner.account.address,
+      1n,
+      288n,
+      toFixedPoint(1n),
+      token.address,
+      startTime,
+    ]);
+    await token.write.transferOwnership([pool.address]);
+
+    return { pool, trader };
+  }
+
+  async function readPool(pool: Awaited<ReturnType<typeof deployScheduledPoolFixture>>["pool"]) {
+    const [, lValue, , , , , startTime, endTime, isLocked, , currentWinner, winnerProposedDelay] =
+      await pool.read.poolInfo();
+    return {
+      lValue,
+      startTime,
+      endTime,
+      isLocked,
+      currentWinner: currentWinner === zeroAddress ? null : currentWinner,
+      winnerProposedDelay,
+    };
+  }
+
+  async function tradeSucceeds(
+    pool: Awaited<ReturnType<typeof deployScheduledPoolFixture>>["pool"],
+    trader: Awaited<ReturnType<typeof deployScheduledPoolFixture>>["trader"],
+    timestamp: bigint
+  ) {
+    await time.setNextBlockTimestamp(timestamp);
+    try {
+      await pool.write.trade([parseEther("0.001"), true, 0n, 96n], {
+        account: trader.account,
+        value: parseEther("0.001"),
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  it("is tradable exactly when TittyPool.trade accepts trades", async function () {
+    const { pool, trader } = await loadFixture(deployScheduledPoolFixture);
+    const { startTime, endTime } = await readPool(pool);
+
+    // reverted trades still mine a block, so every probe needs a fresh timestamp
+    const probes: [bigint, string][] = [
+      [startTime - 10n, "scheduled"],
+      [startTime, "active"],
+      [startTime + 1_000n, "active"],
+      [endTime, "active"],
+      [endTime + 1n, "ended"],
+    ];
+
+    for (const [timestamp, phase] of probes) {
+      const lifecycle = getPoolLifecycle(await readPool(pool), timestamp);
+      expect(lifecycle.phase).to.equal(phase);
+      expect(await tradeSucceeds(pool, trader, timestamp), `trade at ${phase}`).to.equal(lifecycle.tradable);
+    }
+  });
+
+  it("is not tradable once locked", async function () {
+    const { pool, trader } = await loadFixture(deployScheduledPoolFixture);
+    const { startTime } = await readPool(pool);
+
+    await time.increaseTo(startTime);
+    await pool.write.lockPool(["test"]);
+
+    const timestamp = startTime + 60n;
+    const lifecycle = getPoolLifecycle(await readPool(pool), timestamp);
+    expect(lifecycle.phase).to.equal("locked");
+    expect(await tradeSucceeds(pool, trader, timestamp)).to.equal(false);
+  });
+
+  it("estimates the next pool start from the winner's delay", async function () {
+    const { pool, trader } = await loadFixture(deployScheduledPoolFixture);
+    const { startTime } = await readPool(pool);
+
+    await time.setNextBlockTimestamp(startTime + 60n);
+    await pool.write.trade([parseEther("0.001"), true, 7_200n, 144n], {
+      account: trader.account,
+      value: parseEther("0.001"),
+    });
+
+    const lifecycle = getPoolLifecycle(await readPool(pool), startTime + 120n);
+    expect(lifecycle.nextPoolStartAt).to.equal(startTime + 24n * 3600n + 7_200n);
+    expect(lifecycle.nextPoolStartIsEstimate).to.equal(true);
+    expect(lifecycle.nextCandleAt).to.equal(startTime + 300n);
+  });
+});
@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { zeroAddress } from "viem";
+
+import { runSimulation, writeReport } from "../scripts/lib/simulator";
+import { coalition, greedy, griefer, parseAgents } from "../scripts/lib/strategies";
+
+describe("Simulator", function () {
+  const quiet = { log: () => {} };
+
+  it("lets greedy traders finish a pool under the threshold and finalizes one of them", async function () {
+    const report = await runSimulation({ agents: greedy()(3), lValue: 288n, candles: 4, ...quiet });
+
+    const [pool] = report.pools;
+    expect(pool).to.include({ poolId: 1, lValue: 288, candles: 4, outcome: "won", lock: null });
+    expect(pool.winner!.strategy).to.equal("greedy");
+    expect(pool.winner!.deviation < 690).to.equal(true);
+
+    expect(report.candles).to.have.length(4);
+    expect(report.candles.every((c) => c.maxDeviation < 690 && c.leaderStrategy === "greedy")).to.equal(true);
+    expect(report.trades.every((t) => t.status === "success")).to.equal(true);
+  });
+
+  it("collects every successful trade's fee in the treasury over a full day", async function () {
+    const report = await runSimulation({ agents: greedy()(3), lValue: 96n, ...quiet });
+
+    expect(report.pools[0]).to.include({ candles: 96, outcome: "won" });
+    const charged = report.trades
+      .filter((t) => t.status === "success")
+      .reduce((sum, t) => sum + BigInt(t.fee), 0n);
+    expect(charged > 0n).to.equal(true);
+    expect(BigInt(report.feesCollected)).to.equal(charged);
+  });
+
+  it("has a coalition draw one candle each with the proposal it agreed on", async function () {
+    const report = await runSimulation({ agents: coalition(3_600n, 144n)(2), lValue: 288n, candles: 4, ...quiet });
+
+    const sells = report.trades.filter((t) => t.side === "sell");
+    expect(sells.map((t) => t.candle)).to.deep.equal([0, 1, 2, 3]);
+    expect(sells[0].agent).to.equal(sells[2].agent);
+    expect(sells[0].agent).to.not.equal(sells[1].agent);
+    expect(report.pools[0].winner).to.include({ strategy: "coalition", nextPoolDelay: 3_600, nextPoolCandleSize: 144 });
+  });
+
+  it("gets a pool locked by a griefer and plays the next one", async function () {
+    const report = await runSimulation({
+      agents: [...greedy()(2), ...griefer()(1)],
+      lValue: 288n,
+      candles: 3,
+      pools: 2,
+      ...quiet,
+    });
+
+    expect(report.pools).to.have.length(2);
+    expect(report.pools[0]).to.include({ poolId: 1, outcome: "locked" });
+    expect(report.pools[0].lock!.maxDeviation > 690).to.equal(true);
+    expect(report.pools[1].poolId).to.equal(2);
+
+    const unenforced = await runSimulation({
+      agents: [...greedy()(2), ...griefer()(1)],
+      lValue: 288n,
+      candles: 3,
+      enforceThreshold: false,
+      ...quiet,
+    });
+    expect(unenforced.pools[0].outcome).to.equal("won");
+  });
+
+  it("has a griefer pick its candle again in every pool", function () {
+    const [strategy] = griefer(1n)(1);
+    const context = (startTime: bigint, candle: number, candleCount: number) => ({
+      agent: zeroAddress,
+      pool: { lValue: BigInt(candleCount), hValue: 0n, startTime, xReserve: 0n, yReserve: 0n },
+      candle,
+      candleCount,
+      timestamp: startTime,
+      traders: [],
+      tokenBalance: 0n,
+      tradesThisCandle: 0,
+      random: () => 0.9,
+    });
+    const attacks = (startTime: bigint, candleCount: number) => (
+      Array.from({ length: candleCount }, (_, candle) => candle)
+        .filter((candle) => strategy.decide(context(startTime, candle, candleCount)))
+    );
+
+    expect(attacks(1_000n, 288)).to.deep.equal([259]);
+    expect(attacks(2_000n, 96)).to.deep.equal([86]);
+  });
+
+  it("writes JSON and CSV reports", async function () {
+    const report = await runSimulation({ agents: parseAgents("greedy:1,random:2"), lValue: 288n, candles: 2, ...quiet });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tits-simulation-"));
+
+    try {
+      writeReport(report, dir);
+      expect(fs.readdirSync(dir).sort()).to.deep.equal(["candles.csv", "pools.csv", "report.json", "trades.csv"]);
+      expect(JSON.parse(fs.readFileSync(path.join(dir, "report.json"), "utf8"))).to.deep.equal(report);
+
+      const candles = fs.readFileSync(path.join(dir, "candles.csv"), "utf8").trim().split("\n");
+      expect(candles[0]).to.equal("poolId,candle,timestamp,price,curveExpected,trades,maxDeviation,leader,leaderStrategy,leaderDeviation");
+      expect(candles).to.have.length(3);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects unknown strategies", function () {
+    expect(() => parseAgents("greedy:1,whale:2")).to.throw("Unknown strategy whale");
+  });
+});
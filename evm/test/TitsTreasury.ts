@@ -0,0 +1,90 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther } from "viem";
+
+describe("TitsTreasury", function () {
+  async function deployTreasuryFixture() {
+    const [owner, funder, other] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const treasury = await hre.viem.deployContract("TitsTreasury", [owner.account.address]);
+    return { treasury, owner, funder, other, publicClient };
+  }
+
+  it("tracks funding from anyone", async function () {
+    const { treasury, funder, publicClient } = await loadFixture(deployTreasuryFixture);
+
+    await treasury.write.fundTreasury({ account: funder.account, value: parseEther("2") });
+    await funder.sendTransaction({ to: treasury.address, value: parseEther("1") });
+
+    expect(await treasury.read.getBalance()).to.equal(parseEther("3"));
+    expect(await publicClient.getBalance({ address: treasury.address })).to.equal(parseEther("3"));
+
+    const [event] = await treasury.getEvents.TreasuryFunded({ fromBlock: 0n });
+    expect(event.args).to.include({
+      amount: parseEther("2"),
+      funder: getAddress(funder.account.address),
+      newBalance: parseEther("2"),
+    });
+
+    // hardhat can't infer revert strings from the payable functions here, so only the revert is checked
+    await expect(treasury.write.fundTreasury({ value: 0n })).to.be.rejected;
+    expect(await treasury.read.getBalance()).to.equal(parseEther("3"));
+  });
+
+  it("counts collected fees separately from funding", async function () {
+    const { treasury, funder } = await loadFixture(deployTreasuryFixture);
+
+    await treasury.write.fundTreasury({ account: funder.account, value: parseEther("1") });
+    await treasury.write.collectFees([parseEther("0.1")], { account: funder.account, value: parseEther("0.1") });
+
+    expect(await treasury.read.getBalance()).to.equal(parseEther("1.1"));
+    expect(await treasury.read.getTotalFeesCollected()).to.equal(parseEther("0.1"));
+
+    await expect(
+      treasury.write.collectFees([parseEther("0.1")], { value: parseEther("0.05") })
+    ).to.be.rejected;
+    expect(await treasury.read.getTotalFeesCollected()).to.equal(parseEther("0.1"));
+  });
+
+  it("lets the owner withdraw up to the balance", async function () {
+    const { treasury, owner, funder, other, publicClient } = await loadFixture(deployTreasuryFixture);
+
+    await treasury.write.fundTreasury({ account: funder.account, value: parseEther("2") });
+    const ownerBefore = await publicClient.getBalance({ address: owner.account.address });
+
+    const hash = await treasury.write.withdrawFees([parseEther("0.5")]);
+    const { gasUsed, effectiveGasPrice } = await publicClient.waitForTransactionReceipt({ hash });
+
+    expect(await treasury.read.getBalance()).to.equal(parseEther("1.5"));
+    expect(await publicClient.getBalance({ address: treasury.address })).to.equal(parseEther("1.5"));
+    expect(await publicClient.getBalance({ address: owner.account.address })).to.equal(
+      ownerBefore + parseEther("0.5") - gasUsed * effectiveGasPrice
+    );
+
+    const [event] = await treasury.getEvents.FeesWithdrawn();
+    expect(event.args).to.include({
+      amount: parseEther("0.5"),
+      admin: getAddress(owner.account.address),
+      remainingBalance: parseEther("1.5"),
+    });
+
+    await expect(treasury.write.withdrawFees([parseEther("2")])).to.be.rejectedWith("Insufficient balance");
+    await expect(
+      treasury.write.withdrawFees([parseEther("0.1")], { account: other.account })
+    ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+  });
+
+  it("pays pool funding out to the owner", async function () {
+    const { treasury, funder } = await loadFixture(deployTreasuryFixture);
+
+    await treasury.write.fundTreasury({ account: funder.account, value: parseEther("2") });
+    await treasury.write.initializePoolFunding([parseEther("1"), 7n]);
+
+    expect(await treasury.read.getBalance()).to.equal(parseEther("1"));
+    const [event] = await treasury.getEvents.EmergencyPoolFund();
+    expect(event.args).to.include({ amount: parseEther("1"), poolId: 7n, remainingBalance: parseEther("1") });
+
+    await expect(treasury.write.initializePoolFunding([parseEther("5"), 8n])).to.be.rejectedWith("Insufficient balance");
+  });
+});
@@ -0,0 +1,371 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther, zeroAddress } from "viem";
+import { estimateTradeFee, fromFixedPoint, INITIAL_TOKEN_SUPPLY, simulateTrade, toFixedPoint } from "tits-core";
+
+describe("TittyPool", function () {
+  async function deployPoolFixture() {
+    const [owner, alice, bob] = await hre.viem.getWalletClients();
+    const publicClient = await hre.viem.getPublicClient();
+    const startTime = BigInt(await time.latest()) + 60n;
+
+    const token = await hre.viem.deployContract("CryptoTitty", ["Crypto Titty 1", "T1", 0n, 1n, owner.account.address]);
+    const pool = await hre.viem.deployContract("TittyPoolHarness", [
+      owner.account.address,
+      1n,
+      96n,
+      toFixedPoint(1n),
+      token.address,
+      startTime,
+    ]);
+    // same liquidity and handoff as TittyPoolFactory._createPool
+    await token.write.mint([pool.address, INITIAL_TOKEN_SUPPLY]);
+    await token.write.transferOwnership([pool.address]);
+
+    return { pool, token, startTime, owner, alice, bob, publicClient };
+  }
+
+  async function readPool(pool: Awaited<ReturnType<typeof deployPoolFixture>>["pool"]) {
+    const [poolId, lValue, hValue, xReserve, yReserve, , startTime, endTime, isLocked, totalTrades, currentWinner] =
+      await pool.read.poolInfo();
+    return { poolId, lValue, hValue, xReserve, yReserve, startTime, endTime, isLocked, totalTrades, currentWinner };
+  }
+
+  describe("Deployment", function () {
+    it("starts with 1 native token against the initial supply for 24 hours", async function () {
+      const { pool, startTime } = await loadFixture(deployPoolFixture);
+      const state = await readPool(pool);
+
+      expect(state.xReserve).to.equal(toFixedPoint(parseEther("1")));
+      expect(state.yReserve).to.equal(toFixedPoint(INITIAL_TOKEN_SUPPLY));
+      expect(state.endTime).to.equal(startTime + 24n * 3600n);
+      expect(state.isLocked).to.equal(false);
+      expect(state.currentWinner).to.equal(zeroAddress);
+    });
+
+    it("rejects an invalid L value", async function () {
+      const { token, owner, startTime } = await loadFixture(deployPoolFixture);
+
+      await expect(
+        hre.viem.deployContract("TittyPool", [owner.account.address, 2n, 100n, toFixedPoint(1n), token.address, startTime])
+      ).to.be.rejectedWith("Invalid L value");
+    });
+  });
+
+  describe("Trades", function () {
+    it("updates reserves and mints the AMM output on a buy", async function () {
+      const { pool, token, startTime, alice, publicClient } = await loadFixture(deployPoolFixture);
+      const before = await readPool(pool);
+      const quantity = parseEther("0.01");
+      const timestamp = startTime + 10n;
+
+      const expected = simulateTrade(before, quantity, true, timestamp);
+
+      await time.setNextBlockTimestamp(timestamp);
+      await pool.write.trade([quantity, true, 0n, 96n], { account: alice.account, value: quantity });
+
+      const after = await readPool(pool);
+      expect(after.xReserve).to.equal(before.xReserve + toFixedPoint(quantity));
+      expect(after.yReserve).to.equal(before.yReserve - expected.ammOutput);
+      expect(after.totalTrades).to.equal(1n);
+      expect(await token.read.balanceOf([alice.account.address])).to.equal(expected.amountOut);
+      expect(await publicClient.getBalance({ address: pool.address })).to.equal(quantity);
+    });
+
+    it("pulls and burns tokens and pays out native on a sell", async function () {
+      const { pool, token, startTime, alice, publicClient } = await loadFixture(deployPoolFixture);
+      const buy = parseEther("0.5");
+
+      await time.setNextBlockTimestamp(startTime + 10n);
+      await pool.write.trade([buy, true, 0n, 96n], { account: alice.account, value: buy });
+
+      const before = await readPool(pool);
+      const held = await token.read.balanceOf([alice.account.address]);
+      const supply = await token.read.totalSupply();
+      const quantity = held / 2n;
+      const timestamp = startTime + 20n;
+      const expected = simulateTrade(before, quantity, false, timestamp);
+
+      await token.write.approve([pool.address, quantity], { account: alice.account });
+      await time.setNextBlockTimestamp(timestamp);
+      await pool.write.trade([quantity, false, 0n, 96n], { account: alice.account });
+
+      const after = await readPool(pool);
+      expect(after.xReserve).to.equal(before.xReserve - expected.ammOutput);
+      expect(after.yReserve).to.equal(before.yReserve + toFixedPoint(quantity));
+      expect(await token.read.balanceOf([alice.account.address])).to.equal(held - quantity);
+      expect(await token.read.totalSupply()).to.equal(supply - quantity);
+      expect(await publicClient.getBalance({ address: pool.address })).to.equal(buy - expected.amountOut);
+    });
+
+    it("reverts a sell without an allowance", async function () {
+      const { pool, startTime, alice } = await loadFixture(deployPoolFixture);
+      const buy = parseEther("0.01");
+
+      await time.setNextBlockTimestamp(startTime + 10n);
+      await pool.write.trade([buy, true, 0n, 96n], { account: alice.account, value: buy });
+
+      await expect(
+        pool.write.trade([1_000n, false, 0n, 96n], { account: alice.account })
+      ).to.be.rejectedWith("ERC20InsufficientAllowance");
+    });
+
+    it("reverts a buy that does not pay the quantity", async function () {
+      const { pool, startTime, alice } = await loadFixture(deployPoolFixture);
+      await time.increaseTo(startTime);
+
+      await expect(
+        pool.write.trade([parseEther("0.01"), true, 0n, 96n], { account: alice.account, value: parseEther("0.001") })
+      ).to.be.rejectedWith("Insufficient payment");
+    });
+  });
+
+  describe("Deviations", function () {
+    it("records the best deviation and emits it in basis points", async function () {
+      const { pool, startTime, alice } = await loadFixture(deployPoolFixture);
+      const quantities = [parseEther("0.01"), parseEther("0.0001"), parseEther("0.1")];
+      const deviations: bigint[] = [];
+
+      for (const [i, quantity] of quantities.entries()) {
+        const timestamp = startTime + 10n + BigInt(i) * 10n;
+        const { deviation } = simulateTrade(await readPool(pool), quantity, true, timestamp);
+        deviations.push(deviation);
+
+        await time.setNextBlockTimestamp(timestamp);
+        await pool.write.trade([quantity, true, 0n, 96n], { account: alice.account, value: quantity });
+
+        const [event] = await pool.getEvents.TradeEvent();
+        expect(event.args.deviation).to.equal(fromFixedPoint(deviation));
+
+        const recorded = await pool.read.getTraderDeviation([alice.account.address]);
+        expect(recorded.deviation).to.equal(deviations.reduce((min, d) => (d < min ? d : min)));
+        expect(recorded.tradeCount).to.equal(BigInt(i + 1));
+        expect(recorded.lastUpdated).to.equal(timestamp);
+      }
+
+      expect(await pool.read.getAllTraders()).to.deep.equal([getAddress(alice.account.address)]);
+    });
+
+    it("picks the lowest deviation as the winner with the trade's proposal", async function () {
+      const { pool, startTime, alice, bob } = await loadFixture(deployPoolFixture);
+
+      await time.setNextBlockTimestamp(startTime + 10n);
+      await pool.write.trade([parseEther("0.1"), true, 3_600n, 144n], { account: alice.account, value: parseEther("0.1") });
+      await time.setNextBlockTimestamp(startTime + 20n);
+      await pool.write.trade([parseEther("0.0001"), true, 7_200n, 288n], { account: bob.account, value: parseEther("0.0001") });
+
+      const [winner] = await pool.read.getCurrentWinnerInfo();
+      const [, , , , , , , , , , currentWinner, proposedDelay, proposedCandleSize] = await pool.read.poolInfo();
+      const alices = await pool.read.getTraderDeviation([alice.account.address]);
+      const bobs = await pool.read.getTraderDeviation([bob.account.address]);
+      const expected = alices.deviation < bobs.deviation ? alice : bob;
+
+      expect(winner).to.equal(getAddress(expected.account.address));
+      expect(currentWinner).to.equal(winner);
+      expect([proposedDelay, proposedCandleSize]).to.deep.equal(expected === alice ? [3_600n, 144n] : [7_200n, 288n]);
+    });
+
+    it("breaks ties on the most recent lastUpdated, then the earlier trader", async function () {
+      const { pool, alice, bob } = await loadFixture(deployPoolFixture);
+      const deviation = toFixedPoint(100n);
+
+      await pool.write.exposedUpdateTraderDeviation([alice.account.address, deviation]);
+      await pool.write.exposedUpdateTraderDeviation([bob.account.address, deviation]);
+      expect((await pool.read.getCurrentWinnerInfo())[0]).to.equal(getAddress(bob.account.address));
+
+      await pool.write.exposedUpdateTraderDeviation([alice.account.address, deviation]);
+      expect((await pool.read.getCurrentWinnerInfo())[0]).to.equal(getAddress(alice.account.address));
+
+      // same deviation in the same block, the trader recorded first stays ahead
+      const [, , carol, dave] = await hre.viem.getWalletClients();
+      const fresh = await hre.viem.deployContract("TittyPoolHarness", [
+        alice.account.address,
+        2n,
+        96n,
+        toFixedPoint(1n),
+        zeroAddress,
+        0n,
+      ]);
+      await hre.network.provider.send("evm_setAutomine", [false]);
+      try {
+        await fresh.write.exposedUpdateTraderDeviation([carol.account.address, deviation]);
+        await fresh.write.exposedUpdateTraderDeviation([dave.account.address, deviation]);
+        await hre.network.provider.send("evm_mine");
+      } finally {
+        await hre.network.provider.send("evm_setAutomine", [true]);
+      }
+      expect((await fresh.read.getCurrentWinnerInfo())[0]).to.equal(getAddress(carol.account.address));
+    });
+  });
+
+  describe("Fees", function () {
+    async function deployTreasuryFixture() {
+      const fixture = await deployPoolFixture();
+      const treasury = await hre.viem.deployContract("TitsTreasury", [fixture.owner.account.address]);
+      await fixture.pool.write.setTreasury([treasury.address]);
+      return { ...fixture, treasury };
+    }
+
+    it("charges nothing until a treasury is set", async function () {
+      const { pool } = await loadFixture(deployPoolFixture);
+
+      expect(await pool.read.getTradeFee([10n ** 9n])).to.equal(0n);
+    });
+
+    it("charges 2x the trade gas at the transaction's gas price on both sides", async function () {
+      const { pool, treasury, startTime, alice, publicClient } = await loadFixture(deployTreasuryFixture);
+      const gasPrice = await publicClient.getGasPrice();
+      const fee = estimateTradeFee(gasPrice);
+      const buy = parseEther("0.01");
+      expect(await pool.read.getTradeFee([gasPrice])).to.equal(fee);
+
+      await time.setNextBlockTimestamp(startTime + 10n);
+      await pool.write.trade([buy, true, 0n, 96n], { account: alice.account, value: buy + fee, gasPrice });
+      expect(await publicClient.getBalance({ address: pool.address })).to.equal(buy);
+
+      expect(await treasury.read.totalFeesCollected()).to.equal(fee);
+
+      const token = await hre.viem.getContractAt("CryptoTitty", (await pool.read.poolInfo())[5]);
+      await token.write.approve([pool.address, 1_000n], { account: alice.account });
+      await pool.write.trade([1_000n, false, 0n, 96n], { account: alice.account, value: fee, gasPrice });
+
+      expect(await treasury.read.totalFeesCollected()).to.equal(2n * fee);
+      expect(await treasury.read.getBalance()).to.equal(2n * fee);
+      expect(await publicClient.getBalance({ address: treasury.address })).to.equal(2n * fee);
+    });
+
+    it("refunds what is paid over the fee on both sides", async function () {
+      const { pool, treasury, startTime, alice, publicClient } = await loadFixture(deployTreasuryFixture);
+      const gasPrice = await publicClient.getGasPrice();
+      const fee = estimateTradeFee(gasPrice);
+      const buy = parseEther("0.01");
+      const gasCost = async (hash: `0x${string}`) => {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        return receipt.gasUsed * receipt.effectiveGasPrice;
+      };
+
+      await time.setNextBlockTimestamp(startTime + 10n);
+      let balance = await publicClient.getBalance({ address: alice.account.address });
+      let hash = await pool.write.trade([buy, true, 0n, 96n], { account: alice.account, value: buy + 3n * fee, gasPrice });
+      expect(await publicClient.getBalance({ address: alice.account.address })).to.equal(balance - buy - fee - await gasCost(hash));
+      expect(await publicClient.getBalance({ address: pool.address })).to.equal(buy);
+
+      const token = await hre.viem.getContractAt("CryptoTitty", (await pool.read.poolInfo())[5]);
+      await token.write.approve([pool.address, 1_000n], { account: alice.account });
+      balance = await publicClient.getBalance({ address: alice.account.address });
+      hash = await pool.write.trade([1_000n, false, 0n, 96n], { account: alice.account, value: 2n * fee, gasPrice });
+      const paidOut = buy - await publicClient.getBalance({ address: pool.address });
+      expect(await publicClient.getBalance({ address: alice.account.address })).to.equal(balance + paidOut - fee - await gasCost(hash));
+      expect(await treasury.read.totalFeesCollected()).to.equal(2n * fee);
+    });
+
+    it("reverts a trade that does not cover the fee", async function () {
+      const { pool, startTime, alice, publicClient } = await loadFixture(deployTreasuryFixture);
+      const gasPrice = await publicClient.getGasPrice();
+      const buy = parseEther("0.01");
+      await time.increaseTo(startTime);
+
+      await expect(
+        pool.write.trade([buy, true, 0n, 96n], { account: alice.account, value: buy, gasPrice })
+      ).to.be.rejectedWith("Insufficient payment");
+      await expect(
+        pool.write.trade([1_000n, false, 0n, 96n], { account: alice.account, gasPrice })
+      ).to.be.rejectedWith("Insufficient fee");
+    });
+
+    it("only lets the owner set the treasury", async function () {
+      const { pool, alice } = await loadFixture(deployPoolFixture);
+
+      await expect(
+        pool.write.setTreasury([alice.account.address], { account: alice.account })
+      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Trading window", function () {
+    it("reverts before startTime and after endTime", async function () {
+      const { pool, startTime, alice } = await loadFixture(deployPoolFixture);
+      const quantity = parseEther("0.001");
+
+      await expect(
+        pool.write.trade([quantity, true, 0n, 96n], { account: alice.account, value: quantity })
+      ).to.be.rejectedWith("Pool not active");
+
+      await time.increaseTo(startTime + 24n * 3600n + 1n);
+      await expect(
+        pool.write.trade([quantity, true, 0n, 96n], { account: alice.account, value: quantity })
+      ).to.be.rejectedWith("Pool not active");
+    });
+
+    it("reverts on a delay over 12 hours or an unknown candle size", async function () {
+      const { pool, startTime, alice } = await loadFixture(deployPoolFixture);
+      const quantity = parseEther("0.001");
+      await time.increaseTo(startTime);
+
+      await expect(
+        pool.write.trade([quantity, true, 12n * 3600n + 1n, 96n], { account: alice.account, value: quantity })
+      ).to.be.rejectedWith("Delay too long");
+      await expect(
+        pool.write.trade([quantity, true, 0n, 100n], { account: alice.account, value: quantity })
+      ).to.be.rejectedWith("Invalid candle size");
+    });
+  });
+
+  describe("lockPool", function () {
+    it("burns the pool's tokens and stops trading", async function () {
+      const { pool, token, startTime, alice } = await loadFixture(deployPoolFixture);
+      const quantity = parseEther("0.01");
+
+      await time.setNextBlockTimestamp(startTime + 10n);
+      await pool.write.trade([quantity, true, 0n, 96n], { account: alice.account, value: quantity });
+      const traderBalance = await token.read.balanceOf([alice.account.address]);
+
+      await pool.write.lockPool(["test"]);
+
+      expect(await token.read.balanceOf([pool.address])).to.equal(0n);
+      expect(await token.read.totalSupply()).to.equal(traderBalance);
+      expect((await readPool(pool)).isLocked).to.equal(true);
+
+      const [event] = await pool.getEvents.PoolLocked();
+      expect(event.args).to.include({ poolId: 1n, reason: "test" });
+
+      await expect(
+        pool.write.trade([quantity, true, 0n, 96n], { account: alice.account, value: quantity })
+      ).to.be.rejectedWith("Pool is locked");
+      await expect(pool.write.lockPool(["again"])).to.be.rejectedWith("Pool already locked");
+    });
+
+    it("is owner only", async function () {
+      const { pool, alice } = await loadFixture(deployPoolFixture);
+
+      await expect(
+        pool.write.lockPool(["test"], { account: alice.account })
+      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("finalizeWinner", function () {
+    it("emits the winner and their proposal once the pool ended", async function () {
+      const { pool, startTime, alice } = await loadFixture(deployPoolFixture);
+      const quantity = parseEther("0.01");
+
+      await time.setNextBlockTimestamp(startTime + 10n);
+      await pool.write.trade([quantity, true, 600n, 288n], { account: alice.account, value: quantity });
+      await expect(pool.write.finalizeWinner()).to.be.rejectedWith("Pool not ended");
+
+      await time.increaseTo(startTime + 24n * 3600n + 1n);
+      await pool.write.finalizeWinner();
+
+      const [event] = await pool.getEvents.PoolWinnerFinalized();
+      const { deviation } = await pool.read.getTraderDeviation([alice.account.address]);
+      expect(event.args).to.include({
+        poolId: 1n,
+        winner: getAddress(alice.account.address),
+        finalDeviation: deviation,
+        nextPoolDelay: 600n,
+        nextPoolCandleSize: 288n,
+      });
+    });
+  });
+});
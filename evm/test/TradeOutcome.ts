@@ -0,0 +1,97 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther } from "viem";
+import { simulateTradeOutcome, toFixedPoint, type TraderDeviation } from "tits-core";
+
+describe("simulateTradeOutcome", function () {
+  async function deployPoolFixture() {
+    const [owner, alice, bob, carol] = await hre.viem.getWalletClients();
+    const startTime = BigInt(await time.latest()) + 60n;
+
+    const token = await hre.viem.deployContract("CryptoTitty", [
+      "Crypto Titty 1",
+      "T1",
+      0n,
+      1n,
+      owner.account.address,
+    ]);
+    const pool = await hre.viem.deployContract("TittyPool", [
+      owner.account.address,
+      1n,
+      96n,
+      toFixedPoint(1n),
+      token.address,
+      startTime,
+    ]);
+    await token.write.transferOwnership([pool.address]);
+
+    return { pool, token, startTime, traders: [alice, bob, carol] };
+  }
+
+  async function readTraders(pool: Awaited<ReturnType<typeof deployPoolFixture>>["pool"]) {
+    const addresses = await pool.read.getAllTraders();
+    return Promise.all(
+      addresses.map((trader) => pool.read.getTraderDeviation([trader]) as Promise<TraderDeviation>)
+    );
+  }
+
+  async function readReserves(pool: Awaited<ReturnType<typeof deployPoolFixture>>["pool"]) {
+    const [, lValue, hValue, xReserve, yReserve, , startTime] = await pool.read.poolInfo();
+    return { lValue, hValue, xReserve, yReserve, startTime };
+  }
+
+  it("predicts the recorded deviation, the winner and the threshold", async function () {
+    const { pool, token, startTime, traders } = await loadFixture(deployPoolFixture);
+    const [alice, bob, carol] = traders;
+
+    const steps = [
+      { wallet: alice, quantity: parseEther("0.01"), side: true, offset: 120n },
+      { wallet: bob, quantity: parseEther("0.5"), side: true, offset: 1_000n },
+      { wallet: carol, quantity: parseEther("0.001"), side: true, offset: 1_010n },
+      { wallet: alice, quantity: parseEther("100"), side: false, offset: 3_000n },
+      { wallet: bob, quantity: parseEther("0.01"), side: true, offset: 3_010n },
+    ];
+
+    for (const { wallet, quantity, side, offset } of steps) {
+      const trader = getAddress(wallet.account.address);
+      const timestamp = startTime + offset;
+
+      const outcome = simulateTradeOutcome(
+        await readReserves(pool),
+        await readTraders(pool),
+        trader,
+        quantity,
+        side,
+        timestamp
+      );
+
+      if (!side) {
+        await token.write.approve([pool.address, quantity], { account: wallet.account });
+      }
+      await time.setNextBlockTimestamp(timestamp);
+      await pool.write.trade([quantity, side, 3600n, 144n], {
+        account: wallet.account,
+        value: side ? quantity : 0n,
+      });
+
+      const after = await readTraders(pool);
+      const recorded = after.find((t) => t.trader === trader)!;
+      expect(recorded.deviation).to.equal(outcome.recordedDeviation);
+      expect(after).to.deep.equal(outcome.traders);
+
+      const [currentWinner] = await pool.read.getCurrentWinnerInfo();
+      expect(currentWinner === trader).to.equal(outcome.isWinner);
+
+      const { xReserve, yReserve } = await readReserves(pool);
+      expect({ xReserve, yReserve }).to.deep.equal({
+        xReserve: outcome.trade.xReserve,
+        yReserve: outcome.trade.yReserve,
+      });
+
+      const maxDeviation = after.reduce((max, t) => (t.deviation > max ? t.deviation : max), 0n);
+      expect(maxDeviation).to.equal(outcome.maxDeviation);
+      expect(outcome.exceedsThreshold).to.equal(maxDeviation > toFixedPoint(690n));
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, type Address } from "viem";
+
+import { discoverTargets, verifyTargets, type VerificationTarget, type Verifier } from "../scripts/lib/verification";
+
+describe("Verification", function () {
+  async function deploySystemFixture() {
+    const [deployer, owner] = await hre.viem.getWalletClients();
+    const ownerAddress = getAddress(owner.account.address);
+    const accounts = { owner: ownerAddress, deployer: getAddress(deployer.account.address) };
+
+    // the pool factory starts out with the deployer, as in TitsModule
+    const treasury = await hre.viem.deployContract("TitsTreasury", [ownerAddress]);
+    const factory = await hre.viem.deployContract("TittyPoolFactory", [accounts.deployer]);
+    const tokenFactory = await hre.viem.deployContract("CryptoTittyFactory", [ownerAddress]);
+    await factory.write.transferOwnership([ownerAddress]);
+    await factory.write.createPool([96n, 0n], { account: owner.account });
+    await factory.write.createPool([288n, 600n], { account: owner.account });
+
+    const contracts = { treasury: treasury.address, factory: factory.address, tokenFactory: tokenFactory.address };
+    return { contracts, factory, accounts };
+  }
+
+  function fakeVerifier(verified: Address[], failing: Address[] = []) {
+    const calls: VerificationTarget[] = [];
+    const verifier: Verifier = {
+      isVerified: async (address) => verified.includes(address),
+      verify: async (target) => {
+        calls.push(target);
+        if (failing.includes(target.address)) throw new Error("Bytecode does not match");
+      },
+    };
+    return { verifier, calls };
+  }
+
+  it("finds the roots and every pool and token the factory deployed", async function () {
+    const { contracts, accounts } = await loadFixture(deploySystemFixture);
+    const targets = await discoverTargets(contracts, accounts);
+
+    expect(targets.map((t) => [t.contract, t.poolId])).to.deep.equal([
+      ["TitsTreasury", null],
+      ["TittyPoolFactory", null],
+      ["CryptoTittyFactory", null],
+      ["CryptoTitty", 1n],
+      ["TittyPool", 1n],
+      ["CryptoTitty", 2n],
+      ["TittyPool", 2n],
+    ]);
+    expect(targets.slice(0, 3).map((t) => t.constructorArguments[0])).to.deep.equal([
+      accounts.owner, accounts.deployer, accounts.owner,
+    ]);
+  });
+
+  it("rebuilds the constructor arguments the factory passed", async function () {
+    const { contracts, factory, accounts } = await loadFixture(deploySystemFixture);
+    const targets = await discoverTargets(contracts, accounts);
+
+    for (const poolId of [1n, 2n]) {
+      const pool = await hre.viem.getContractAt("TittyPool", await factory.read.getPoolByPoolId([poolId]));
+      const [id, lValue, hValue, , , tokenAddress, startTime] = await pool.read.poolInfo();
+      const token = await hre.viem.getContractAt("CryptoTitty", tokenAddress);
+
+      const poolTarget = targets.find((t) => t.contract === "TittyPool" && t.poolId === poolId)!;
+      expect(poolTarget.address).to.equal(pool.address);
+      expect(poolTarget.constructorArguments).to.deep.equal([
+        getAddress(factory.address), id, lValue, hValue, tokenAddress, startTime,
+      ]);
+
+      const tokenTarget = targets.find((t) => t.contract === "CryptoTitty" && t.poolId === poolId)!;
+      const [name, symbol, , tokenPoolId, creator] = tokenTarget.constructorArguments;
+      expect(tokenTarget.address).to.equal(tokenAddress);
+      expect([name, symbol, tokenPoolId]).to.deep.equal([
+        await token.read.name(), await token.read.symbol(), await token.read.poolId(),
+      ]);
+      expect(creator).to.equal(getAddress(factory.address));
+    }
+  });
+
+  it("rejects a scan that starts after the first pool", async function () {
+    const { contracts, accounts } = await loadFixture(deploySystemFixture);
+    const latest = await (await hre.viem.getPublicClient()).getBlockNumber();
+
+    await expect(discoverTargets(contracts, accounts, latest)).to.be.rejectedWith("Found 1 PoolCreated events for 2 pools");
+  });
+
+  it("skips verified contracts and reports failures without stopping", async function () {
+    const { contracts, accounts } = await loadFixture(deploySystemFixture);
+    const targets = await discoverTargets(contracts, accounts);
+    const [treasury, , , token1, pool1] = targets;
+
+    const { verifier, calls } = fakeVerifier([treasury.address], [token1.address]);
+    const results = await verifyTargets(targets, verifier, () => {});
+
+    expect(results.map((r) => r.status)).to.deep.equal([
+      "alreadyVerified",
+      "verified",
+      "verified",
+      "failed",
+      "verified",
+      "verified",
+      "verified",
+    ]);
+    expect(results[3].error).to.equal("Bytecode does not match");
+    expect(calls.map((t) => t.address)).to.not.include(treasury.address);
+    expect(calls.map((t) => t.address)).to.include(pool1.address);
+
+    // a rerun only retries what is still unverified
+    const rerun = fakeVerifier(targets.filter((t) => t !== token1).map((t) => t.address));
+    await verifyTargets(targets, rerun.verifier, () => {});
+    expect(rerun.calls).to.deep.equal([token1]);
+  });
+});
@@ -0,0 +1,134 @@
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { deserializeModule, toModuleAbi } from './bytecode.js';
+
+// Module ABIs as the Supra RPC serves them, /rpc/v1/accounts/{address}/modules/{name} returns { bytecode, abi }
+
+export interface MoveFunctionAbi {
+  name: string;
+  visibility: 'public' | 'friend' | 'private';
+  is_entry: boolean;
+  is_view: boolean;
+  generic_type_params: { constraints: string[] }[];
+  params: string[];
+  return: string[];
+}
+
+export interface MoveStructAbi {
+  name: string;
+  is_native: boolean;
+  abilities: string[];
+  generic_type_params: { constraints: string[] }[];
+  fields: { name: string; type: string }[];
+}
+
+export interface MoveModuleAbi {
+  address: string;
+  name: string;
+  friends: string[];
+  exposed_functions: MoveFunctionAbi[];
+  structs: MoveStructAbi[];
+}
+
+export type MoveType =
+  | { kind: 'u8' | 'u16' | 'u32' | 'u64' | 'u128' | 'u256' | 'bool' | 'address' | 'signer' }
+  | { kind: 'vector'; item: MoveType }
+  | { kind: 'struct'; address: string; module: string; name: string; typeArgs: MoveType[] }
+  | { kind: 'generic'; index: number }
+  | { kind: 'reference'; mutable: boolean; to: MoveType };
+
+const PRIMITIVES = new Set(['u8', 'u16', 'u32', 'u64', 'u128', 'u256', 'bool', 'address', 'signer']);
+
+// 0x0001 and 0x1 are the same account
+export function normalizeAddress(address: string): string {
+  return `0x${address.replace(/^0x/, '').replace(/^0+(?=.)/, '').toLowerCase()}`;
+}
+
+/** Parses an ABI type string, e.g. `&signer`, `vector<u64>` or `0x1::option::Option<0x1::string::String>` */
+export function parseMoveType(text: string): MoveType {
+  const source = text.replace(/\s+/g, '');
+  let position = 0;
+
+  const fail = (): never => {
+    throw new Error(`Invalid Move type "${text}"`);
+  };
+
+  const parse = (): MoveType => {
+    if (source.startsWith('&mut', position)) {
+      position += 4;
+      return { kind: 'reference', mutable: true, to: parse() };
+    }
+    if (source[position] === '&') {
+      position += 1;
+      return { kind: 'reference', mutable: false, to: parse() };
+    }
+
+    const match = /^(?:0x[0-9a-fA-F]+::\w+::\w+|\w+)/.exec(source.slice(position)) ?? fail();
+    const word = match[0];
+    position += word.length;
+
+    const typeArgs: MoveType[] = [];
+    if (source[position] === '<') {
+      do {
+        position += 1;
+        typeArgs.push(parse());
+      } while (source[position] === ',');
+      if (source[position] !== '>') fail();
+      position += 1;
+    }
+
+    if (word === 'vector') {
+      if (typeArgs.length !== 1) fail();
+      return { kind: 'vector', item: typeArgs[0] };
+    }
+    if (PRIMITIVES.has(word)) {
+      if (typeArgs.length) fail();
+      return { kind: word } as MoveType;
+    }
+    if (/^T\d+$/.test(word)) return { kind: 'generic', index: Number(word.slice(1)) };
+
+    const [address, module, name] = word.split('::');
+    if (!name) fail();
+    return { kind: 'struct', address: normalizeAddress(address), module, name, typeArgs };
+  };
+
+  const type = parse();
+  if (position !== source.length) fail();
+  return type;
+}
+
+export function isStruct(type: MoveType, address: string, module: string, name: string): boolean {
+  return type.kind === 'struct' && type.address === address && type.module === module && type.name === name;
+}
+
+function isModuleAbi(value: unknown): value is MoveModuleAbi {
+  const abi = value as MoveModuleAbi;
+  return typeof abi?.address === 'string' && typeof abi.name === 'string' && Array.isArray(abi.exposed_functions);
+}
+
+/** Accepts a module ABI, an RPC module response ({ bytecode, abi }) or a list of either */
+export function parseModuleAbis(json: unknown): MoveModuleAbi[] {
+  const entries = Array.isArray(json) ? json : [json];
+  return entries.map((entry, i) => {
+    const abi = isModuleAbi(entry) ? entry : (entry as { abi?: unknown })?.abi;
+    if (!isModuleAbi(abi)) throw new Error(`Entry ${i} is not a Move module ABI, expected { address, name, exposed_functions }`);
+    return { ...abi, friends: abi.friends ?? [], structs: abi.structs ?? [] };
+  });
+}
+
+/** Reads ABIs from ABI JSON or compiled .mv files, or from every such file under a directory except `dependencies` */
+export function loadModuleAbis(path: string): MoveModuleAbi[] {
+  if (!statSync(path).isDirectory()) {
+    if (path.endsWith('.mv')) return [toModuleAbi(deserializeModule(readFileSync(path)))];
+    return parseModuleAbis(JSON.parse(readFileSync(path, 'utf8')));
+  }
+  return readdirSync(path, { withFileTypes: true })
+    .filter((entry) => entry.name !== 'dependencies')
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry) => {
+      const child = join(path, entry.name);
+      if (entry.isDirectory()) return loadModuleAbis(child);
+      return /\.(json|mv)$/.test(entry.name) ? loadModuleAbis(child) : [];
+    });
+}
@@ -0,0 +1,400 @@
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+
+import type { MoveModuleAbi } from './abi.js';
+import type { Ability } from './move.js';
+
+// Reads compiled modules (.mv) in the Move binary format, enough to list what a module exposes.
+// Function bodies are walked over, never interpreted.
+
+export interface CompiledTypeParam {
+  constraints: Ability[];
+  isPhantom: boolean;
+}
+
+export interface CompiledStruct {
+  name: string;
+  abilities: Ability[];
+  typeParams: CompiledTypeParam[];
+  fields: { name: string; type: string }[] | null; // null for native structs
+  attributes: string[]; // e.g. ['event']
+}
+
+export interface CompiledFunction {
+  name: string;
+  visibility: 'public' | 'friend' | 'private';
+  isEntry: boolean;
+  isView: boolean;
+  isNative: boolean;
+  typeParams: Ability[][];
+  params: string[];
+  returns: string[];
+  acquires: string[];
+}
+
+export interface CompiledModule {
+  version: number;
+  address: string;
+  name: string;
+  friends: string[]; // address::module
+  structs: CompiledStruct[];
+  functions: CompiledFunction[];
+}
+
+const MAGIC = [0xa1, 0x1c, 0xeb, 0x0b];
+const MIN_VERSION = 5;
+const MAX_VERSION = 6;
+const ADDRESS_LENGTH = 32;
+
+const Table = {
+  ModuleHandles: 0x1,
+  StructHandles: 0x2,
+  FunctionHandles: 0x3,
+  Signatures: 0x5,
+  Identifiers: 0x7,
+  AddressIdentifiers: 0x8,
+  StructDefs: 0xa,
+  FunctionDefs: 0xc,
+  FriendDecls: 0xf,
+  Metadata: 0x10,
+} as const;
+
+const ABILITIES: [number, Ability][] = [[0x1, 'copy'], [0x2, 'drop'], [0x4, 'store'], [0x8, 'key']];
+
+// attributes the compiler keeps in the aptos::metadata_v1 entry, by KnownAttribute kind
+const ATTRIBUTES: Record<number, string> = { 1: 'view', 2: 'resource_group', 3: 'resource_group_member', 4: 'event', 5: 'randomness' };
+
+const VISIBILITY: Record<number, CompiledFunction['visibility']> = { 0: 'private', 1: 'public', 3: 'friend' };
+const NATIVE_FUNCTION = 0x2;
+const ENTRY_FUNCTION = 0x4;
+
+class Cursor {
+  constructor(private readonly bytes: Uint8Array, public position = 0, private readonly end = bytes.length) {}
+
+  get done(): boolean {
+    return this.position >= this.end;
+  }
+
+  u8(): number {
+    if (this.position >= this.end) throw new Error(`Unexpected end of bytecode at byte ${this.position}`);
+    return this.bytes[this.position++];
+  }
+
+  uleb(): number {
+    let value = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      const byte = this.u8();
+      value += (byte & 0x7f) * 2 ** shift;
+      if (!(byte & 0x80)) return value;
+    }
+    throw new Error(`ULEB128 overflow at byte ${this.position}`);
+  }
+
+  take(length: number): Uint8Array {
+    if (this.position + length > this.end) throw new Error(`Unexpected end of bytecode at byte ${this.position}`);
+    const slice = this.bytes.subarray(this.position, this.position + length);
+    this.position += length;
+    return slice;
+  }
+
+  skip(length: number): void {
+    this.take(length);
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.take(this.uleb()));
+  }
+}
+
+function abilities(set: number): Ability[] {
+  return ABILITIES.filter(([bit]) => set & bit).map(([, ability]) => ability);
+}
+
+// bytes each operand takes after the opcode: 'u' a ULEB128 index, a number that many fixed bytes
+const OPERANDS: Record<number, (number | 'u')[]> = {};
+const define = (operands: (number | 'u')[], ...opcodes: number[]) => opcodes.forEach((op) => (OPERANDS[op] = operands));
+define([], 0x01, 0x02, 0x08, 0x09, 0x14, 0x15, ...range(0x16, 0x28), 0x2e, 0x2f, 0x30, 0x33, 0x34, 0x35, 0x4b, 0x4c, 0x4d);
+define(['u'], 0x03, 0x04, 0x05, 0x07, 0x0f, 0x10, 0x11, 0x12, 0x13, ...range(0x29, 0x2d), ...range(0x36, 0x3f), ...range(0x41, 0x45), 0x47);
+define([1], 0x0a, 0x0b, 0x0c, 0x0d, 0x0e, 0x31);
+define([2], 0x48);
+define([4], 0x49);
+define([8], 0x06);
+define([16], 0x32);
+define([32], 0x4a);
+define(['u', 8], 0x40, 0x46); // VecPack, VecUnpack
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+function skipCode(cursor: Cursor): void {
+  const count = cursor.uleb();
+  for (let i = 0; i < count; i++) {
+    const opcode = cursor.u8();
+    const operands = OPERANDS[opcode];
+    if (!operands) throw new Error(`Unknown opcode 0x${opcode.toString(16)} at byte ${cursor.position - 1}`);
+    for (const operand of operands) {
+      if (operand === 'u') cursor.uleb();
+      else cursor.skip(operand);
+    }
+  }
+}
+
+/** Deserializes a compiled module, throws on anything that is not a module of a supported version */
+export function deserializeModule(bytes: Uint8Array): CompiledModule {
+  const cursor = new Cursor(bytes);
+  if (!MAGIC.every((byte) => cursor.u8() === byte)) throw new Error('Not a Move bytecode file, bad magic');
+  const version = [0, 1, 2, 3].reduce((sum, i) => sum + cursor.u8() * 2 ** (8 * i), 0);
+  if (version < MIN_VERSION || version > MAX_VERSION) {
+    throw new Error(`Unsupported bytecode version ${version}, expected ${MIN_VERSION} to ${MAX_VERSION}`);
+  }
+
+  const tables = new Map<number, { offset: number; length: number }>();
+  const tableCount = cursor.uleb();
+  for (let i = 0; i < tableCount; i++) {
+    tables.set(cursor.u8(), { offset: cursor.uleb(), length: cursor.uleb() });
+  }
+  const contentStart = cursor.position;
+
+  // reads every entry of a table, each read has to consume exactly the table's bytes
+  const readTable = <T>(kind: number, read: (cursor: Cursor) => T): T[] => {
+    const table = tables.get(kind);
+    if (!table) return [];
+    const start = contentStart + table.offset;
+    if (start + table.length > bytes.length) throw new Error(`Unexpected end of bytecode in table 0x${kind.toString(16)}`);
+    const tableCursor = new Cursor(bytes, start, start + table.length);
+    const entries: T[] = [];
+    while (!tableCursor.done) entries.push(read(tableCursor));
+    if (tableCursor.position !== start + table.length) throw new Error(`Table 0x${kind.toString(16)} overruns its length`);
+    return entries;
+  };
+
+  const fail = (what: string): never => {
+    throw new Error(`Bytecode refers to a missing ${what}`);
+  };
+
+  const identifiers = readTable(Table.Identifiers, (c) => c.string());
+  // short form, as the RPC writes them: 0x1::string::String
+  const addresses = readTable(Table.AddressIdentifiers, (c) => (
+    `0x${Array.from(c.take(ADDRESS_LENGTH), (byte) => byte.toString(16).padStart(2, '0')).join('').replace(/^0+(?=.)/, '')}`
+  ));
+  const identifier = (index: number) => identifiers[index] ?? fail(`identifier ${index}`);
+
+  const moduleHandles = readTable(Table.ModuleHandles, (c) => ({ address: c.uleb(), name: c.uleb() }));
+  const moduleName = (index: number) => {
+    const handle = moduleHandles[index] ?? fail(`module handle ${index}`);
+    return `${addresses[handle.address] ?? fail(`address ${handle.address}`)}::${identifier(handle.name)}`;
+  };
+
+  const structHandles = readTable(Table.StructHandles, (c) => ({
+    module: c.uleb(),
+    name: c.uleb(),
+    abilities: abilities(c.uleb()),
+    typeParams: Array.from({ length: c.uleb() }, () => ({ constraints: abilities(c.uleb()), isPhantom: c.u8() !== 0 })),
+  }));
+
+  const readType = (c: Cursor): string => {
+    const tag = c.u8();
+    switch (tag) {
+      case 0x1: return 'bool';
+      case 0x2: return 'u8';
+      case 0x3: return 'u64';
+      case 0x4: return 'u128';
+      case 0x5: return 'address';
+      case 0x6: return `&${readType(c)}`;
+      case 0x7: return `&mut ${readType(c)}`;
+      case 0x8: case 0xb: {
+        const handle = structHandles[c.uleb()] ?? fail('struct handle');
+        const typeArgs = tag === 0xb ? Array.from({ length: c.uleb() }, () => readType(c)) : [];
+        return `${moduleName(handle.module)}::${identifier(handle.name)}${typeArgs.length ? `<${typeArgs.join(', ')}>` : ''}`;
+      }
+      case 0x9: return `T${c.uleb()}`;
+      case 0xa: return `vector<${readType(c)}>`;
+      case 0xc: return 'signer';
+      case 0xd: return 'u16';
+      case 0xe: return 'u32';
+      case 0xf: return 'u256';
+      default: throw new Error(`Unknown type tag 0x${tag.toString(16)} at byte ${c.position - 1}`);
+    }
+  };
+
+  const signatures = readTable(Table.Signatures, (c) => Array.from({ length: c.uleb() }, () => readType(c)));
+  const signature = (index: number) => signatures[index] ?? fail(`signature ${index}`);
+
+  const functionHandles = readTable(Table.FunctionHandles, (c) => ({
+    module: c.uleb(),
+    name: c.uleb(),
+    params: c.uleb(),
+    returns: c.uleb(),
+    typeParams: Array.from({ length: c.uleb() }, () => abilities(c.uleb())),
+  }));
+
+  const structDefs = readTable(Table.StructDefs, (c) => {
+    const handle = structHandles[c.uleb()] ?? fail('struct handle');
+    const kind = c.u8();
+    if (kind !== 0x1 && kind !== 0x2) throw new Error(`Unknown struct field information 0x${kind.toString(16)}`);
+    const fields = kind === 0x1 ? null : Array.from({ length: c.uleb() }, () => ({ name: identifier(c.uleb()), type: readType(c) }));
+    return { handle, fields };
+  });
+
+  const functionDefs = readTable(Table.FunctionDefs, (c) => {
+    const handle = functionHandles[c.uleb()] ?? fail('function handle');
+    const visibility = VISIBILITY[c.u8()] ?? fail('visibility');
+    const flags = c.u8();
+    const acquires = Array.from({ length: c.uleb() }, () => c.uleb());
+    if (!(flags & NATIVE_FUNCTION)) {
+      c.uleb(); // locals signature
+      skipCode(c);
+    }
+    return { handle, visibility, flags, acquires };
+  });
+
+  const friends = readTable(Table.FriendDecls, (c) => `${addresses[c.uleb()] ?? fail('address')}::${identifier(c.uleb())}`);
+
+  const metadata = readTable(Table.Metadata, (c) => ({ key: c.string(), value: c.take(c.uleb()) }));
+  const attributes = readAttributes(metadata);
+
+  const contentEnd = Math.max(contentStart, ...[...tables.values()].map((table) => contentStart + table.offset + table.length));
+  const self = moduleHandles[new Cursor(bytes, contentEnd).uleb()] ?? fail('self module handle');
+
+  return {
+    version,
+    address: addresses[self.address] ?? fail('address'),
+    name: identifier(self.name),
+    friends,
+    structs: structDefs.map(({ handle, fields }) => ({
+      name: identifier(handle.name),
+      abilities: handle.abilities,
+      typeParams: handle.typeParams,
+      fields,
+      attributes: attributes.structs.get(identifier(handle.name)) ?? [],
+    })),
+    functions: functionDefs.map(({ handle, visibility, flags, acquires }) => {
+      const name = identifier(handle.name);
+      return {
+        name,
+        visibility,
+        isEntry: (flags & ENTRY_FUNCTION) !== 0,
+        isView: attributes.functions.get(name)?.includes('view') ?? false,
+        isNative: (flags & NATIVE_FUNCTION) !== 0,
+        typeParams: handle.typeParams,
+        params: signature(handle.params),
+        returns: signature(handle.returns),
+        acquires: acquires.map((index) => identifier(structDefs[index]?.handle.name ?? fail(`struct definition ${index}`))),
+      };
+    }),
+  };
+}
+
+/** Deserializes a .mv file, or every .mv under a directory except `dependencies` */
+export function loadCompiledModules(path: string): CompiledModule[] {
+  if (!statSync(path).isDirectory()) return [deserializeModule(readFileSync(path))];
+  return readdirSync(path, { withFileTypes: true })
+    .filter((entry) => entry.name !== 'dependencies')
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry) => {
+      const child = join(path, entry.name);
+      if (entry.isDirectory()) return loadCompiledModules(child);
+      return entry.name.endsWith('.mv') ? loadCompiledModules(child) : [];
+    });
+}
+
+// RuntimeModuleMetadataV1: error map, then struct and function attributes, all BCS
+function readAttributes(metadata: { key: string; value: Uint8Array }[]) {
+  const structs = new Map<string, string[]>();
+  const functions = new Map<string, string[]>();
+  const entry = metadata.find(({ key }) => key === 'aptos::metadata_v1');
+  if (!entry) return { structs, functions };
+
+  const cursor = new Cursor(entry.value);
+  const readMap = (target: Map<string, string[]>) => {
+    const count = cursor.uleb();
+    for (let i = 0; i < count; i++) {
+      const name = cursor.string();
+      const known = Array.from({ length: cursor.uleb() }, () => {
+        const kind = cursor.u8();
+        Array.from({ length: cursor.uleb() }, () => cursor.string()); // attribute arguments
+        return ATTRIBUTES[kind];
+      });
+      target.set(name, known.filter(Boolean));
+    }
+  };
+
+  const errors = cursor.uleb();
+  for (let i = 0; i < errors; i++) {
+    cursor.skip(8); // abort code
+    cursor.string(); // code name
+    cursor.string(); // description
+  }
+  readMap(structs);
+  readMap(functions);
+  return { structs, functions };
+}
+
+function typeParamList(params: CompiledTypeParam[]): string {
+  if (!params.length) return '';
+  return `<${params.map(({ constraints, isPhantom }, i) => `${isPhantom ? 'phantom ' : ''}T${i}${constraints.length ? `: ${constraints.join(' + ')}` : ''}`).join(', ')}>`;
+}
+
+/** The module's interface in Move syntax: friends, structs, and the functions callable from outside */
+export function printInterface(module: CompiledModule): string {
+  const sections: string[][] = [module.friends.map((friend) => `friend ${friend};`)];
+
+  for (const struct of module.structs) {
+    const abilities = struct.abilities.length ? ` has ${struct.abilities.join(', ')}` : '';
+    const header = `${struct.fields ? '' : 'native '}struct ${struct.name}${typeParamList(struct.typeParams)}${abilities}`;
+    sections.push([
+      ...struct.attributes.map((attribute) => `#[${attribute}]`),
+      ...(struct.fields ? [`${header} {`, ...struct.fields.map((field) => `    ${field.name}: ${field.type},`), '}'] : [`${header};`]),
+    ]);
+  }
+
+  for (const fn of module.functions.filter((fn) => fn.visibility !== 'private' || fn.isEntry)) {
+    const modifiers = [
+      fn.isNative ? 'native' : undefined,
+      fn.visibility === 'private' ? undefined : fn.visibility === 'friend' ? 'public(friend)' : 'public',
+      fn.isEntry ? 'entry' : undefined,
+      'fun',
+    ].filter(Boolean).join(' ');
+    const params = fn.params.map((type, i) => `arg${i}: ${type}`).join(', ');
+    const returns = !fn.returns.length ? '' : fn.returns.length === 1 ? `: ${fn.returns[0]}` : `: (${fn.returns.join(', ')})`;
+    const acquires = fn.acquires.length ? ` acquires ${fn.acquires.join(', ')}` : '';
+    sections.push([
+      ...(fn.isView ? ['#[view]'] : []),
+      `${modifiers} ${fn.name}${typeParamList(fn.typeParams.map((constraints) => ({ constraints, isPhantom: false })))}(${params})${returns}${acquires};`,
+    ]);
+  }
+
+  const body = sections
+    .filter((section) => section.length)
+    .map((section) => section.map((line) => `    ${line}`).join('\n'))
+    .join('\n\n');
+  return `module ${module.address}::${module.name} {\n${body}\n}\n`;
+}
+
+/** The ABI the RPC would serve for the module: public and friend functions plus every entry function */
+export function toModuleAbi(module: CompiledModule): MoveModuleAbi {
+  return {
+    address: module.address,
+    name: module.name,
+    friends: module.friends,
+    exposed_functions: module.functions
+      .filter((fn) => fn.visibility !== 'private' || fn.isEntry)
+      .map((fn) => ({
+        name: fn.name,
+        visibility: fn.visibility,
+        is_entry: fn.isEntry,
+        is_view: fn.isView,
+        generic_type_params: fn.typeParams.map((constraints) => ({ constraints })),
+        params: fn.params,
+        return: fn.returns,
+      })),
+    structs: module.structs.map((struct) => ({
+      name: struct.name,
+      is_native: struct.fields === null,
+      abilities: struct.abilities,
+      generic_type_params: struct.typeParams.map(({ constraints }) => ({ constraints })),
+      fields: struct.fields ?? [],
+    })),
+  };
+}
@@ -1,5 +1,7 @@
 #!/usr/bin/env node
 
+import { fileURLToPath } from 'node:url';
+
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
@@ -7,156 +9,28 @@ import {
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
+import { loadModuleAbis, parseModuleAbis } from './abi.js';
+import { deserializeModule, loadCompiledModules, printInterface } from './bytecode.js';
+import { printModule } from './move.js';
+import { buildMoveContract } from './moveContract.js';
+import { generateSdkWrappers } from './sdkWrappers.js';
+import { TemplateRegistry } from './templates.js';
+import { generateTitsModules, resolveTitsParams, type TitsModuleParams } from './tits.js';
+
+// Next to src/ and build/, read on every call so new templates show up without a restart
+const TEMPLATES_DIR = fileURLToPath(new URL('../templates', import.meta.url));
+
 class SupraCodeGenerator {
   private server: Server;
-  private nftTemplate: string;
 
   constructor() {
 this.server = new Server({
   name: 'supra-code-generator', 
   version: '1.0.0'
 });
-    this.nftTemplate = this.getNFTTemplate();
     this.setupHandlers();
   }
 
-  private getNFTTemplate(): string {
-    return `module mint_addr::nft_marketplace {
-    use std::error;
-    use std::signer;
-    use std::string::{Self, String};
-    use std::vector;
-    use supra_framework::account;
-    use supra_framework::event;
-    use supra_framework::timestamp;
-    use supra_framework::coin::{Self, Coin};
-    use supra_framework::supra_coin::SupraCoin;
-    use aptos_token::token::{Self, TokenDataId, TokenId};
-
-    #[event]
-    struct TokenListed has drop, store {
-        seller: address,
-        token_id: TokenId,
-        price: u64,
-        timestamp: u64,
-    }
-
-    #[event]
-    struct TokenSold has drop, store {
-        seller: address,
-        buyer: address,
-        token_id: TokenId,
-        price: u64,
-        timestamp: u64,
-    }
-
-    struct Listing has key {
-        token_id: TokenId,
-        seller: address,
-        price: u64,
-        is_active: bool,
-    }
-
-    struct Marketplace has key {
-        fee_percentage: u64,
-        admin: address,
-        total_sales: u64,
-    }
-
-    const ENOT_AUTHORIZED: u64 = 1;
-    const ELISTING_NOT_FOUND: u64 = 2;
-    const ELISTING_NOT_ACTIVE: u64 = 3;
-    const EINSUFFICIENT_FUNDS: u64 = 4;
-    const EINVALID_PRICE: u64 = 5;
-
-    fun init_module(admin: &signer) {
-        move_to(admin, Marketplace {
-            fee_percentage: 250, // 2.5%
-            admin: signer::address_of(admin),
-            total_sales: 0,
-        });
-    }
-
-    public entry fun list_token(
-        seller: &signer,
-        creator: address,
-        collection: String,
-        name: String,
-        property_version: u64,
-        price: u64,
-    ) acquires Marketplace {
-        assert!(price > 0, error::invalid_argument(EINVALID_PRICE));
-        
-        let token_id = token::create_token_id_raw(creator, collection, name, property_version);
-        let seller_addr = signer::address_of(seller);
-        
-        // Transfer token to marketplace
-        let token = token::withdraw_token(seller, token_id, 1);
-        move_to(seller, Listing {
-            token_id,
-            seller: seller_addr,
-            price,
-            is_active: true,
-        });
-        
-        token::deposit_token(seller, token);
-        
-        event::emit(TokenListed {
-            seller: seller_addr,
-            token_id,
-            price,
-            timestamp: timestamp::now_seconds(),
-        });
-    }
-
-    public entry fun buy_token(
-        buyer: &signer,
-        seller: address,
-    ) acquires Listing, Marketplace {
-        let listing = borrow_global_mut<Listing>(seller);
-        assert!(listing.is_active, error::invalid_state(ELISTING_NOT_ACTIVE));
-        
-        let marketplace = borrow_global_mut<Marketplace>(@mint_addr);
-        let buyer_addr = signer::address_of(buyer);
-        
-        // Calculate fees
-        let fee = (listing.price * marketplace.fee_percentage) / 10000;
-        let seller_amount = listing.price - fee;
-        
-        // Transfer payment
-        let payment = coin::withdraw<SupraCoin>(buyer, listing.price);
-        let fee_coin = coin::extract(&mut payment, fee);
-        
-        coin::deposit(seller, payment);
-        coin::deposit(marketplace.admin, fee_coin);
-        
-        // Transfer token
-        let token = token::withdraw_token_with_capability(
-            &listing_cap, listing.token_id, 1
-        );
-        token::deposit_token(buyer, token);
-        
-        // Update listing
-        listing.is_active = false;
-        marketplace.total_sales = marketplace.total_sales + 1;
-        
-        event::emit(TokenSold {
-            seller,
-            buyer: buyer_addr,
-            token_id: listing.token_id,
-            price: listing.price,
-            timestamp: timestamp::now_seconds(),
-        });
-    }
-
-    #[view]
-    public fun get_listing(seller: address): (TokenId, u64, bool) acquires Listing {
-        let listing = borrow_global<Listing>(seller);
-        (listing.token_id, listing.price, listing.is_active)
-    }
-}`;
-  }
-
   private setupHandlers(): void {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
@@ -183,6 +57,102 @@ this.server = new Server({
             },
             required: ['type', 'description']
           }
+        },
+        {
+          name: 'generate_tits_modules',
+          description: 'Generate the tits.fun Move package for Supra: token_factory, pool_pair, curve_launcher, tits_treasury, math, shared config and errors, and the liquidator/launcher automations',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              address: {
+                type: 'string',
+                description: 'Named address the package is published under (default tits_fun)'
+              },
+              candleSizes: {
+                type: 'array',
+                items: { type: 'number' },
+                description: 'Valid L values, candles per 24h (default [96, 144, 288])'
+              },
+              deviationThreshold: {
+                type: 'number',
+                description: 'Basis points over which the liquidator locks a pool (default 690)'
+              },
+              initialSupply: {
+                type: 'string',
+                description: 'Pool token liquidity in base units, 6 decimals (default 1000000000000)'
+              },
+              maxDelay: {
+                type: 'number',
+                description: 'Seconds a winner may delay the next pool (default 43200)'
+              }
+            }
+          }
+        },
+        {
+          name: 'generate_sdk_wrappers',
+          description: 'Generate typed supra-l1-sdk wrappers, with tests against a mocked client, for every entry and view function of compiled Move modules',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              abiPath: {
+                type: 'string',
+                description: 'ABI JSON or compiled .mv file, or a directory searched for both (e.g. a package build/ folder)'
+              },
+              abi: {
+                type: 'string',
+                description: 'ABI JSON: a module ABI, the RPC module response ({ bytecode, abi }) or a list of either'
+              }
+            }
+          }
+        },
+        {
+          name: 'inspect_move_bytecode',
+          description: 'List what compiled Move modules (.mv) expose: address, name, friends, structs with abilities and fields, and public, entry and view function signatures',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: '.mv file, or a directory searched for them (e.g. build/<package>/bytecode_modules), dependencies are skipped'
+              },
+              bytecode: {
+                type: 'string',
+                description: 'Hex of a single module, e.g. the bytecode field of the RPC module response'
+              }
+            }
+          }
+        },
+        {
+          name: 'list_templates',
+          description: 'List the Move and TypeScript templates in supra-code-gen/templates with their parameters',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              features: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only templates using all of these features, e.g. ["payments"]'
+              }
+            }
+          }
+        },
+        {
+          name: 'render_template',
+          description: 'Render a template, parameters are checked against its schema and missing ones take their defaults',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Template name from list_templates'
+              },
+              parameters: {
+                type: 'object',
+                description: 'Parameter values, e.g. { "fee_bps": 300 }'
+              }
+            },
+            required: ['name']
+          }
         }
       ]
     }));
@@ -191,6 +161,21 @@ this.server = new Server({
       if (request.params.name === 'generate_supra_code') {
         return this.generateCode(request.params.arguments as any);
       }
+      if (request.params.name === 'generate_tits_modules') {
+        return this.generateTitsCode(request.params.arguments as Partial<TitsModuleParams>);
+      }
+      if (request.params.name === 'generate_sdk_wrappers') {
+        return this.generateSdkWrapperCode(request.params.arguments as { abiPath?: string; abi?: string });
+      }
+      if (request.params.name === 'inspect_move_bytecode') {
+        return this.inspectBytecode(request.params.arguments as { path?: string; bytecode?: string });
+      }
+      if (request.params.name === 'list_templates') {
+        return this.listTemplates(request.params.arguments as { features?: string[] });
+      }
+      if (request.params.name === 'render_template') {
+        return this.renderTemplate(request.params.arguments as { name: string; parameters?: Record<string, unknown> });
+      }
       throw new Error(`Unknown tool: ${request.params.name}`);
     });
   }
@@ -206,110 +191,9 @@ this.server = new Server({
   }
 
   private generateMoveCode(description: string, features: string[]): any {
-    const moduleName = this.extractModuleName(description);
-    const hasVRF = features.includes('vrf');
-    const hasAutomation = features.includes('automation');
-    const hasPayments = features.includes('payments');
-    const hasEvents = features.includes('events');
-
-    let imports = `    use std::error;
-    use std::signer;
-    use std::string::{Self, String};
-    use std::vector;
-    use supra_framework::account;
-    use supra_framework::timestamp;`;
-
-    if (hasEvents) imports += `\n    use supra_framework::event;`;
-    if (hasPayments) imports += `\n    use supra_framework::coin::{Self, Coin};\n    use supra_framework::supra_coin::SupraCoin;`;
-    if (hasVRF) imports += `\n    use supra_addr::supra_vrf;`;
-
-    let structs = `    struct AppData has key {
-        owner: address,
-        is_active: bool,
-        created_at: u64,
-    }`;
-
-    if (hasEvents) {
-      structs += `\n\n    #[event]
-    struct AppEvent has drop, store {
-        user: address,
-        action: String,
-        timestamp: u64,
-    }`;
-    }
-
-    let constants = `    const ENOT_AUTHORIZED: u64 = 1;
-    const EAPP_NOT_ACTIVE: u64 = 2;
-    const EINVALID_OPERATION: u64 = 3;`;
-
-    let functions = `    fun init_module(account: &signer) {
-        let account_addr = signer::address_of(account);
-        move_to(account, AppData {
-            owner: account_addr,
-            is_active: true,
-            created_at: timestamp::now_seconds(),
-        });
-    }
-
-    public entry fun main_action(account: &signer, param: String) acquires AppData {
-        let account_addr = signer::address_of(account);
-        let app_data = borrow_global_mut<AppData>(account_addr);
-        
-        assert!(app_data.is_active, error::invalid_state(EAPP_NOT_ACTIVE));
-        
-        // Your core logic here
-        ${hasEvents ? `
-        event::emit(AppEvent {
-            user: account_addr,
-            action: param,
-            timestamp: timestamp::now_seconds(),
-        });` : ''}
-    }
-
-    #[view]
-    public fun get_status(addr: address): bool acquires AppData {
-        if (!exists<AppData>(addr)) return false;
-        borrow_global<AppData>(addr).is_active
-    }`;
-
-    if (hasVRF) {
-      functions += `\n\n    public entry fun request_random(account: &signer) {
-        supra_vrf::rng_request(
-            account,
-            signer::address_of(account),
-            string::utf8(b"${moduleName}"),
-            string::utf8(b"handle_random"),
-            1, // count
-            0, // seed
-            1  // confirmations
-        );
-    }
-
-    public entry fun handle_random(
-        nonce: u64,
-        message: vector<u8>,
-        signature: vector<u8>,
-        caller_address: address,
-        rng_count: u8,
-        client_seed: u64,
-    ) {
-        let random_numbers = supra_vrf::verify_callback(
-            nonce, message, signature, caller_address, rng_count, client_seed
-        );
-        let random_value = *vector::borrow(&random_numbers, 0);
-        // Use random_value in your logic
-    }`;
-    }
-
-    const code = `${imports}
-
-module your_addr::${moduleName} {
-${structs}
-
-${constants}
-
-${functions}
-}`;
+    const module = buildMoveContract(description, features);
+    const moduleName = module.name;
+    const code = printModule(module).trimEnd();
 
     return {
       content: [{
@@ -342,6 +226,159 @@ ${features.map(f => `✅ ${f.toUpperCase()}`).join('\n')}
     };
   }
 
+  private generateTitsCode(args: Partial<TitsModuleParams> = {}): any {
+    const params = resolveTitsParams(args);
+    const sources = generateTitsModules(params);
+
+    const files = sources.map(({ path, code }) => `## ${path}
+
+\`\`\`${path.endsWith('.toml') ? 'toml' : 'move'}
+${code}\`\`\``).join('\n\n');
+
+    return {
+      content: [{
+        type: 'text',
+        text: `# Generated tits.fun Move package
+
+- Candle sizes: ${params.candleSizes.join(', ')}
+- Deviation threshold: ${params.deviationThreshold} bp
+- Initial supply: ${params.initialSupply}
+- Max delay: ${params.maxDelay}s
+
+${files}
+
+## Deployment Commands:
+\`\`\`bash
+# Compile
+supra move compile --package-dir . --named-addresses ${params.address}=<publisher>
+
+# Publish, then open pool #1
+supra move publish --package-dir . --named-addresses ${params.address}=<publisher> --rpc-url https://rpc-testnet.supra.com
+supra move run --function-id <publisher>::curve_launcher::launch_first_pool --args u64:${params.candleSizes[0]} u64:0 --rpc-url https://rpc-testnet.supra.com
+
+# Register both automations to run every block
+supra move automation register --function-id <publisher>::liquidator::run ...
+supra move automation register --function-id <publisher>::launcher::run ...
+\`\`\`
+`
+      }]
+    };
+  }
+
+  private generateSdkWrapperCode({ abiPath, abi }: { abiPath?: string; abi?: string } = {}): any {
+    if (!abiPath === !abi) throw new Error('Pass either abiPath or abi');
+    const abis = abiPath ? loadModuleAbis(abiPath) : parseModuleAbis(JSON.parse(abi!));
+    if (!abis.length) throw new Error(`No module ABIs found in ${abiPath ?? 'abi'}`);
+    const { files, skipped } = generateSdkWrappers(abis);
+
+    const sources = files.map(({ path, code }) => `## ${path}
+
+\`\`\`typescript
+${code}\`\`\``).join('\n\n');
+
+    const skippedList = skipped.length
+      ? `\n## Skipped functions:\n${skipped.map((s) => `- \`${s.module}::${s.function}\`: ${s.reason}`).join('\n')}\n`
+      : '';
+
+    return {
+      content: [{
+        type: 'text',
+        text: `# Generated supra-l1-sdk wrappers
+
+Modules: ${abis.map((module) => `\`${module.name}\``).join(', ')}
+
+${sources}
+${skippedList}
+## Usage:
+\`\`\`bash
+npm install supra-l1-sdk
+
+# Run the generated tests
+npx tsx --test *.test.ts
+\`\`\`
+`
+      }]
+    };
+  }
+
+  private inspectBytecode({ path, bytecode }: { path?: string; bytecode?: string } = {}): any {
+    if (!path === !bytecode) throw new Error('Pass either path or bytecode');
+    const modules = path
+      ? loadCompiledModules(path)
+      : [deserializeModule(Buffer.from(bytecode!.replace(/^0x/, ''), 'hex'))];
+    if (!modules.length) throw new Error(`No .mv modules found in ${path}`);
+
+    const sections = modules.map((module) => {
+      const hidden = module.functions.filter((fn) => fn.visibility === 'private' && !fn.isEntry).length;
+      return `## ${module.name}
+
+- Address: \`${module.address}\`
+- Bytecode version: ${module.version}
+- Friends: ${module.friends.length ? module.friends.map((friend) => `\`${friend}\``).join(', ') : 'none'}
+- Structs: ${module.structs.length}, functions: ${module.functions.length} (${hidden} private not shown)
+
+\`\`\`move
+${printInterface(module)}\`\`\``;
+    }).join('\n\n');
+
+    return {
+      content: [{
+        type: 'text',
+        text: `# Move bytecode: ${modules.map((module) => module.name).join(', ')}
+
+${sections}
+
+Parameter names are not kept in bytecode. Pass the same path to \`generate_sdk_wrappers\` as \`abiPath\` for typed clients.
+`
+      }]
+    };
+  }
+
+  private listTemplates({ features = [] }: { features?: string[] } = {}): any {
+    const templates = TemplateRegistry.load(TEMPLATES_DIR).list(features);
+    const sections = templates.map((template) => {
+      const parameters = template.parameters.map((parameter) => {
+        const detail = parameter.default !== undefined ? `default \`${parameter.default}\`` : parameter.required ? 'required' : 'optional';
+        return `- \`${parameter.name}\` (${parameter.type}, ${detail}): ${parameter.description}`;
+      });
+      return `## ${template.name} (${template.language})
+
+${template.description}
+
+Features: ${template.features.join(', ') || 'none'}
+
+${parameters.join('\n') || 'No parameters'}`;
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `# Templates${features.length ? ` using ${features.join(', ')}` : ''}
+
+${sections.join('\n\n') || 'No templates match.'}
+`
+      }]
+    };
+  }
+
+  private renderTemplate({ name, parameters = {} }: { name: string; parameters?: Record<string, unknown> }): any {
+    const registry = TemplateRegistry.load(TEMPLATES_DIR);
+    const template = registry.get(name);
+    const code = registry.render(name, parameters);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `# ${template.name}
+
+\`\`\`${template.language}
+${code.trimEnd()}
+\`\`\`
+`
+      }]
+    };
+  }
+
   private generateSDKCode(description: string, features: string[]): any {
     const className = this.extractClassName(description);
     const hasVRF = features.includes('vrf');
@@ -486,11 +523,6 @@ ${features.map(f => `✅ ${f.toUpperCase()} integration`).join('\n')}
     };
   }
 
-  private extractModuleName(description: string): string {
-    const words = description.toLowerCase().replace(/[^a-z0-9\s]/g, '').split(' ');
-    return words.slice(0, 2).join('_') || 'custom_module';
-  }
-
   private extractClassName(description: string): string {
     const words = description.toLowerCase().replace(/[^a-z0-9\s]/g, '').split(' ');
     const name = words.slice(0, 2).join('') || 'customClient';
@@ -0,0 +1,300 @@
+// A small typed model of a Move module, printed instead of concatenated so every
+// generated module is laid out the same way and checked before it is handed out.
+
+export type Ability = 'copy' | 'drop' | 'store' | 'key';
+
+export interface MoveUse {
+  path: string; // e.g. std::string, supra_framework::coin
+  members?: string[]; // e.g. ['Self', 'String'], the module itself when omitted
+}
+
+export interface MoveField {
+  name: string;
+  type: string;
+  comment?: string; // after the field on the same line
+}
+
+export interface MoveStruct {
+  name: string;
+  abilities: Ability[];
+  fields: MoveField[];
+  attributes?: string[]; // e.g. ['event']
+  doc?: string[]; // comment lines above the struct
+}
+
+export interface MoveConstant {
+  name: string;
+  type: string;
+  value: string;
+  comment?: string; // after the constant on the same line
+  doc?: string[]; // comment lines above the constant
+}
+
+export interface MoveParam {
+  name: string;
+  type: string;
+}
+
+export interface MoveFunction {
+  name: string;
+  visibility?: 'public' | 'public(friend)'; // private when omitted
+  entry?: boolean;
+  attributes?: string[]; // e.g. ['view']
+  params: MoveParam[];
+  returns?: string[];
+  acquires?: string[];
+  body: string[]; // lines, indented relative to the function
+  doc?: string[]; // comment lines above the function and its attributes
+}
+
+export interface MoveModule {
+  address: string;
+  name: string;
+  doc?: string[]; // comment lines above the module
+  uses: MoveUse[];
+  friends?: string[]; // e.g. ['tits_fun::launcher'], modules allowed to call public(friend) functions
+  structs: MoveStruct[];
+  constants: MoveConstant[];
+  functions: MoveFunction[];
+}
+
+export class MoveValidationError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid Move module:\n${issues.map((issue) => `- ${issue}`).join('\n')}`);
+    this.name = 'MoveValidationError';
+  }
+}
+
+const KEYWORDS = new Set([
+  'abort', 'acquires', 'as', 'break', 'const', 'continue', 'copy', 'else', 'entry', 'false',
+  'friend', 'fun', 'has', 'if', 'let', 'loop', 'module', 'move', 'mut', 'native', 'phantom',
+  'public', 'return', 'script', 'spec', 'struct', 'true', 'use', 'while',
+]);
+
+export function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && name !== '_' && !KEYWORDS.has(name);
+}
+
+/** Turns free text into a snake_case identifier, `fallback` when nothing usable is left */
+export function toIdentifier(text: string, fallback: string): string {
+  const name = text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(/\s+/).slice(0, 2).join('_');
+  if (!name) return fallback;
+  const prefixed = /^[0-9]/.test(name) ? `m_${name}` : name;
+  return isIdentifier(prefixed) ? prefixed : `${prefixed}_module`;
+}
+
+// Names a use brings into scope, `Self` is the module's own name
+function importedNames({ path, members }: MoveUse): { name: string; isModule: boolean }[] {
+  const moduleName = path.split('::').pop()!;
+  if (!members) return [{ name: moduleName, isModule: true }];
+  return members.map((member) => (member === 'Self' ? { name: moduleName, isModule: true } : { name: member, isModule: false }));
+}
+
+// Comments and byte strings can mention anything, only code counts
+function stripNonCode(line: string): string {
+  return line.replace(/b"(?:[^"\\]|\\.)*"/g, 'b""').replace(/\/\/.*$/, '');
+}
+
+function directAcquires(fn: MoveFunction): Set<string> {
+  const resources = new Set<string>();
+  for (const line of fn.body.map(stripNonCode)) {
+    for (const [, resource] of line.matchAll(/\b(?:borrow_global_mut|borrow_global|move_from)\s*<\s*([A-Za-z_][A-Za-z0-9_]*)/g)) {
+      resources.add(resource);
+    }
+  }
+  return resources;
+}
+
+// Calls to other functions of the same module, ie, without a `module::` in front
+function localCalls(fn: MoveFunction, names: Set<string>): string[] {
+  const calls: string[] = [];
+  for (const line of fn.body.map(stripNonCode)) {
+    for (const [, name] of line.matchAll(/(?<!::)\b([a-z_][A-Za-z0-9_]*)\s*\(/g)) {
+      if (names.has(name) && name !== fn.name) calls.push(name);
+    }
+  }
+  return calls;
+}
+
+/** Resources each function has to declare, including through the module's own functions it calls */
+function requiredAcquires(module: MoveModule): Map<string, Set<string>> {
+  const resources = new Set(module.structs.filter((s) => s.abilities.includes('key')).map((s) => s.name));
+  const names = new Set(module.functions.map((fn) => fn.name));
+  const required = new Map(module.functions.map((fn) => [
+    fn.name,
+    new Set([...directAcquires(fn)].filter((resource) => resources.has(resource))),
+  ]));
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const fn of module.functions) {
+      const own = required.get(fn.name)!;
+      for (const callee of localCalls(fn, names)) {
+        for (const resource of required.get(callee)!) {
+          if (!own.has(resource)) {
+            own.add(resource);
+            changed = true;
+          }
+        }
+      }
+    }
+  }
+  return required;
+}
+
+/** Everything wrong with the module, empty when it is fine to print */
+export function validateModule(module: MoveModule): string[] {
+  const issues: string[] = [];
+  const checkIdentifier = (kind: string, name: string) => {
+    if (!isIdentifier(name)) issues.push(`${kind} "${name}" is not a valid identifier`);
+  };
+
+  if (!isIdentifier(module.address) && !/^0x[0-9a-fA-F]+$/.test(module.address)) {
+    issues.push(`address "${module.address}" is neither a named address nor a hex literal`);
+  }
+  checkIdentifier('module', module.name);
+  for (const friend of module.friends ?? []) {
+    const [address, name, ...rest] = friend.split('::');
+    if (rest.length || !name || !isIdentifier(name) || (!isIdentifier(address) && !/^0x[0-9a-fA-F]+$/.test(address))) {
+      issues.push(`friend "${friend}" is not an address::module path`);
+    } else if (address === module.address && name === module.name) {
+      issues.push(`${module.name} cannot be its own friend`);
+    }
+  }
+  for (const struct of module.structs) {
+    checkIdentifier('struct', struct.name);
+    struct.fields.forEach((field) => checkIdentifier(`field of ${struct.name}`, field.name));
+  }
+  module.constants.forEach((constant) => checkIdentifier('constant', constant.name));
+  for (const fn of module.functions) {
+    checkIdentifier('function', fn.name);
+    fn.params.forEach((param) => checkIdentifier(`parameter of ${fn.name}`, param.name));
+  }
+
+  const declared = [
+    ...module.structs.map((s) => s.name),
+    ...module.constants.map((c) => c.name),
+    ...module.functions.map((f) => f.name),
+  ];
+  for (const name of new Set(declared.filter((name, i) => declared.indexOf(name) !== i))) {
+    issues.push(`"${name}" is declared more than once`);
+  }
+
+  // every imported name has to show up in the code
+  const code = [
+    ...module.structs.flatMap((s) => s.fields.map((f) => f.type)),
+    ...module.constants.flatMap((c) => [c.type, c.value]),
+    ...module.functions.flatMap((fn) => [
+      ...fn.params.map((p) => p.type),
+      ...(fn.returns ?? []),
+      ...fn.body,
+    ]),
+  ].map(stripNonCode).join('\n');
+  // a module is only used through `module::`, `vector<u8>` alone does not use std::vector
+  for (const use of module.uses) {
+    for (const { name, isModule } of importedNames(use)) {
+      const usage = isModule ? new RegExp(`\\b${name}::`) : new RegExp(`\\b${name}\\b`);
+      if (!usage.test(code)) issues.push(`unused import ${use.path}${name === use.path.split('::').pop() ? '' : `::${name}`}`);
+    }
+  }
+
+  const required = requiredAcquires(module);
+  for (const fn of module.functions) {
+    const declaredAcquires = new Set(fn.acquires ?? []);
+    const needed = required.get(fn.name)!;
+    for (const resource of needed) {
+      if (!declaredAcquires.has(resource)) issues.push(`${fn.name} must declare acquires ${resource}`);
+    }
+    for (const resource of declaredAcquires) {
+      if (!needed.has(resource)) issues.push(`${fn.name} declares acquires ${resource} but never borrows it`);
+    }
+  }
+
+  return issues;
+}
+
+const INDENT = '    ';
+const MAX_LINE = 96;
+
+function printUse({ path, members }: MoveUse): string {
+  if (!members) return `use ${path};`;
+  return members.length === 1 ? `use ${path}::${members[0]};` : `use ${path}::{${members.join(', ')}};`;
+}
+
+function printAttributes(attributes: string[] = []): string[] {
+  return attributes.map((attribute) => `#[${attribute}]`);
+}
+
+function printDoc(doc: string[] = []): string[] {
+  return doc.map((line) => (line ? `// ${line}` : '//'));
+}
+
+function printComment(comment: string | undefined): string {
+  return comment ? ` // ${comment}` : '';
+}
+
+function printStruct(struct: MoveStruct): string[] {
+  const abilities = struct.abilities.length ? ` has ${struct.abilities.join(', ')}` : '';
+  return [
+    ...printDoc(struct.doc),
+    ...printAttributes(struct.attributes),
+    `struct ${struct.name}${abilities} {`,
+    ...struct.fields.map((field) => `${INDENT}${field.name}: ${field.type},${printComment(field.comment)}`),
+    '}',
+  ];
+}
+
+function printConstant(constant: MoveConstant): string[] {
+  return [
+    ...printDoc(constant.doc),
+    `const ${constant.name}: ${constant.type} = ${constant.value};${printComment(constant.comment)}`,
+  ];
+}
+
+function printFunction(fn: MoveFunction): string[] {
+  const modifiers = [fn.visibility, fn.entry ? 'entry' : undefined, 'fun'].filter(Boolean).join(' ');
+  const params = fn.params.map((param) => `${param.name}: ${param.type}`);
+  const returns = !fn.returns?.length ? '' : fn.returns.length === 1 ? `: ${fn.returns[0]}` : `: (${fn.returns.join(', ')})`;
+  const acquires = fn.acquires?.length ? ` acquires ${fn.acquires.join(', ')}` : '';
+  const signature = `${modifiers} ${fn.name}(${params.join(', ')})${returns}${acquires} {`;
+  // one parameter per line once the signature gets too long
+  const header = signature.length <= MAX_LINE ? [signature] : [
+    `${modifiers} ${fn.name}(`,
+    ...params.map((param) => `${INDENT}${param},`),
+    `)${returns}${acquires} {`,
+  ];
+  return [
+    ...printDoc(fn.doc),
+    ...printAttributes(fn.attributes),
+    ...header,
+    ...fn.body.map((line) => (line ? `${INDENT}${line}` : '')),
+    '}',
+  ];
+}
+
+/** Validates and pretty-prints the module, uses sorted with `std` first then friends, one blank line between items */
+export function printModule(module: MoveModule): string {
+  const issues = validateModule(module);
+  if (issues.length) throw new MoveValidationError(issues);
+
+  const rank = (use: MoveUse) => (use.path.startsWith('std::') ? 0 : 1);
+  const uses = [...module.uses]
+    .sort((a, b) => rank(a) - rank(b) || a.path.localeCompare(b.path))
+    .map(printUse);
+
+  const sections: string[][] = [
+    uses,
+    (module.friends ?? []).map((friend) => `friend ${friend};`),
+    ...module.structs.map(printStruct),
+    // a commented constant starts a new group
+    module.constants.flatMap((c, i) => [...(i && c.doc?.length ? [''] : []), ...printConstant(c)]),
+    ...module.functions.map(printFunction),
+  ].filter((section) => section.length);
+
+  const body = sections
+    .map((section) => section.map((line) => (line ? `${INDENT}${line}` : '')).join('\n'))
+    .join('\n\n');
+
+  return `${printDoc(module.doc).map((line) => `${line}\n`).join('')}module ${module.address}::${module.name} {\n${body}\n}\n`;
+}
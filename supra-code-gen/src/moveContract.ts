@@ -0,0 +1,163 @@
+import { toIdentifier, type MoveFunction, type MoveModule, type MoveStruct, type MoveUse } from './move.js';
+
+/** Module name from the first two words of the description, always a valid Move identifier */
+export function extractModuleName(description: string): string {
+  return toIdentifier(description, 'custom_module');
+}
+
+/** The `generate_code` Move contract as a module, with only the imports its features use */
+export function buildMoveContract(description: string, features: string[]): MoveModule {
+  const name = extractModuleName(description);
+  const hasVRF = features.includes('vrf');
+  const hasPayments = features.includes('payments');
+  const hasEvents = features.includes('events');
+
+  const uses: MoveUse[] = [
+    { path: 'std::error' },
+    { path: 'std::signer' },
+    { path: 'std::string', members: hasVRF ? ['Self', 'String'] : ['String'] },
+    { path: 'supra_framework::timestamp' },
+  ];
+  if (hasEvents) uses.push({ path: 'supra_framework::event' });
+  if (hasPayments) uses.push({ path: 'supra_framework::coin' }, { path: 'supra_framework::supra_coin', members: ['SupraCoin'] });
+  if (hasVRF) uses.push({ path: 'std::vector' }, { path: 'supra_addr::supra_vrf' });
+
+  const structs: MoveStruct[] = [{
+    name: 'AppData',
+    abilities: ['key'],
+    fields: [
+      { name: 'owner', type: 'address' },
+      { name: 'is_active', type: 'bool' },
+      { name: 'created_at', type: 'u64' },
+    ],
+  }];
+  if (hasEvents) {
+    structs.push({
+      name: 'AppEvent',
+      attributes: ['event'],
+      abilities: ['drop', 'store'],
+      fields: [
+        { name: 'user', type: 'address' },
+        { name: 'action', type: 'String' },
+        { name: 'timestamp', type: 'u64' },
+      ],
+    });
+  }
+
+  const functions: MoveFunction[] = [
+    {
+      name: 'init_module',
+      params: [{ name: 'account', type: '&signer' }],
+      body: [
+        'let account_addr = signer::address_of(account);',
+        'move_to(account, AppData {',
+        '    owner: account_addr,',
+        '    is_active: true,',
+        '    created_at: timestamp::now_seconds(),',
+        '});',
+      ],
+    },
+    {
+      name: 'main_action',
+      visibility: 'public',
+      entry: true,
+      params: [{ name: 'account', type: '&signer' }, { name: hasEvents ? 'param' : '_param', type: 'String' }],
+      acquires: ['AppData'],
+      body: [
+        'let account_addr = signer::address_of(account);',
+        'let app_data = borrow_global_mut<AppData>(account_addr);',
+        'assert!(app_data.is_active, error::invalid_state(EAPP_NOT_ACTIVE));',
+        '',
+        '// Your core logic here',
+        ...(hasEvents ? [
+          'event::emit(AppEvent {',
+          '    user: account_addr,',
+          '    action: param,',
+          '    timestamp: timestamp::now_seconds(),',
+          '});',
+        ] : []),
+      ],
+    },
+    {
+      name: 'get_status',
+      visibility: 'public',
+      attributes: ['view'],
+      params: [{ name: 'addr', type: 'address' }],
+      returns: ['bool'],
+      acquires: ['AppData'],
+      body: [
+        'if (!exists<AppData>(addr)) return false;',
+        'borrow_global<AppData>(addr).is_active',
+      ],
+    },
+  ];
+
+  if (hasPayments) {
+    functions.push({
+      name: 'pay',
+      visibility: 'public',
+      entry: true,
+      params: [{ name: 'account', type: '&signer' }, { name: 'recipient', type: 'address' }, { name: 'amount', type: 'u64' }],
+      acquires: ['AppData'],
+      body: [
+        'assert!(get_status(signer::address_of(account)), error::invalid_state(EAPP_NOT_ACTIVE));',
+        'coin::transfer<SupraCoin>(account, recipient, amount);',
+      ],
+    });
+  }
+
+  if (hasVRF) {
+    functions.push(
+      {
+        name: 'request_random',
+        visibility: 'public',
+        entry: true,
+        params: [{ name: 'account', type: '&signer' }],
+        body: [
+          'supra_vrf::rng_request(',
+          '    account,',
+          '    signer::address_of(account),',
+          `    string::utf8(b"${name}"),`,
+          '    string::utf8(b"handle_random"),',
+          '    1, // count',
+          '    0, // seed',
+          '    1  // confirmations',
+          ');',
+        ],
+      },
+      {
+        name: 'handle_random',
+        visibility: 'public',
+        entry: true,
+        params: [
+          { name: 'nonce', type: 'u64' },
+          { name: 'message', type: 'vector<u8>' },
+          { name: 'signature', type: 'vector<u8>' },
+          { name: 'caller_address', type: 'address' },
+          { name: 'rng_count', type: 'u8' },
+          { name: 'client_seed', type: 'u64' },
+        ],
+        body: [
+          'let random_numbers = supra_vrf::verify_callback(',
+          '    nonce, message, signature, caller_address, rng_count, client_seed',
+          ');',
+          'let _random_value = *vector::borrow(&random_numbers, 0);',
+          '// Use the random value in your logic',
+        ],
+      },
+    );
+  }
+
+  return {
+    address: 'your_addr',
+    name,
+    uses,
+    structs,
+    constants: [
+      { name: 'ENOT_AUTHORIZED', type: 'u64', value: '1' },
+      { name: 'EAPP_NOT_ACTIVE', type: 'u64', value: '2' },
+      { name: 'EINVALID_OPERATION', type: 'u64', value: '3' },
+    ],
+    functions,
+  };
+}
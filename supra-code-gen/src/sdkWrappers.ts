@@ -0,0 +1,485 @@
+import { isStruct, normalizeAddress, parseMoveType, type MoveFunctionAbi, type MoveModuleAbi, type MoveType } from './abi.js';
+
+export interface TsSource {
+  path: string;
+  code: string;
+}
+
+export interface SkippedFunction {
+  module: string;
+  function: string;
+  reason: string;
+}
+
+class UnsupportedType extends Error {}
+
+const isString = (type: MoveType) => isStruct(type, '0x1', 'string', 'String');
+const isObject = (type: MoveType) => isStruct(type, '0x1', 'object', 'Object');
+const isOption = (type: MoveType) => isStruct(type, '0x1', 'option', 'Option');
+const isBytes = (type: MoveType) => type.kind === 'vector' && type.item.kind === 'u8';
+
+function typeName(type: MoveType): string {
+  switch (type.kind) {
+    case 'vector': return `vector<${typeName(type.item)}>`;
+    case 'struct': return `${type.module}::${type.name}${type.typeArgs.length ? `<${type.typeArgs.map(typeName).join(', ')}>` : ''}`;
+    case 'generic': return `T${type.index}`;
+    case 'reference': return `&${type.mutable ? 'mut ' : ''}${typeName(type.to)}`;
+    default: return type.kind;
+  }
+}
+
+function unsupported(type: MoveType): never {
+  throw new UnsupportedType(`${typeName(type)} cannot be passed as a transaction argument`);
+}
+
+// Option<T> and Object<T> hold one type argument
+const inner = (type: MoveType) => (type as Extract<MoveType, { kind: 'struct' }>).typeArgs[0];
+
+/** TypeScript type a wrapper takes for an argument */
+function argType(type: MoveType): string {
+  switch (type.kind) {
+    case 'u8': case 'u16': case 'u32': return 'number';
+    case 'u64': case 'u128': case 'u256': return 'bigint | number';
+    case 'bool': return 'boolean';
+    case 'address': return 'string';
+    case 'vector': return isBytes(type) ? 'Uint8Array' : `Array<${argType(type.item)}>`;
+    case 'struct':
+      if (isString(type) || isObject(type)) return 'string';
+      if (isOption(type)) return `${argType(inner(type))} | null`;
+      return unsupported(type);
+    default: return unsupported(type);
+  }
+}
+
+/** Writer from the generated bcs.ts for arguments without a BCS.bcsSerialize* of their own */
+function writer(type: MoveType, used: Set<string>): string {
+  const use = (name: string) => (used.add(name), name);
+  switch (type.kind) {
+    case 'u8': case 'u16': case 'u32': case 'u64': case 'u128': case 'u256': case 'bool': case 'address':
+      return use(type.kind);
+    case 'vector':
+      return isBytes(type) ? use('bytes') : `${use('vector')}(${writer(type.item, used)})`;
+    case 'struct':
+      if (isString(type)) return use('str');
+      if (isObject(type)) return use('address');
+      if (isOption(type)) return `${use('option')}(${writer(inner(type), used)})`;
+      return unsupported(type);
+    default: return unsupported(type);
+  }
+}
+
+const BCS_SERIALIZE: Record<string, string> = {
+  u8: 'bcsSerializeU8',
+  u16: 'bcsSerializeU16',
+  u32: 'bcsSerializeU32',
+  u64: 'bcsSerializeUint64',
+  u128: 'bcsSerializeU128',
+  u256: 'bcsSerializeU256',
+  bool: 'bcsSerializeBool',
+};
+
+interface Imports {
+  sdk: Set<string>;
+  bcs: Set<string>;
+}
+
+/** Expression turning `value` into the argument bytes of an entry function */
+function serializeArg(type: MoveType, value: string, imports: Imports): string {
+  if (BCS_SERIALIZE[type.kind]) return imports.sdk.add('BCS'), `BCS.${BCS_SERIALIZE[type.kind]}(${value})`;
+  if (isString(type)) return imports.sdk.add('BCS'), `BCS.bcsSerializeStr(${value})`;
+  if (isBytes(type)) return imports.sdk.add('BCS'), `BCS.bcsSerializeBytes(${value})`;
+  if (type.kind === 'address' || isObject(type)) {
+    imports.sdk.add('BCS').add('TxnBuilderTypes');
+    return `BCS.bcsToBytes(TxnBuilderTypes.AccountAddress.fromHex(${value}))`;
+  }
+  const write = writer(type, imports.bcs);
+  imports.bcs.add('serialize');
+  return `serialize(${value}, ${write})`;
+}
+
+/** Expression turning `value` into the JSON the view endpoint expects */
+function viewArg(type: MoveType, value: string, imports: Imports, depth = 0): string {
+  switch (type.kind) {
+    case 'u64': case 'u128': case 'u256': return `String(${value})`;
+    case 'vector': {
+      if (isBytes(type)) return imports.sdk.add('HexString'), `HexString.fromUint8Array(${value}).hex()`;
+      const item = `item${depth || ''}`;
+      const converted = viewArg(type.item, item, imports, depth + 1);
+      return converted === item ? value : `${value}.map((${item}) => ${converted})`;
+    }
+    case 'struct':
+      if (isOption(type)) return `{ vec: ${value} === null ? [] : [${viewArg(inner(type), value, imports, depth)}] }`;
+      return value;
+    default: return value;
+  }
+}
+
+/** TypeScript type of a view result, as the JSON comes back from the node */
+function returnType(type: MoveType): string {
+  switch (type.kind) {
+    case 'u8': case 'u16': case 'u32': return 'number';
+    case 'u64': case 'u128': case 'u256': case 'address': return 'string';
+    case 'bool': return 'boolean';
+    case 'vector': return isBytes(type) ? 'string' : `Array<${returnType(type.item)}>`;
+    case 'struct':
+      if (isString(type)) return 'string';
+      if (isObject(type)) return '{ inner: string }';
+      if (isOption(type)) return `{ vec: [] | [${returnType(inner(type))}] }`;
+      return 'unknown';
+    default: return 'unknown';
+  }
+}
+
+interface Sample {
+  literal: string; // TypeScript value passed to the wrapper
+  bytes: number[]; // BCS the wrapper has to produce
+  json: unknown; // view argument the wrapper has to produce
+}
+
+const littleEndian = (value: number, size: number) => Array.from({ length: size }, (_, i) => (i === 0 ? value : 0));
+const accountAddress = (last: number) => [...Array(31).fill(0), last];
+
+/** Arbitrary argument with the encoding worked out here, independently of the SDK */
+function sample(type: MoveType): Sample {
+  switch (type.kind) {
+    case 'u8': return { literal: '1', bytes: [1], json: 1 };
+    case 'u16': return { literal: '2', bytes: littleEndian(2, 2), json: 2 };
+    case 'u32': return { literal: '3', bytes: littleEndian(3, 4), json: 3 };
+    case 'u64': return { literal: '4n', bytes: littleEndian(4, 8), json: '4' };
+    case 'u128': return { literal: '5n', bytes: littleEndian(5, 16), json: '5' };
+    case 'u256': return { literal: '6n', bytes: littleEndian(6, 32), json: '6' };
+    case 'bool': return { literal: 'true', bytes: [1], json: true };
+    case 'address': return { literal: `'0x1'`, bytes: accountAddress(1), json: '0x1' };
+    case 'vector': {
+      if (isBytes(type)) return { literal: 'new Uint8Array([1, 2])', bytes: [2, 1, 2], json: '0x0102' };
+      const item = sample(type.item);
+      return { literal: `[${item.literal}]`, bytes: [1, ...item.bytes], json: [item.json] };
+    }
+    case 'struct': {
+      if (isString(type)) return { literal: `'tits'`, bytes: [4, ...Buffer.from('tits')], json: 'tits' };
+      if (isObject(type)) return { literal: `'0x2'`, bytes: accountAddress(2), json: '0x2' };
+      if (isOption(type)) {
+        const value = sample(inner(type));
+        return { literal: value.literal, bytes: [1, ...value.bytes], json: { vec: [value.json] } };
+      }
+      return unsupported(type);
+    }
+    default: return unsupported(type);
+  }
+}
+
+const hex = (bytes: number[]) => bytes.map((byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const camelCase = (name: string) => name.replace(/_+([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+const pascalCase = (name: string) => camelCase(name).replace(/^./, (c) => c.toUpperCase());
+
+// the class keeps these for itself
+const RESERVED_METHODS = new Set(['constructor', 'client', 'moduleAddress']);
+
+interface Wrapper {
+  fn: MoveFunctionAbi;
+  method: string;
+  params: MoveType[]; // without the signer of entry functions
+  returns: MoveType[];
+  typeArgCount: number;
+}
+
+function isSigner(type: MoveType): boolean {
+  return type.kind === 'signer' || (type.kind === 'reference' && type.to.kind === 'signer');
+}
+
+// Checks a function can be wrapped, throws UnsupportedType with the reason otherwise
+function toWrapper(fn: MoveFunctionAbi): Wrapper {
+  const types = fn.params.map(parseMoveType);
+  const params = fn.is_entry && types.length && isSigner(types[0]) ? types.slice(1) : types;
+  if (params.some(isSigner)) throw new UnsupportedType('only the sender can sign, multi-agent transactions are not wrapped');
+  params.forEach((type) => argType(type));
+  return {
+    fn,
+    method: camelCase(fn.name),
+    params,
+    returns: fn.return.map(parseMoveType),
+    typeArgCount: fn.generic_type_params.length,
+  };
+}
+
+const typeArgsTuple = (count: number) => `[${Array(count).fill('string').join(', ')}]`;
+
+function paramList(wrapper: Wrapper): string[] {
+  return [
+    ...(wrapper.typeArgCount ? [`typeArgs: ${typeArgsTuple(wrapper.typeArgCount)}`] : []),
+    ...wrapper.params.map((type, i) => `arg${i}: ${argType(type)}`),
+  ];
+}
+
+const argNames = (wrapper: Wrapper) => wrapper.params.map((_, i) => `arg${i}`);
+const signature = (fn: MoveFunctionAbi) => `${fn.name}(${fn.params.join(', ')})${fn.return.length ? `: ${fn.return.join(', ')}` : ''}`;
+
+function moduleSource(abi: MoveModuleAbi, entries: Wrapper[], views: Wrapper[]): string {
+  const imports: Imports = { sdk: new Set(), bcs: new Set() };
+  const className = `${pascalCase(abi.name)}Client`;
+  const addressConstant = `${abi.name.toUpperCase()}_ADDRESS`;
+  const lines: string[] = [];
+
+  for (const wrapper of entries) {
+    const serializer = `serialize${pascalCase(wrapper.fn.name)}Args`;
+    lines.push(
+      `/** Arguments of ${abi.name}::${signature(wrapper.fn)} */`,
+      `export function ${serializer}(${wrapper.params.map((type, i) => `arg${i}: ${argType(type)}`).join(', ')}): Uint8Array[] {`,
+      ...(wrapper.params.length ? [
+        '  return [',
+        ...wrapper.params.map((type, i) => `    ${serializeArg(type, `arg${i}`, imports)},`),
+        '  ];',
+      ] : ['  return [];']),
+      '}',
+      '',
+    );
+  }
+
+  lines.push(
+    `export class ${className} {`,
+    `  constructor(readonly client: SupraClient, readonly moduleAddress: string = ${addressConstant}) {}`,
+  );
+
+  for (const wrapper of entries) {
+    const params = ['sender: SupraAccount', ...paramList(wrapper), 'options?: EnableTransactionWaitAndSimulationArgs'];
+    const typeArgs = wrapper.typeArgCount ? 'typeArgs' : '[]';
+    lines.push(
+      '',
+      `  /** Entry ${abi.name}::${wrapper.fn.name} */`,
+      `  ${wrapper.method}(${params.join(', ')}): Promise<TransactionResponse> {`,
+      `    return this.#submit(sender, '${wrapper.fn.name}', ${typeArgs}, serialize${pascalCase(wrapper.fn.name)}Args(${argNames(wrapper).join(', ')}), options);`,
+      '  }',
+    );
+  }
+
+  for (const wrapper of views) {
+    const returns = wrapper.returns.map(returnType);
+    const result = returns.length === 1 ? returns[0] : `[${returns.join(', ')}]`;
+    const args = wrapper.params.map((type, i) => viewArg(type, `arg${i}`, imports));
+    const call = `this.#view('${wrapper.fn.name}', ${wrapper.typeArgCount ? 'typeArgs' : '[]'}, [${args.join(', ')}])`;
+    lines.push(
+      '',
+      `  /** View ${abi.name}::${wrapper.fn.name} */`,
+      `  async ${wrapper.method}(${paramList(wrapper).join(', ')}): Promise<${result}> {`,
+      returns.length === 1
+        ? `    const [ result ] = await ${call};`
+        : `    const result = await ${call};`,
+      `    return result as ${result};`,
+      '  }',
+    );
+  }
+
+  if (entries.length) {
+    imports.sdk.add('TxnBuilderTypes');
+    lines.push(
+      '',
+      '  async #submit(',
+      '    sender: SupraAccount,',
+      '    functionName: string,',
+      '    typeArgs: string[],',
+      '    args: Uint8Array[],',
+      '    options?: EnableTransactionWaitAndSimulationArgs,',
+      '  ): Promise<TransactionResponse> {',
+      '    const serializedTx = await this.client.createSerializedRawTxObject(',
+      '      sender.address(),',
+      '      (await this.client.getAccountInfo(sender.address())).sequence_number,',
+      '      this.moduleAddress,',
+      `      '${abi.name}',`,
+      '      functionName,',
+      '      typeArgs.map((tag) => new TxnBuilderTypes.TypeTagParser(tag).parseTypeTag()),',
+      '      args,',
+      '    );',
+      '    return this.client.sendTxUsingSerializedRawTransaction(sender, serializedTx, options);',
+      '  }',
+    );
+  }
+
+  if (views.length) {
+    lines.push(
+      '',
+      '  // the view endpoint takes JSON arguments, the SDK types them as strings',
+      '  #view(functionName: string, typeArgs: string[], args: unknown[]): Promise<unknown[]> {',
+      `    return this.client.invokeViewMethod(\`\${this.moduleAddress}::${abi.name}::\${functionName}\`, typeArgs, args as string[]);`,
+      '  }',
+    );
+  }
+  lines.push('}');
+
+  const sdkTypes = [
+    ...(entries.length ? ['EnableTransactionWaitAndSimulationArgs', 'SupraAccount'] : []),
+    'SupraClient',
+    ...(entries.length ? ['TransactionResponse'] : []),
+  ];
+  const sdkImports = [...[...imports.sdk].sort(), ...sdkTypes.map((name) => `type ${name}`)];
+  return [
+    `// Generated by supra-code-gen from the ${abi.name} ABI, regenerate instead of editing.`,
+    `import {\n${sdkImports.map((name) => `  ${name},`).join('\n')}\n} from 'supra-l1-sdk';`,
+    ...(imports.bcs.size ? [`\nimport { ${[...imports.bcs].sort().join(', ')} } from './bcs';`] : []),
+    '',
+    `export const ${addressConstant} = '${abi.address}';`,
+    '',
+    lines.join('\n'),
+    '',
+  ].join('\n');
+}
+
+function testSource(abi: MoveModuleAbi, entries: Wrapper[], views: Wrapper[]): string {
+  const className = `${pascalCase(abi.name)}Client`;
+  const addressConstant = `${abi.name.toUpperCase()}_ADDRESS`;
+  const serializers = entries.map((wrapper) => `serialize${pascalCase(wrapper.fn.name)}Args`);
+  const typeArgSamples = (wrapper: Wrapper) => Array(wrapper.typeArgCount).fill(`'0x1::supra_coin::SupraCoin'`);
+  const tests: string[] = [];
+
+  entries.forEach((wrapper, i) => {
+    const samples = wrapper.params.map(sample);
+    const expected = `[${samples.map((s) => `'${hex(s.bytes)}'`).join(', ')}]`;
+    const args = [...(wrapper.typeArgCount ? [`[${typeArgSamples(wrapper).join(', ')}]`] : []), ...samples.map((s) => s.literal)];
+    tests.push(
+      `  it('serializes ${wrapper.fn.name} arguments', () => {`,
+      `    assert.deepEqual(hex(${serializers[i]}(${samples.map((s) => s.literal).join(', ')})), ${expected});`,
+      '  });',
+      '',
+      `  it('submits ${wrapper.fn.name} from the sender', async () => {`,
+      '    const { client, calls } = mockClient();',
+      `    const response = await new ${className}(client).${wrapper.method}(${['sender', ...args].join(', ')});`,
+      '',
+      `    assert.equal(response.txHash, '0xabc');`,
+      '    const [ [ address, sequenceNumber, moduleAddress, moduleName, functionName, typeArgs, bytes ] ] = calls.createSerializedRawTxObject;',
+      `    assert.deepEqual([address, sequenceNumber], [sender.address(), 7n]);`,
+      `    assert.deepEqual([moduleAddress, moduleName, functionName], [${addressConstant}, '${abi.name}', '${wrapper.fn.name}']);`,
+      `    assert.equal((typeArgs as unknown[]).length, ${wrapper.typeArgCount});`,
+      `    assert.deepEqual(hex(bytes as Uint8Array[]), ${expected});`,
+      `    assert.equal(calls.sendTxUsingSerializedRawTransaction[0][0], sender);`,
+      '  });',
+      '',
+    );
+  });
+
+  for (const wrapper of views) {
+    const samples = wrapper.params.map(sample);
+    const typeArgs = typeArgSamples(wrapper);
+    const args = [...(typeArgs.length ? [`[${typeArgs.join(', ')}]`] : []), ...samples.map((s) => s.literal)];
+    const results = wrapper.returns.map((_, i) => `'r${i}'`);
+    tests.push(
+      `  it('views ${wrapper.fn.name}', async () => {`,
+      `    const { client, calls } = mockClient([${results.join(', ')}]);`,
+      `    const result = await new ${className}(client).${wrapper.method}(${args.join(', ')});`,
+      '',
+      `    assert.deepEqual(calls.invokeViewMethod, [[\`\${${addressConstant}}::${abi.name}::${wrapper.fn.name}\`, [${typeArgs.join(', ')}], ${JSON.stringify(samples.map((s) => s.json))}]]);`,
+      `    assert.deepEqual(result, ${results.length === 1 ? results[0] : `[${results.join(', ')}]`});`,
+      '  });',
+      '',
+    );
+  }
+
+  const sdkImports = ['HexString', ...(entries.length ? ['SupraAccount'] : []), 'type SupraClient'];
+  return [
+    `// Generated by supra-code-gen from the ${abi.name} ABI, regenerate instead of editing.`,
+    `import assert from 'node:assert/strict';`,
+    `import { describe, it } from 'node:test';`,
+    `import { ${sdkImports.join(', ')} } from 'supra-l1-sdk';`,
+    '',
+    `import { ${[addressConstant, className, ...serializers].join(', ')} } from './${abi.name}';`,
+    '',
+    'const hex = (args: Uint8Array[]) => args.map((arg) => HexString.fromUint8Array(arg).noPrefix());',
+    '',
+    '// records every call, answers like a node would',
+    'function mockClient(viewResult: unknown[] = []) {',
+    '  const calls: Record<string, unknown[][]> = {};',
+    '  const record = (method: string, result: unknown) => async (...args: unknown[]) => {',
+    '    (calls[method] ??= []).push(args);',
+    '    return result;',
+    '  };',
+    '  const client = {',
+    `    getAccountInfo: record('getAccountInfo', { sequence_number: 7n, authentication_key: '0x0' }),`,
+    `    createSerializedRawTxObject: record('createSerializedRawTxObject', new Uint8Array([1, 2, 3])),`,
+    `    sendTxUsingSerializedRawTransaction: record('sendTxUsingSerializedRawTransaction', { txHash: '0xabc', result: 'Success' }),`,
+    `    invokeViewMethod: record('invokeViewMethod', viewResult),`,
+    '  };',
+    '  return { client: client as unknown as SupraClient, calls };',
+    '}',
+    '',
+    `describe('${abi.name}', () => {`,
+    ...(entries.length ? ['  const sender = new SupraAccount();', ''] : []),
+    ...tests.slice(0, -1),
+    '});',
+    '',
+  ].join('\n');
+}
+
+const BCS_SOURCE = `// Generated by supra-code-gen, BCS writers for vector and option arguments.
+import { BCS, TxnBuilderTypes } from 'supra-l1-sdk';
+
+export type Writer<T> = (serializer: BCS.Serializer, value: T) => void;
+
+export const u8: Writer<number> = (serializer, value) => serializer.serializeU8(value);
+export const u16: Writer<number> = (serializer, value) => serializer.serializeU16(value);
+export const u32: Writer<number> = (serializer, value) => serializer.serializeU32(value);
+export const u64: Writer<bigint | number> = (serializer, value) => serializer.serializeU64(value);
+export const u128: Writer<bigint | number> = (serializer, value) => serializer.serializeU128(value);
+export const u256: Writer<bigint | number> = (serializer, value) => serializer.serializeU256(value);
+export const bool: Writer<boolean> = (serializer, value) => serializer.serializeBool(value);
+export const str: Writer<string> = (serializer, value) => serializer.serializeStr(value);
+export const bytes: Writer<Uint8Array> = (serializer, value) => serializer.serializeBytes(value);
+export const address: Writer<string> = (serializer, value) => TxnBuilderTypes.AccountAddress.fromHex(value).serialize(serializer);
+
+export function vector<T>(item: Writer<T>): Writer<T[]> {
+  return (serializer, values) => {
+    serializer.serializeU32AsUleb128(values.length);
+    values.forEach((value) => item(serializer, value));
+  };
+}
+
+// an option is a vector of at most one element
+export function option<T>(item: Writer<T>): Writer<T | null> {
+  return (serializer, value) => vector(item)(serializer, value === null ? [] : [value]);
+}
+
+export function serialize<T>(value: T, writer: Writer<T>): Uint8Array {
+  const serializer = new BCS.Serializer();
+  writer(serializer, value);
+  return serializer.getBytes();
+}
+`;
+
+/**
+ * supra-l1-sdk wrappers for every entry and view function of the modules, a test per module
+ * against a mocked SupraClient, and the shared bcs.ts. Functions taking arguments a transaction
+ * cannot carry are left out and listed in `skipped`.
+ */
+export function generateSdkWrappers(abis: MoveModuleAbi[]): { files: TsSource[]; skipped: SkippedFunction[] } {
+  const files: TsSource[] = [];
+  const skipped: SkippedFunction[] = [];
+
+  for (const abi of abis) {
+    const methods = new Set<string>();
+    const entries: Wrapper[] = [];
+    const views: Wrapper[] = [];
+
+    for (const fn of abi.exposed_functions) {
+      if (!fn.is_entry && !fn.is_view) continue;
+      try {
+        const wrapper = toWrapper(fn);
+        if (RESERVED_METHODS.has(wrapper.method) || methods.has(wrapper.method)) {
+          throw new UnsupportedType(`method name ${wrapper.method} is already taken`);
+        }
+        methods.add(wrapper.method);
+        (fn.is_entry ? entries : views).push(wrapper);
+      } catch (error) {
+        if (!(error instanceof UnsupportedType)) throw error;
+        skipped.push({ module: abi.name, function: fn.name, reason: error.message });
+      }
+    }
+
+    if (!entries.length && !views.length) continue;
+    const module = { ...abi, address: normalizeAddress(abi.address) };
+    files.push(
+      { path: `${abi.name}.ts`, code: moduleSource(module, entries, views) },
+      { path: `${abi.name}.test.ts`, code: testSource(module, entries, views) },
+    );
+  }
+
+  if (files.length) files.push({ path: 'bcs.ts', code: BCS_SOURCE });
+  return { files, skipped };
+}
@@ -0,0 +1,218 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { extname, join } from 'node:path';
+
+import { isIdentifier } from './move.js';
+
+// Templates are plain .move and .ts files with a front matter block on top:
+//
+// ---
+// name: nft_marketplace
+// description: What the pattern is for
+// features: [events, payments]
+// parameters:
+//   fee_bps:
+//     type: integer
+//     description: Fee on each sale
+//     default: 250
+// ---
+//
+// The body refers to parameters as {{fee_bps}}.
+
+export type TemplateLanguage = 'move' | 'typescript';
+export type ParameterType = 'string' | 'integer' | 'boolean' | 'identifier' | 'address';
+export type ParameterValue = string | number | boolean;
+
+export interface TemplateParameter {
+  name: string;
+  type: ParameterType;
+  description: string;
+  required: boolean;
+  default?: ParameterValue;
+  enum?: ParameterValue[];
+  min?: number;
+  max?: number;
+}
+
+export interface Template {
+  name: string;
+  description: string;
+  language: TemplateLanguage;
+  features: string[]; // Supra features the pattern relies on
+  parameters: TemplateParameter[];
+  body: string;
+  path: string;
+}
+
+const LANGUAGES: Record<string, TemplateLanguage> = { '.move': 'move', '.ts': 'typescript' };
+const PARAMETER_TYPES: ParameterType[] = ['string', 'integer', 'boolean', 'identifier', 'address'];
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+type FrontMatter = { [key: string]: FrontMatterValue };
+type FrontMatterValue = ParameterValue | ParameterValue[] | FrontMatter;
+
+function parseScalar(text: string): ParameterValue | ParameterValue[] {
+  if (text.startsWith('[') && text.endsWith(']')) {
+    const items = text.slice(1, -1).trim();
+    return items ? items.split(',').map((item) => parseScalar(item.trim()) as ParameterValue) : [];
+  }
+  if (/^(['"]).*\1$/.test(text)) return text.slice(1, -1);
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+// Nested maps by indentation, scalars and inline lists, the YAML a template header needs
+function parseFrontMatter(lines: string[], path: string): FrontMatter {
+  const root: FrontMatter = {};
+  const stack: { indent: number; map: FrontMatter }[] = [{ indent: -1, map: root }];
+
+  lines.forEach((line, i) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+    const indent = line.length - line.trimStart().length;
+    const match = /^([\w-]+):(?:\s+(.*))?$/.exec(line.trim());
+    if (!match) throw new Error(`${path}:${i + 2}: expected "key: value", got "${line.trim()}"`);
+
+    while (indent <= stack[stack.length - 1].indent) stack.pop();
+    const parent = stack[stack.length - 1].map;
+    const [, key, value] = match;
+    if (value === undefined) {
+      const child: FrontMatter = {};
+      parent[key] = child;
+      stack.push({ indent, map: child });
+    } else {
+      parent[key] = parseScalar(value.trim());
+    }
+  });
+  return root;
+}
+
+function isMap(value: FrontMatterValue | undefined): value is FrontMatter {
+  return typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Problems with `value` as `parameter`, empty when it fits */
+function checkValue(parameter: TemplateParameter, value: unknown): string[] {
+  const issues: string[] = [];
+  const { name, type } = parameter;
+  const expected = type === 'integer' ? 'number' : type === 'boolean' ? 'boolean' : 'string';
+  if (typeof value !== expected) return [`${name} must be ${/^[aeiu]/.test(type) ? 'an' : 'a'} ${type}`];
+
+  if (type === 'integer' && !Number.isSafeInteger(value)) issues.push(`${name} must be a whole number`);
+  if (type === 'identifier' && !isIdentifier(value as string)) issues.push(`${name} must be a Move identifier`);
+  if (type === 'address' && !/^0x[0-9a-fA-F]{1,64}$/.test(value as string) && !isIdentifier(value as string)) {
+    issues.push(`${name} must be a hex address or a named address`);
+  }
+  if (parameter.min !== undefined && (value as number) < parameter.min) issues.push(`${name} must be at least ${parameter.min}`);
+  if (parameter.max !== undefined && (value as number) > parameter.max) issues.push(`${name} must be at most ${parameter.max}`);
+  if (parameter.enum && !parameter.enum.includes(value as ParameterValue)) {
+    issues.push(`${name} must be one of ${parameter.enum.join(', ')}`);
+  }
+  return issues;
+}
+
+/** Reads a template file, throws when the header is incomplete or the body uses undeclared parameters */
+export function parseTemplate(source: string, path: string): Template {
+  const language = LANGUAGES[extname(path)];
+  if (!language) throw new Error(`${path}: templates are .move or .ts files`);
+
+  const lines = source.split('\n');
+  const end = lines.indexOf('---', 1);
+  if (lines[0] !== '---' || end === -1) throw new Error(`${path}: missing the --- front matter block`);
+  const header = parseFrontMatter(lines.slice(1, end), path);
+
+  const { name, description, features = [], parameters = {} } = header;
+  if (typeof name !== 'string' || !isIdentifier(name)) throw new Error(`${path}: name must be a snake_case identifier`);
+  if (typeof description !== 'string') throw new Error(`${path}: description is required`);
+  if (!Array.isArray(features)) throw new Error(`${path}: features must be a list, e.g. [vrf, events]`);
+  if (!isMap(parameters)) throw new Error(`${path}: parameters must map names to their schema`);
+
+  const declared = Object.entries(parameters).map(([parameterName, schema]): TemplateParameter => {
+    if (!isMap(schema)) throw new Error(`${path}: parameter ${parameterName} needs a type and a description`);
+    const type = schema.type as ParameterType;
+    if (!PARAMETER_TYPES.includes(type)) {
+      throw new Error(`${path}: parameter ${parameterName} has type ${schema.type}, expected one of ${PARAMETER_TYPES.join(', ')}`);
+    }
+    const parameter: TemplateParameter = {
+      name: parameterName,
+      type,
+      description: String(schema.description ?? ''),
+      required: schema.required === undefined ? schema.default === undefined : schema.required === true,
+      default: schema.default as ParameterValue | undefined,
+      enum: Array.isArray(schema.enum) ? schema.enum : undefined,
+      min: typeof schema.min === 'number' ? schema.min : undefined,
+      max: typeof schema.max === 'number' ? schema.max : undefined,
+    };
+    if (parameter.default !== undefined) {
+      const issues = checkValue(parameter, parameter.default);
+      if (issues.length) throw new Error(`${path}: default of ${issues.join(', ')}`);
+    }
+    return parameter;
+  });
+
+  const body = lines.slice(end + 1).join('\n').replace(/^\n+/, '');
+  const names = new Set(declared.map((parameter) => parameter.name));
+  const undeclared = [...new Set([...body.matchAll(PLACEHOLDER)].map(([, placeholder]) => placeholder))]
+    .filter((placeholder) => !names.has(placeholder));
+  if (undeclared.length) throw new Error(`${path}: {{${undeclared.join('}}, {{')}}} used but not declared under parameters`);
+
+  return { name, description, language, features: features.map(String), parameters: declared, body, path };
+}
+
+/** Fills in the defaults and checks every value, throws with all the problems at once */
+export function resolveParameters(template: Template, values: Record<string, unknown> = {}): Record<string, ParameterValue> {
+  const issues = Object.keys(values)
+    .filter((name) => !template.parameters.some((parameter) => parameter.name === name))
+    .map((name) => `unknown parameter ${name}`);
+
+  const resolved: Record<string, ParameterValue> = {};
+  for (const parameter of template.parameters) {
+    const value = values[parameter.name] ?? parameter.default;
+    if (value === undefined) {
+      if (parameter.required) issues.push(`${parameter.name} is required`);
+      continue;
+    }
+    const problems = checkValue(parameter, value);
+    if (problems.length) issues.push(...problems);
+    else resolved[parameter.name] = value as ParameterValue;
+  }
+
+  if (issues.length) throw new Error(`Invalid parameters for ${template.name}: ${issues.join('; ')}`);
+  return resolved;
+}
+
+export class TemplateRegistry {
+  private constructor(private readonly templates: Map<string, Template>) {}
+
+  /** Every .move and .ts template directly under `dir` */
+  static load(dir: string): TemplateRegistry {
+    const templates = new Map<string, Template>();
+    for (const file of readdirSync(dir).filter((file) => LANGUAGES[extname(file)]).sort()) {
+      const path = join(dir, file);
+      const template = parseTemplate(readFileSync(path, 'utf8'), path);
+      const existing = templates.get(template.name);
+      if (existing) throw new Error(`Template ${template.name} is defined by both ${existing.path} and ${path}`);
+      templates.set(template.name, template);
+    }
+    return new TemplateRegistry(templates);
+  }
+
+  /** Templates relying on all of `features`, every template without a filter */
+  list(features: string[] = []): Template[] {
+    return [...this.templates.values()].filter((template) => features.every((feature) => template.features.includes(feature)));
+  }
+
+  get(name: string): Template {
+    const template = this.templates.get(name);
+    if (!template) throw new Error(`Unknown template ${name}, available: ${[...this.templates.keys()].join(', ')}`);
+    return template;
+  }
+
+  render(name: string, values: Record<string, unknown> = {}): string {
+    const template = this.get(name);
+    const resolved = resolveParameters(template, values);
+    return template.body.replace(PLACEHOLDER, (_, parameter: string) => {
+      if (!(parameter in resolved)) throw new Error(`Template ${name} needs ${parameter}, it has no default`);
+      return String(resolved[parameter]);
+    });
+  }
+}
@@ -0,0 +1,1211 @@
+import { printModule, type MoveField, type MoveFunction, type MoveModule, type MoveStruct } from './move.js';
+
+// Generates the tits.fun module set for Supra, the Move side of the contracts under evm/.
+// Every module reads the game parameters from `config` and aborts with the codes in
+// `errors`, so a change in either lands everywhere at once.
+
+export interface TitsModuleParams {
+  address: string; // named address the package is published under
+  candleSizes: number[]; // valid L values, candles per 24h
+  deviationThreshold: number; // basis points, the liquidator locks above it
+  initialSupply: string; // pool token liquidity, in base units (u64)
+  maxDelay: number; // seconds a winner may push the next pool back
+}
+
+export interface MoveSource {
+  path: string; // relative to the package root
+  code: string;
+}
+
+export const DEFAULT_TITS_PARAMS: TitsModuleParams = {
+  address: 'tits_fun',
+  candleSizes: [96, 144, 288],
+  deviationThreshold: 690,
+  initialSupply: '1000000000000', // 1M tokens at 6 decimals, y_0 in the README
+  maxDelay: 12 * 60 * 60,
+};
+
+// Shared abort codes, in `errors` order. Move constants are private to their module,
+// so the others read them through the accessor.
+export const TITS_ERRORS = [
+  { constant: 'ENOT_AUTHORIZED', accessor: 'not_authorized', description: 'caller is not the package account' },
+  { constant: 'EINVALID_POOL', accessor: 'invalid_pool', description: 'no pool with this ID' },
+  { constant: 'EPOOL_LOCKED', accessor: 'pool_locked', description: 'pool crossed the deviation threshold' },
+  { constant: 'EPOOL_NOT_ACTIVE', accessor: 'pool_not_active', description: 'outside the pool\'s trading window' },
+  { constant: 'EPOOL_NOT_ENDED', accessor: 'pool_not_ended', description: 'pool is still running' },
+  { constant: 'EPOOL_FINALIZED', accessor: 'pool_finalized', description: 'winner already finalized' },
+  { constant: 'EALREADY_LAUNCHED', accessor: 'already_launched', description: 'the first pool is already out' },
+  { constant: 'EINVALID_CANDLE_SIZE', accessor: 'invalid_candle_size', description: 'candle size is not a valid L' },
+  { constant: 'EDELAY_TOO_LONG', accessor: 'delay_too_long', description: 'delay over the maximum' },
+  { constant: 'EZERO_QUANTITY', accessor: 'zero_quantity', description: 'trade quantity is zero' },
+  { constant: 'EGAS_PRICE_TOO_LOW', accessor: 'gas_price_too_low', description: 'gas unit price under the network minimum' },
+  { constant: 'EINSUFFICIENT_BALANCE', accessor: 'insufficient_balance', description: 'not enough SupraCoin to pay out' },
+] as const;
+
+const MAX_U64 = 2n ** 64n - 1n;
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Fills in the defaults and checks the parameters fit the contracts, throws on the first problem */
+export function resolveTitsParams(args: Partial<TitsModuleParams> = {}): TitsModuleParams {
+  const params = { ...DEFAULT_TITS_PARAMS, ...args };
+  const { address, candleSizes, deviationThreshold, initialSupply, maxDelay } = params;
+
+  if (!/^[a-z_][a-z0-9_]*$/.test(address)) {
+    throw new Error(`Invalid named address "${address}", use lowercase letters, digits and underscores`);
+  }
+  if (!candleSizes.length || new Set(candleSizes).size !== candleSizes.length) {
+    throw new Error('candleSizes must be a non-empty list without duplicates');
+  }
+  for (const size of candleSizes) {
+    // candles are whole minutes, as in TittyPool
+    if (!Number.isInteger(size) || size <= 0 || MINUTES_PER_DAY % size !== 0) {
+      throw new Error(`Invalid candle size ${size}, it must divide ${MINUTES_PER_DAY} minutes into whole candles`);
+    }
+  }
+  if (!Number.isInteger(deviationThreshold) || deviationThreshold <= 0 || deviationThreshold >= 10000) {
+    throw new Error('deviationThreshold must be whole basis points between 1 and 9999');
+  }
+  if (!/^\d+$/.test(initialSupply) || BigInt(initialSupply) === 0n || BigInt(initialSupply) > MAX_U64) {
+    throw new Error('initialSupply must be a positive integer that fits a u64');
+  }
+  if (!Number.isInteger(maxDelay) || maxDelay < 0 || maxDelay >= 24 * 60 * 60) {
+    throw new Error('maxDelay must be whole seconds under a day');
+  }
+
+  return params;
+}
+
+const RULE = '='.repeat(77);
+const banner = (title: string) => [RULE, title, RULE];
+
+// `public fun name(): type { CONSTANT }`, how the other modules read a constant
+function constantGetter(name: string, type: string, constant: string): MoveFunction {
+  return { name, visibility: 'public', params: [], returns: [type], body: [constant] };
+}
+
+function errorsModule({ address }: TitsModuleParams): MoveModule {
+  return {
+    address,
+    name: 'errors',
+    doc: banner('ERROR CODES MODULE'),
+    uses: [],
+    structs: [],
+    constants: TITS_ERRORS.map(({ constant, description }, i) => ({
+      name: constant,
+      type: 'u64',
+      value: String(i + 1),
+      comment: description,
+      doc: i === 0 ? ['Shared by every module, wrap them in std::error categories when aborting'] : undefined,
+    })),
+    functions: TITS_ERRORS.map(({ constant, accessor }) => constantGetter(accessor, 'u64', constant)),
+  };
+}
+
+function configModule({ address, candleSizes, deviationThreshold, initialSupply, maxDelay }: TitsModuleParams): MoveModule {
+  return {
+    address,
+    name: 'config',
+    doc: banner('CONFIG MODULE'),
+    uses: [{ path: 'std::vector' }],
+    structs: [],
+    constants: [
+      { name: 'CANDLE_SIZES', type: 'vector<u64>', value: `vector[${candleSizes.join(', ')}]`, comment: 'L values, candles per 24h' },
+      { name: 'DEVIATION_THRESHOLD', type: 'u128', value: String(deviationThreshold), comment: 'basis points' },
+      { name: 'INITIAL_SUPPLY', type: 'u64', value: initialSupply, comment: 'pool token liquidity, base units' },
+      { name: 'TOKEN_DECIMALS', type: 'u8', value: '6' },
+      { name: 'INITIAL_X_RESERVE', type: 'u64', value: '100000000', comment: '1 SUPRA, the virtual native reserve' },
+      { name: 'MAX_DELAY', type: 'u64', value: String(maxDelay), comment: 'seconds' },
+      { name: 'POOL_DURATION', type: 'u64', value: '86400', comment: '24 hours' },
+      {
+        name: 'TRADE_GAS_UNITS',
+        type: 'u64',
+        value: '5000',
+        doc: [
+          'Fees are 2x the gas of a trade at the gas unit price the trader quotes, Move cannot',
+          'read the transaction\'s. TRADE_GAS_UNITS is an estimate of a typical trade.',
+        ],
+      },
+      { name: 'FEE_GAS_MULTIPLIER', type: 'u64', value: '2' },
+      { name: 'MIN_GAS_UNIT_PRICE', type: 'u64', value: '100' },
+    ],
+    functions: [
+      constantGetter('candle_sizes', 'vector<u64>', 'CANDLE_SIZES'),
+      {
+        name: 'is_valid_candle_size',
+        visibility: 'public',
+        params: [{ name: 'l_value', type: 'u64' }],
+        returns: ['bool'],
+        body: ['vector::contains(&CANDLE_SIZES, &l_value)'],
+      },
+      {
+        name: 'candle_duration',
+        visibility: 'public',
+        doc: ['Seconds per candle of a pool with this L'],
+        params: [{ name: 'l_value', type: 'u64' }],
+        returns: ['u64'],
+        body: ['(24 * 60 / l_value) * 60'],
+      },
+      constantGetter('deviation_threshold', 'u128', 'DEVIATION_THRESHOLD'),
+      constantGetter('initial_supply', 'u64', 'INITIAL_SUPPLY'),
+      constantGetter('token_decimals', 'u8', 'TOKEN_DECIMALS'),
+      constantGetter('initial_x_reserve', 'u64', 'INITIAL_X_RESERVE'),
+      constantGetter('max_delay', 'u64', 'MAX_DELAY'),
+      constantGetter('pool_duration', 'u64', 'POOL_DURATION'),
+      constantGetter('min_gas_unit_price', 'u64', 'MIN_GAS_UNIT_PRICE'),
+      {
+        name: 'trade_fee',
+        visibility: 'public',
+        params: [{ name: 'gas_unit_price', type: 'u64' }],
+        returns: ['u64'],
+        body: ['FEE_GAS_MULTIPLIER * TRADE_GAS_UNITS * gas_unit_price'],
+      },
+    ],
+  };
+}
+
+function mathModule({ address }: TitsModuleParams): MoveModule {
+  const u128 = (...names: string[]) => names.map((name) => ({ name, type: 'u128' }));
+  const fn = (name: string, params: string[], body: string[], doc?: string[]): MoveFunction => ({
+    name,
+    visibility: 'public',
+    doc,
+    params: u128(...params),
+    returns: ['u128'],
+    body,
+  });
+
+  return {
+    address,
+    name: 'math',
+    doc: banner('MATH MODULE'),
+    uses: [],
+    structs: [],
+    constants: [
+      { name: 'PRECISION', type: 'u128', value: '100000000', doc: ['Fixed point precision (10^8), same as MathUtils.sol'] },
+      { name: 'MAX_U128', type: 'u128', value: '340282366920938463463374607431768211455' },
+    ],
+    functions: [
+      fn('safe_add', ['a', 'b'], ['if (a > MAX_U128 - b) MAX_U128 else a + b'], ['Saturating, as in MathUtils.sol']),
+      fn('safe_sub', ['a', 'b'], ['if (a < b) 0 else a - b']),
+      fn('safe_mul', ['a', 'b'], [
+        'if (a == 0 || b == 0) return 0;',
+        'if (a > MAX_U128 / b) MAX_U128 else a * b',
+      ]),
+      fn('safe_div', ['a', 'b'], ['if (b == 0) 0 else a / b']),
+      fn('safe_div_precision', ['a', 'b'], [
+        'if (b == 0) return 0;',
+        'if (a > MAX_U128 / PRECISION) (a / b) * PRECISION else (a * PRECISION) / b',
+      ], ['(a * PRECISION) / b, dividing first when the product would overflow']),
+      fn('abs_diff', ['a', 'b'], ['if (a > b) a - b else b - a']),
+      fn('sqrt', ['x'], [
+        'if (x < 2) return x;',
+        'let z = x;',
+        'let y = (x + 1) / 2;',
+        'while (y < z) {',
+        '    z = y;',
+        '    y = (x / y + y) / 2;',
+        '};',
+        'z',
+      ]),
+      fn('to_fixed_point', ['value'], ['if (value > MAX_U128 / PRECISION) MAX_U128 else value * PRECISION']),
+      fn('from_fixed_point', ['value'], ['value / PRECISION']),
+      fn('calculate_curve_y', ['x', 'h', 'l'], [
+        'if (x == 0 || l == 0 || x > l) return 0;',
+        'let numerator = safe_mul(safe_mul(safe_mul(4, h), x), safe_sub(l, x));',
+        'safe_div_precision(numerator, safe_mul(l, l))',
+      ], ['Bonded curve y = 4*(H/L)*x(1-x/L) on regular inputs, fixed-point output']),
+      fn('calculate_amm_out', ['x_in', 'x_reserve', 'y_reserve'], [
+        'if (x_in == 0 || x_reserve == 0 || y_reserve == 0) return 0;',
+        'let k = safe_mul(x_reserve, y_reserve);',
+        'safe_sub(y_reserve, safe_div(k, safe_add(x_reserve, x_in)))',
+      ], ['x * y = k, inputs and output in the same format']),
+      fn('calculate_deviation', ['actual', 'expected'], [
+        'if (expected == 0) return 0;',
+        'safe_div_precision(safe_mul(abs_diff(actual, expected), 10000), expected)',
+      ], ['Fixed-point basis points between what a trade got and what the curve expected']),
+    ],
+  };
+}
+
+function tokenFactoryModule({ address }: TitsModuleParams): MoveModule {
+  return {
+    address,
+    name: 'token_factory',
+    doc: banner('TOKEN FACTORY MODULE'),
+    uses: [
+      { path: 'std::bcs' },
+      { path: 'std::option' },
+      { path: 'std::string', members: ['Self', 'String'] },
+      { path: 'std::vector' },
+      { path: 'aptos_std::string_utils' },
+      { path: 'supra_framework::event' },
+      { path: 'supra_framework::fungible_asset', members: ['Self', 'BurnRef', 'Metadata', 'MintRef'] },
+      { path: 'supra_framework::object' },
+      { path: 'supra_framework::primary_fungible_store' },
+      { path: 'supra_framework::timestamp' },
+      { path: `${address}::config` },
+    ],
+    friends: [`${address}::curve_launcher`, `${address}::pool_pair`],
+    structs: [
+      {
+        name: 'TokenRefs',
+        doc: ['Stored at the token\'s object address, whose primary store holds the pool\'s liquidity'],
+        abilities: ['key'],
+        fields: [
+          { name: 'pool_id', type: 'u64' },
+          { name: 'mint_ref', type: 'MintRef' },
+          { name: 'burn_ref', type: 'BurnRef' },
+        ],
+      },
+      {
+        name: 'TokenCreated',
+        attributes: ['event'],
+        abilities: ['drop', 'store'],
+        fields: [
+          { name: 'pool_id', type: 'u64' },
+          { name: 'token', type: 'address' },
+          { name: 'name', type: 'String' },
+          { name: 'symbol', type: 'String' },
+          { name: 'initial_supply', type: 'u64' },
+          { name: 'timestamp', type: 'u64' },
+        ],
+      },
+    ],
+    constants: [],
+    functions: [
+      {
+        name: 'create_pool_token',
+        visibility: 'public(friend)',
+        doc: ['A fungible asset per pool, "Crypto Titty <id>" / "T<id>" as on Flow'],
+        params: [{ name: 'admin', type: '&signer' }, { name: 'pool_id', type: 'u64' }],
+        returns: ['address'],
+        body: [
+          'let seed = b"CRYPTO_TITTY_";',
+          'vector::append(&mut seed, bcs::to_bytes(&pool_id));',
+          'let constructor_ref = object::create_named_object(admin, seed);',
+          '',
+          'let name = string::utf8(b"Crypto Titty ");',
+          'string::append(&mut name, string_utils::to_string(&pool_id));',
+          'let symbol = string::utf8(b"T");',
+          'string::append(&mut symbol, string_utils::to_string(&pool_id));',
+          '',
+          'primary_fungible_store::create_primary_store_enabled_fungible_asset(',
+          '    &constructor_ref,',
+          '    option::none(), // buys mint, so no max supply',
+          '    name,',
+          '    symbol,',
+          '    config::token_decimals(),',
+          '    string::utf8(b""),',
+          '    string::utf8(b""),',
+          ');',
+          '',
+          'let token = object::address_from_constructor_ref(&constructor_ref);',
+          'let mint_ref = fungible_asset::generate_mint_ref(&constructor_ref);',
+          'let burn_ref = fungible_asset::generate_burn_ref(&constructor_ref);',
+          'primary_fungible_store::mint(&mint_ref, token, config::initial_supply());',
+          'move_to(&object::generate_signer(&constructor_ref), TokenRefs { pool_id, mint_ref, burn_ref });',
+          '',
+          'event::emit(TokenCreated {',
+          '    pool_id,',
+          '    token,',
+          '    name,',
+          '    symbol,',
+          '    initial_supply: config::initial_supply(),',
+          '    timestamp: timestamp::now_seconds(),',
+          '});',
+          '',
+          'token',
+        ],
+      },
+      {
+        name: 'mint',
+        visibility: 'public(friend)',
+        params: [{ name: 'token', type: 'address' }, { name: 'to', type: 'address' }, { name: 'amount', type: 'u64' }],
+        acquires: ['TokenRefs'],
+        body: ['primary_fungible_store::mint(&borrow_global<TokenRefs>(token).mint_ref, to, amount);'],
+      },
+      {
+        name: 'burn',
+        visibility: 'public(friend)',
+        params: [{ name: 'token', type: 'address' }, { name: 'from', type: 'address' }, { name: 'amount', type: 'u64' }],
+        acquires: ['TokenRefs'],
+        body: ['primary_fungible_store::burn(&borrow_global<TokenRefs>(token).burn_ref, from, amount);'],
+      },
+      {
+        name: 'burn_liquidity',
+        visibility: 'public(friend)',
+        doc: ['Burns the pool\'s liquidity when it gets locked'],
+        params: [{ name: 'token', type: 'address' }],
+        acquires: ['TokenRefs'],
+        body: [
+          'let amount = balance(token, token);',
+          'if (amount > 0) burn(token, token, amount);',
+        ],
+      },
+      {
+        name: 'balance',
+        visibility: 'public',
+        attributes: ['view'],
+        params: [{ name: 'token', type: 'address' }, { name: 'owner', type: 'address' }],
+        returns: ['u64'],
+        body: ['primary_fungible_store::balance(owner, object::address_to_object<Metadata>(token))'],
+      },
+    ],
+  };
+}
+
+function treasuryModule({ address }: TitsModuleParams): MoveModule {
+  return {
+    address,
+    name: 'tits_treasury',
+    doc: banner('TREASURY MODULE'),
+    uses: [
+      { path: 'std::error' },
+      { path: 'std::signer' },
+      { path: 'supra_framework::coin', members: ['Self', 'Coin'] },
+      { path: 'supra_framework::event' },
+      { path: 'supra_framework::supra_coin', members: ['SupraCoin'] },
+      { path: 'supra_framework::timestamp' },
+      { path: `${address}::errors` },
+    ],
+    friends: [`${address}::pool_pair`],
+    structs: [
+      {
+        name: 'Treasury',
+        abilities: ['key'],
+        fields: [
+          { name: 'coins', type: 'Coin<SupraCoin>' },
+          { name: 'total_fees_collected', type: 'u64' },
+          { name: 'created_at', type: 'u64' },
+        ],
+      },
+      {
+        name: 'TreasuryFunded',
+        attributes: ['event'],
+        abilities: ['drop', 'store'],
+        fields: [
+          { name: 'amount', type: 'u64' },
+          { name: 'funder', type: 'address' },
+          { name: 'timestamp', type: 'u64' },
+          { name: 'new_balance', type: 'u64' },
+        ],
+      },
+      {
+        name: 'FeesWithdrawn',
+        attributes: ['event'],
+        abilities: ['drop', 'store'],
+        fields: [
+          { name: 'amount', type: 'u64' },
+          { name: 'admin', type: 'address' },
+          { name: 'timestamp', type: 'u64' },
+          { name: 'remaining_balance', type: 'u64' },
+        ],
+      },
+    ],
+    constants: [],
+    functions: [
+      {
+        name: 'init_module',
+        params: [{ name: 'admin', type: '&signer' }],
+        body: [
+          'move_to(admin, Treasury {',
+          '    coins: coin::zero<SupraCoin>(),',
+          '    total_fees_collected: 0,',
+          '    created_at: timestamp::now_seconds(),',
+          '});',
+        ],
+      },
+      {
+        name: 'collect_fees',
+        visibility: 'public(friend)',
+        doc: ['Trade fees from pool_pair, no event to keep trades cheap'],
+        params: [{ name: 'fee', type: 'Coin<SupraCoin>' }],
+        acquires: ['Treasury'],
+        body: [
+          `let treasury = borrow_global_mut<Treasury>(@${address});`,
+          'treasury.total_fees_collected = treasury.total_fees_collected + coin::value(&fee);',
+          'coin::merge(&mut treasury.coins, fee);',
+        ],
+      },
+      {
+        name: 'fund_treasury',
+        visibility: 'public',
+        entry: true,
+        doc: ['Anyone can fund the treasury'],
+        params: [{ name: 'funder', type: '&signer' }, { name: 'amount', type: 'u64' }],
+        acquires: ['Treasury'],
+        body: [
+          `let treasury = borrow_global_mut<Treasury>(@${address});`,
+          'coin::merge(&mut treasury.coins, coin::withdraw<SupraCoin>(funder, amount));',
+          '',
+          'event::emit(TreasuryFunded {',
+          '    amount,',
+          '    funder: signer::address_of(funder),',
+          '    timestamp: timestamp::now_seconds(),',
+          '    new_balance: coin::value(&treasury.coins),',
+          '});',
+        ],
+      },
+      {
+        name: 'withdraw_fees',
+        visibility: 'public',
+        entry: true,
+        params: [{ name: 'admin', type: '&signer' }, { name: 'amount', type: 'u64' }],
+        acquires: ['Treasury'],
+        body: [
+          'let admin_addr = signer::address_of(admin);',
+          `assert!(admin_addr == @${address}, error::permission_denied(errors::not_authorized()));`,
+          '',
+          `let treasury = borrow_global_mut<Treasury>(@${address});`,
+          'assert!(coin::value(&treasury.coins) >= amount, error::invalid_state(errors::insufficient_balance()));',
+          'coin::deposit(admin_addr, coin::extract(&mut treasury.coins, amount));',
+          '',
+          'event::emit(FeesWithdrawn {',
+          '    amount,',
+          '    admin: admin_addr,',
+          '    timestamp: timestamp::now_seconds(),',
+          '    remaining_balance: coin::value(&treasury.coins),',
+          '});',
+        ],
+      },
+      {
+        name: 'get_balance',
+        visibility: 'public',
+        attributes: ['view'],
+        params: [],
+        returns: ['u64'],
+        acquires: ['Treasury'],
+        body: [`coin::value(&borrow_global<Treasury>(@${address}).coins)`],
+      },
+      {
+        name: 'get_total_fees_collected',
+        visibility: 'public',
+        attributes: ['view'],
+        params: [],
+        returns: ['u64'],
+        acquires: ['Treasury'],
+        body: [`borrow_global<Treasury>(@${address}).total_fees_collected`],
+      },
+    ],
+  };
+}
+
+function poolPairModule({ address }: TitsModuleParams): MoveModule {
+  const poolId = { name: 'pool_id', type: 'u64' };
+  const event = (name: string, fields: MoveField[]): MoveStruct => ({ name, attributes: ['event'], abilities: ['drop', 'store'], fields });
+
+  return {
+    address,
+    name: 'pool_pair',
+    doc: banner('POOL PAIR MODULE'),
+    uses: [
+      { path: 'std::error' },
+      { path: 'std::signer' },
+      { path: 'std::vector' },
+      { path: 'aptos_std::table', members: ['Self', 'Table'] },
+      { path: 'supra_framework::coin', members: ['Self', 'Coin'] },
+      { path: 'supra_framework::event' },
+      { path: 'supra_framework::supra_coin', members: ['SupraCoin'] },
+      { path: 'supra_framework::timestamp' },
+      { path: `${address}::config` },
+      { path: `${address}::errors` },
+      { path: `${address}::math` },
+      { path: `${address}::tits_treasury` },
+      { path: `${address}::token_factory` },
+    ],
+    friends: [`${address}::curve_launcher`, `${address}::launcher`, `${address}::liquidator`],
+    structs: [
+      {
+        name: 'TraderDeviation',
+        abilities: ['store', 'copy', 'drop'],
+        fields: [
+          { name: 'trader', type: 'address' },
+          { name: 'deviation', type: 'u128', comment: 'fixed-point basis points, the best of the trader\'s trades' },
+          { name: 'trade_count', type: 'u64' },
+          { name: 'last_updated', type: 'u64' },
+        ],
+      },
+      {
+        name: 'Pool',
+        abilities: ['store'],
+        fields: [
+          { name: 'l_value', type: 'u64', comment: 'Candle size' },
+          { name: 'h_value', type: 'u128', comment: 'Height parameter (fixed-point)' },
+          { name: 'x_reserve', type: 'u128', comment: 'SupraCoin reserve (fixed-point)' },
+          { name: 'y_reserve', type: 'u128', comment: 'Pool token reserve (fixed-point)' },
+          { name: 'token', type: 'address' },
+          { name: 'start_time', type: 'u64' },
+          { name: 'end_time', type: 'u64' },
+          { name: 'is_locked', type: 'bool' },
+          { name: 'is_finalized', type: 'bool' },
+          { name: 'total_trades', type: 'u64' },
+          { name: 'coins', type: 'Coin<SupraCoin>', comment: 'paid in by buys, sells are paid out of it' },
+          { name: 'traders', type: 'vector<TraderDeviation>' },
+          { name: 'current_winner', type: 'address' },
+          { name: 'winner_proposed_delay', type: 'u64' },
+          { name: 'winner_proposed_candle_size', type: 'u64' },
+        ],
+      },
+      {
+        name: 'Pools',
+        abilities: ['key'],
+        fields: [
+          { name: 'pools', type: 'Table<u64, Pool>' },
+          { name: 'pool_count', type: 'u64', comment: 'also the ID of the latest pool' },
+        ],
+      },
+      event('PoolCreated', [
+        poolId,
+        { name: 'token', type: 'address' },
+        { name: 'l_value', type: 'u64' },
+        { name: 'h_value', type: 'u128' },
+        { name: 'start_time', type: 'u64' },
+        { name: 'end_time', type: 'u64' },
+        { name: 'timestamp', type: 'u64' },
+      ]),
+      event('TradeEvent', [
+        poolId,
+        { name: 'trader', type: 'address' },
+        { name: 'quantity', type: 'u64' },
+        { name: 'side', type: 'bool' },
+        { name: 'fee', type: 'u64' },
+        { name: 'timestamp', type: 'u64' },
+        { name: 'deviation', type: 'u128', comment: 'basis points' },
+      ]),
+      event('NewWinnerDetected', [
+        poolId,
+        { name: 'winner', type: 'address' },
+        { name: 'deviation', type: 'u128' },
+        { name: 'proposed_delay', type: 'u64' },
+        { name: 'proposed_candle_size', type: 'u64' },
+        { name: 'timestamp', type: 'u64' },
+      ]),
+      event('PoolLocked', [
+        poolId,
+        { name: 'reason', type: 'vector<u8>' },
+        { name: 'timestamp', type: 'u64' },
+      ]),
+      event('PoolWinnerFinalized', [
+        poolId,
+        { name: 'winner', type: 'address' },
+        { name: 'final_deviation', type: 'u128' },
+        { name: 'next_pool_delay', type: 'u64' },
+        { name: 'next_pool_candle_size', type: 'u64' },
+        { name: 'timestamp', type: 'u64' },
+      ]),
+    ],
+    constants: [],
+    functions: [
+      {
+        name: 'init_module',
+        params: [{ name: 'admin', type: '&signer' }],
+        body: [
+          'move_to(admin, Pools {',
+          '    pools: table::new<u64, Pool>(),',
+          '    pool_count: 0,',
+          '});',
+        ],
+      },
+      {
+        name: 'create_pool',
+        visibility: 'public(friend)',
+        params: [
+          { name: 'l_value', type: 'u64' },
+          { name: 'h_value', type: 'u128' },
+          { name: 'token', type: 'address' },
+          { name: 'start_time', type: 'u64' },
+        ],
+        returns: ['u64'],
+        acquires: ['Pools'],
+        body: [
+          `let store = borrow_global_mut<Pools>(@${address});`,
+          'let pool_id = store.pool_count + 1;',
+          'let end_time = start_time + config::pool_duration();',
+          '',
+          'table::add(&mut store.pools, pool_id, Pool {',
+          '    l_value,',
+          '    h_value,',
+          '    x_reserve: math::to_fixed_point((config::initial_x_reserve() as u128)),',
+          '    y_reserve: math::to_fixed_point((config::initial_supply() as u128)),',
+          '    token,',
+          '    start_time,',
+          '    end_time,',
+          '    is_locked: false,',
+          '    is_finalized: false,',
+          '    total_trades: 0,',
+          '    coins: coin::zero<SupraCoin>(),',
+          '    traders: vector::empty<TraderDeviation>(),',
+          '    current_winner: @0x0,',
+          '    winner_proposed_delay: 0,',
+          '    winner_proposed_candle_size: 0,',
+          '});',
+          'store.pool_count = pool_id;',
+          '',
+          'event::emit(PoolCreated {',
+          '    pool_id,',
+          '    token,',
+          '    l_value,',
+          '    h_value,',
+          '    start_time,',
+          '    end_time,',
+          '    timestamp: timestamp::now_seconds(),',
+          '});',
+          '',
+          'pool_id',
+        ],
+      },
+      {
+        name: 'trade',
+        visibility: 'public',
+        entry: true,
+        doc: [
+          'Buys (side true) pay `quantity` SupraCoin, sells burn `quantity` pool tokens. Both pay',
+          'the fee for `gas_unit_price` to the treasury on top.',
+        ],
+        params: [
+          { name: 'trader', type: '&signer' },
+          poolId,
+          { name: 'quantity', type: 'u64' },
+          { name: 'side', type: 'bool' },
+          { name: 'delay', type: 'u64' },
+          { name: 'candle_size', type: 'u64' },
+          { name: 'gas_unit_price', type: 'u64' },
+        ],
+        acquires: ['Pools'],
+        body: [
+          'assert!(quantity > 0, error::invalid_argument(errors::zero_quantity()));',
+          'assert!(delay <= config::max_delay(), error::invalid_argument(errors::delay_too_long()));',
+          'assert!(config::is_valid_candle_size(candle_size), error::invalid_argument(errors::invalid_candle_size()));',
+          'assert!(gas_unit_price >= config::min_gas_unit_price(), error::invalid_argument(errors::gas_price_too_low()));',
+          '',
+          `let pool = borrow_pool_mut(borrow_global_mut<Pools>(@${address}), pool_id);`,
+          'let now = timestamp::now_seconds();',
+          'assert!(!pool.is_locked, error::invalid_state(errors::pool_locked()));',
+          'assert!(now >= pool.start_time && now <= pool.end_time, error::invalid_state(errors::pool_not_active()));',
+          '',
+          'let trader_addr = signer::address_of(trader);',
+          'let fee = config::trade_fee(gas_unit_price);',
+          'tits_treasury::collect_fees(coin::withdraw<SupraCoin>(trader, fee));',
+          '',
+          'let curve_expected = math::calculate_curve_y(',
+          '    (next_candle(pool, now) as u128),',
+          '    math::from_fixed_point(pool.h_value),',
+          '    (pool.l_value as u128),',
+          ');',
+          'let input_fixed = math::to_fixed_point((quantity as u128));',
+          '',
+          'let amm_output = if (side) {',
+          '    // BUY: SupraCoin -> Pool tokens',
+          '    let amm_output = math::calculate_amm_out(input_fixed, pool.x_reserve, pool.y_reserve);',
+          '    pool.x_reserve = math::safe_add(pool.x_reserve, input_fixed);',
+          '    pool.y_reserve = math::safe_sub(pool.y_reserve, amm_output);',
+          '',
+          '    coin::merge(&mut pool.coins, coin::withdraw<SupraCoin>(trader, quantity));',
+          '    token_factory::mint(pool.token, trader_addr, (math::from_fixed_point(amm_output) as u64));',
+          '    amm_output',
+          '} else {',
+          '    // SELL: Pool tokens -> SupraCoin',
+          '    let amm_output = math::calculate_amm_out(input_fixed, pool.y_reserve, pool.x_reserve);',
+          '    pool.x_reserve = math::safe_sub(pool.x_reserve, amm_output);',
+          '    pool.y_reserve = math::safe_add(pool.y_reserve, input_fixed);',
+          '',
+          '    token_factory::burn(pool.token, trader_addr, quantity);',
+          '    let payout = (math::from_fixed_point(amm_output) as u64);',
+          '    assert!(coin::value(&pool.coins) >= payout, error::invalid_state(errors::insufficient_balance()));',
+          '    coin::deposit(trader_addr, coin::extract(&mut pool.coins, payout));',
+          '    amm_output',
+          '};',
+          '',
+          'let deviation = math::calculate_deviation(amm_output, curve_expected);',
+          'update_trader_deviation(pool, trader_addr, deviation, now);',
+          'check_for_new_winner(pool_id, pool, trader_addr, delay, candle_size, now);',
+          'pool.total_trades = pool.total_trades + 1;',
+          '',
+          'event::emit(TradeEvent {',
+          '    pool_id,',
+          '    trader: trader_addr,',
+          '    quantity,',
+          '    side,',
+          '    fee,',
+          '    timestamp: now,',
+          '    deviation: math::from_fixed_point(deviation),',
+          '});',
+        ],
+      },
+      {
+        name: 'lock_pool',
+        visibility: 'public(friend)',
+        doc: ['Burns the pool\'s liquidity, the SupraCoin it took in stays locked in it for good'],
+        params: [poolId, { name: 'reason', type: 'vector<u8>' }],
+        acquires: ['Pools'],
+        body: [
+          `let pool = borrow_pool_mut(borrow_global_mut<Pools>(@${address}), pool_id);`,
+          'assert!(!pool.is_locked, error::invalid_state(errors::pool_locked()));',
+          'pool.is_locked = true;',
+          'token_factory::burn_liquidity(pool.token);',
+          '',
+          'event::emit(PoolLocked {',
+          '    pool_id,',
+          '    reason,',
+          '    timestamp: timestamp::now_seconds(),',
+          '});',
+        ],
+      },
+      {
+        name: 'finalize_winner',
+        visibility: 'public(friend)',
+        doc: ['Returns the winner with their proposed delay and candle size, @0x0 if nobody traded'],
+        params: [poolId],
+        returns: ['address', 'u64', 'u64'],
+        acquires: ['Pools'],
+        body: [
+          `let pool = borrow_pool_mut(borrow_global_mut<Pools>(@${address}), pool_id);`,
+          'let now = timestamp::now_seconds();',
+          'assert!(now > pool.end_time, error::invalid_state(errors::pool_not_ended()));',
+          'assert!(!pool.is_locked, error::invalid_state(errors::pool_locked()));',
+          'assert!(!pool.is_finalized, error::invalid_state(errors::pool_finalized()));',
+          'pool.is_finalized = true;',
+          '',
+          'let winner = pool.current_winner;',
+          'if (winner != @0x0) {',
+          '    let (_, deviation) = get_current_winner(&pool.traders);',
+          '    event::emit(PoolWinnerFinalized {',
+          '        pool_id,',
+          '        winner,',
+          '        final_deviation: math::from_fixed_point(deviation),',
+          '        next_pool_delay: pool.winner_proposed_delay,',
+          '        next_pool_candle_size: pool.winner_proposed_candle_size,',
+          '        timestamp: now,',
+          '    });',
+          '};',
+          '',
+          '(winner, pool.winner_proposed_delay, pool.winner_proposed_candle_size)',
+        ],
+      },
+      {
+        name: 'borrow_pool_mut',
+        doc: ['References into global storage cannot be returned, so the internal functions take the store'],
+        params: [{ name: 'store', type: '&mut Pools' }, poolId],
+        returns: ['&mut Pool'],
+        body: [
+          'assert!(table::contains(&store.pools, pool_id), error::not_found(errors::invalid_pool()));',
+          'table::borrow_mut(&mut store.pools, pool_id)',
+        ],
+      },
+      {
+        name: 'borrow_pool',
+        params: [{ name: 'store', type: '&Pools' }, poolId],
+        returns: ['&Pool'],
+        body: [
+          'assert!(table::contains(&store.pools, pool_id), error::not_found(errors::invalid_pool()));',
+          'table::borrow(&store.pools, pool_id)',
+        ],
+      },
+      {
+        name: 'next_candle',
+        doc: ['The candle a trade is scored against, ie, the one after the current'],
+        params: [{ name: 'pool', type: '&Pool' }, { name: 'now', type: 'u64' }],
+        returns: ['u64'],
+        body: ['(now - pool.start_time) / config::candle_duration(pool.l_value) + 1'],
+      },
+      {
+        name: 'update_trader_deviation',
+        doc: ['Keeps each trader\'s best deviation, a stored 0 means no trade yet'],
+        params: [
+          { name: 'pool', type: '&mut Pool' },
+          { name: 'trader', type: 'address' },
+          { name: 'deviation', type: 'u128' },
+          { name: 'now', type: 'u64' },
+        ],
+        body: [
+          'let traders = &mut pool.traders;',
+          'let i = 0;',
+          'let len = vector::length(traders);',
+          'while (i < len) {',
+          '    let trader_dev = vector::borrow_mut(traders, i);',
+          '    if (trader_dev.trader == trader) {',
+          '        if (trader_dev.deviation == 0 || deviation < trader_dev.deviation) {',
+          '            trader_dev.deviation = deviation;',
+          '        };',
+          '        trader_dev.trade_count = trader_dev.trade_count + 1;',
+          '        trader_dev.last_updated = now;',
+          '        return',
+          '    };',
+          '    i = i + 1;',
+          '};',
+          '',
+          'vector::push_back(traders, TraderDeviation {',
+          '    trader,',
+          '    deviation,',
+          '    trade_count: 1,',
+          '    last_updated: now,',
+          '});',
+        ],
+      },
+      {
+        name: 'check_for_new_winner',
+        params: [
+          poolId,
+          { name: 'pool', type: '&mut Pool' },
+          { name: 'trader', type: 'address' },
+          { name: 'delay', type: 'u64' },
+          { name: 'candle_size', type: 'u64' },
+          { name: 'now', type: 'u64' },
+        ],
+        body: [
+          'let (winner, deviation) = get_current_winner(&pool.traders);',
+          'if (winner != pool.current_winner && winner == trader) {',
+          '    pool.current_winner = winner;',
+          '    pool.winner_proposed_delay = delay;',
+          '    pool.winner_proposed_candle_size = candle_size;',
+          '',
+          '    event::emit(NewWinnerDetected {',
+          '        pool_id,',
+          '        winner,',
+          '        deviation: math::from_fixed_point(deviation),',
+          '        proposed_delay: delay,',
+          '        proposed_candle_size: candle_size,',
+          '        timestamp: now,',
+          '    });',
+          '};',
+        ],
+      },
+      {
+        name: 'get_current_winner',
+        doc: ['Lowest deviation wins, the most recent trade breaks ties'],
+        params: [{ name: 'traders', type: '&vector<TraderDeviation>' }],
+        returns: ['address', 'u128'],
+        body: [
+          'let winner = @0x0;',
+          'let min_deviation = 340282366920938463463374607431768211455u128;',
+          'let latest_time = 0;',
+          '',
+          'let i = 0;',
+          'let len = vector::length(traders);',
+          'while (i < len) {',
+          '    let trader_dev = vector::borrow(traders, i);',
+          '    if (trader_dev.deviation < min_deviation ||',
+          '        (trader_dev.deviation == min_deviation && trader_dev.last_updated > latest_time)) {',
+          '        winner = trader_dev.trader;',
+          '        min_deviation = trader_dev.deviation;',
+          '        latest_time = trader_dev.last_updated;',
+          '    };',
+          '    i = i + 1;',
+          '};',
+          '',
+          '(winner, min_deviation)',
+        ],
+      },
+      {
+        name: 'get_pool_count',
+        visibility: 'public',
+        attributes: ['view'],
+        params: [],
+        returns: ['u64'],
+        acquires: ['Pools'],
+        body: [`borrow_global<Pools>(@${address}).pool_count`],
+      },
+      {
+        name: 'get_pool',
+        visibility: 'public',
+        attributes: ['view'],
+        doc: ['(l_value, h_value, x_reserve, y_reserve, token, start_time, end_time, total_trades)'],
+        params: [poolId],
+        returns: ['u64', 'u128', 'u128', 'u128', 'address', 'u64', 'u64', 'u64'],
+        acquires: ['Pools'],
+        body: [
+          `let pool = borrow_pool(borrow_global<Pools>(@${address}), pool_id);`,
+          '(',
+          '    pool.l_value,',
+          '    pool.h_value,',
+          '    pool.x_reserve,',
+          '    pool.y_reserve,',
+          '    pool.token,',
+          '    pool.start_time,',
+          '    pool.end_time,',
+          '    pool.total_trades,',
+          ')',
+        ],
+      },
+      {
+        name: 'get_status',
+        visibility: 'public',
+        attributes: ['view'],
+        doc: ['(start_time, end_time, is_locked, is_finalized), what the automations run on'],
+        params: [poolId],
+        returns: ['u64', 'u64', 'bool', 'bool'],
+        acquires: ['Pools'],
+        body: [
+          `let pool = borrow_pool(borrow_global<Pools>(@${address}), pool_id);`,
+          '(pool.start_time, pool.end_time, pool.is_locked, pool.is_finalized)',
+        ],
+      },
+      {
+        name: 'get_winner',
+        visibility: 'public',
+        attributes: ['view'],
+        doc: ['(winner, proposed_delay, proposed_candle_size)'],
+        params: [poolId],
+        returns: ['address', 'u64', 'u64'],
+        acquires: ['Pools'],
+        body: [
+          `let pool = borrow_pool(borrow_global<Pools>(@${address}), pool_id);`,
+          '(pool.current_winner, pool.winner_proposed_delay, pool.winner_proposed_candle_size)',
+        ],
+      },
+      {
+        name: 'get_trader_deviations',
+        visibility: 'public',
+        attributes: ['view'],
+        params: [poolId],
+        returns: ['vector<TraderDeviation>'],
+        acquires: ['Pools'],
+        body: [`*&borrow_pool(borrow_global<Pools>(@${address}), pool_id).traders`],
+      },
+      {
+        name: 'get_max_deviation',
+        visibility: 'public',
+        attributes: ['view'],
+        doc: ['Worst recorded deviation (fixed-point basis points), the liquidator locks above the threshold'],
+        params: [poolId],
+        returns: ['u128'],
+        acquires: ['Pools'],
+        body: [
+          `let traders = &borrow_pool(borrow_global<Pools>(@${address}), pool_id).traders;`,
+          'let max_deviation = 0;',
+          'let i = 0;',
+          'let len = vector::length(traders);',
+          'while (i < len) {',
+          '    let deviation = vector::borrow(traders, i).deviation;',
+          '    if (deviation > max_deviation) max_deviation = deviation;',
+          '    i = i + 1;',
+          '};',
+          'max_deviation',
+        ],
+      },
+    ],
+  };
+}
+
+function curveLauncherModule({ address }: TitsModuleParams): MoveModule {
+  return {
+    address,
+    name: 'curve_launcher',
+    doc: banner('CURVE LAUNCHER MODULE'),
+    uses: [
+      { path: 'std::error' },
+      { path: 'std::signer' },
+      { path: 'supra_framework::timestamp' },
+      { path: `${address}::config` },
+      { path: `${address}::errors` },
+      { path: `${address}::math` },
+      { path: `${address}::pool_pair` },
+      { path: `${address}::token_factory` },
+    ],
+    friends: [`${address}::launcher`],
+    structs: [{
+      name: 'CurveState',
+      abilities: ['key'],
+      fields: [{ name: 'h_value', type: 'u128', comment: 'H of the latest pool (fixed-point), 0 before the first' }],
+    }],
+    constants: [],
+    functions: [
+      {
+        name: 'init_module',
+        params: [{ name: 'admin', type: '&signer' }],
+        body: ['move_to(admin, CurveState { h_value: 0 });'],
+      },
+      {
+        name: 'launch_first_pool',
+        visibility: 'public',
+        entry: true,
+        doc: ['Opens pool #1, the launcher automation opens the rest'],
+        params: [{ name: 'admin', type: '&signer' }, { name: 'l_value', type: 'u64' }, { name: 'delay', type: 'u64' }],
+        acquires: ['CurveState'],
+        body: [
+          `assert!(signer::address_of(admin) == @${address}, error::permission_denied(errors::not_authorized()));`,
+          'assert!(pool_pair::get_pool_count() == 0, error::invalid_state(errors::already_launched()));',
+          'launch(admin, l_value, delay);',
+        ],
+      },
+      {
+        name: 'launch',
+        visibility: 'public(friend)',
+        doc: ['A new token and pool starting `delay` seconds from now, H_0 = 1, H_{i+1} = H_i + sqrt(L)'],
+        params: [{ name: 'admin', type: '&signer' }, { name: 'l_value', type: 'u64' }, { name: 'delay', type: 'u64' }],
+        returns: ['u64'],
+        acquires: ['CurveState'],
+        body: [
+          'assert!(config::is_valid_candle_size(l_value), error::invalid_argument(errors::invalid_candle_size()));',
+          'assert!(delay <= config::max_delay(), error::invalid_argument(errors::delay_too_long()));',
+          '',
+          `let state = borrow_global_mut<CurveState>(@${address});`,
+          'state.h_value = if (state.h_value == 0) {',
+          '    math::to_fixed_point(1)',
+          '} else {',
+          '    math::safe_add(state.h_value, math::to_fixed_point(math::sqrt((l_value as u128))))',
+          '};',
+          '',
+          'let pool_id = pool_pair::get_pool_count() + 1;',
+          'let token = token_factory::create_pool_token(admin, pool_id);',
+          'pool_pair::create_pool(l_value, state.h_value, token, timestamp::now_seconds() + delay)',
+        ],
+      },
+      {
+        name: 'get_h_value',
+        visibility: 'public',
+        attributes: ['view'],
+        params: [],
+        returns: ['u128'],
+        acquires: ['CurveState'],
+        body: [`borrow_global<CurveState>(@${address}).h_value`],
+      },
+    ],
+  };
+}
+
+function liquidatorModule({ address }: TitsModuleParams): MoveModule {
+  return {
+    address,
+    name: 'liquidator',
+    doc: ['Liquidator (Automation)'],
+    uses: [
+      { path: 'std::error' },
+      { path: 'std::signer' },
+      { path: 'supra_framework::timestamp' },
+      { path: `${address}::config` },
+      { path: `${address}::errors` },
+      { path: `${address}::math` },
+      { path: `${address}::pool_pair` },
+    ],
+    structs: [],
+    constants: [],
+    functions: [{
+      name: 'run',
+      visibility: 'public',
+      entry: true,
+      doc: [
+        'Registered to run every block, locks the latest pool once a recorded deviation',
+        'crosses the threshold',
+      ],
+      params: [{ name: 'admin', type: '&signer' }],
+      body: [
+        `assert!(signer::address_of(admin) == @${address}, error::permission_denied(errors::not_authorized()));`,
+        '',
+        'let pool_id = pool_pair::get_pool_count();',
+        'if (pool_id == 0) return;',
+        '',
+        'let (start_time, end_time, is_locked, _) = pool_pair::get_status(pool_id);',
+        'let now = timestamp::now_seconds();',
+        'if (is_locked || now < start_time || now > end_time) return;',
+        '',
+        'let threshold = math::to_fixed_point(config::deviation_threshold());',
+        'if (pool_pair::get_max_deviation(pool_id) > threshold) {',
+        '    pool_pair::lock_pool(pool_id, b"Deviation threshold exceeded");',
+        '};',
+      ],
+    }],
+  };
+}
+
+function launcherModule({ address }: TitsModuleParams): MoveModule {
+  return {
+    address,
+    name: 'launcher',
+    doc: ['Launcher (Automation)'],
+    uses: [
+      { path: 'std::error' },
+      { path: 'std::signer' },
+      { path: 'std::vector' },
+      { path: 'supra_framework::timestamp' },
+      { path: `${address}::config` },
+      { path: `${address}::curve_launcher` },
+      { path: `${address}::errors` },
+      { path: `${address}::pool_pair` },
+    ],
+    structs: [],
+    constants: [],
+    functions: [
+      {
+        name: 'run',
+        visibility: 'public',
+        entry: true,
+        doc: [
+          'Registered to run every block. A locked pool is followed right away by one with a',
+          'random candle size, an ended one is finalized and followed by one with the winner\'s',
+          'candle size and delay (random and no delay without a winner).',
+        ],
+        params: [{ name: 'admin', type: '&signer' }],
+        body: [
+          `assert!(signer::address_of(admin) == @${address}, error::permission_denied(errors::not_authorized()));`,
+          '',
+          'let pool_id = pool_pair::get_pool_count();',
+          'if (pool_id == 0) return;',
+          '',
+          'let (_, end_time, is_locked, is_finalized) = pool_pair::get_status(pool_id);',
+          'if (is_locked) {',
+          '    curve_launcher::launch(admin, random_candle_size(), 0);',
+          '    return',
+          '};',
+          'if (is_finalized || timestamp::now_seconds() <= end_time) return;',
+          '',
+          'let (winner, delay, candle_size) = pool_pair::finalize_winner(pool_id);',
+          'if (winner == @0x0) {',
+          '    curve_launcher::launch(admin, random_candle_size(), 0);',
+          '} else {',
+          '    curve_launcher::launch(admin, candle_size, delay);',
+          '};',
+        ],
+      },
+      {
+        name: 'random_candle_size',
+        doc: ['Predictable, like TittyPoolFactory.createPoolWithRandomParams on Flow'],
+        params: [],
+        returns: ['u64'],
+        body: [
+          'let sizes = config::candle_sizes();',
+          '*vector::borrow(&sizes, timestamp::now_microseconds() % vector::length(&sizes))',
+        ],
+      },
+    ],
+  };
+}
+
+function moveToml({ address }: TitsModuleParams): string {
+  return `[package]
+name = "tits_dot_fun"
+version = "1.0.0"
+authors = []
+
+[addresses]
+${address} = "_"
+
+[dev-addresses]
+
+[dependencies.SupraFramework]
+git = "https://github.com/Entropy-Foundation/aptos-core.git"
+rev = "dev"
+subdir = "aptos-move/framework/supra-framework"
+`;
+}
+
+/**
+ * Move.toml plus the modules in dependency order: errors, config, math, token_factory,
+ * tits_treasury, pool_pair, curve_launcher and the liquidator / launcher automations.
+ * Modules go through printModule, so an invalid one throws a MoveValidationError.
+ */
+export function generateTitsModules(params: TitsModuleParams): MoveSource[] {
+  const move = (path: string, module: MoveModule) => ({ path, code: printModule(module) });
+  return [
+    { path: 'Move.toml', code: moveToml(params) },
+    move('sources/errors.move', errorsModule(params)),
+    move('sources/config.move', configModule(params)),
+    move('sources/math.move', mathModule(params)),
+    move('sources/token_factory.move', tokenFactoryModule(params)),
+    move('sources/tits_treasury.move', treasuryModule(params)),
+    move('sources/pool_pair.move', poolPairModule(params)),
+    move('sources/curve_launcher.move', curveLauncherModule(params)),
+    move('sources/automations/liquidator.move', liquidatorModule(params)),
+    move('sources/automations/launcher.move', launcherModule(params)),
+  ];
+}
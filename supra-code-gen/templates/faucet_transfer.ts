@@ -0,0 +1,33 @@
+---
+name: faucet_transfer
+description: Script that funds a fresh testnet account from the faucet and sends SUPRA to a receiver passed on the command line
+features: [payments]
+parameters:
+  rpc_url:
+    type: string
+    description: Supra RPC endpoint, the faucet only runs on testnet
+    default: https://rpc-testnet.supra.com
+  amount:
+    type: integer
+    description: Quants to send, 1 SUPRA is 100000000
+    default: 100000000
+    min: 1
+---
+import { HexString, SupraAccount, SupraClient } from 'supra-l1-sdk';
+
+async function main(receiver: string | undefined) {
+  if (!receiver) throw new Error('Usage: faucet_transfer <receiver address>');
+
+  const client = await SupraClient.init('{{rpc_url}}');
+  const sender = new SupraAccount();
+  await client.fundAccountWithFaucet(sender.address());
+  console.log(`Funded ${sender.address()}: ${await client.getAccountSupraCoinBalance(sender.address())} quants`);
+
+  const { txHash, result } = await client.transferSupraCoin(sender, new HexString(receiver), BigInt({{amount}}));
+  console.log(`Sent {{amount}} quants to ${receiver}: ${txHash} (${result})`);
+}
+
+main(process.argv[2]).catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+---
+name: nft_marketplace
+description: Fixed-price listings of aptos_token NFTs paid in SupraCoin, with a marketplace fee and sale events
+features: [events, payments]
+parameters:
+  address:
+    type: address
+    description: Named address or account the module is published under
+    default: mint_addr
+  fee_bps:
+    type: integer
+    description: Marketplace fee on each sale, in basis points
+    default: 250
+    min: 0
+    max: 10000
+---
+module {{address}}::nft_marketplace {
+    use std::error;
+    use std::signer;
+    use std::string::{Self, String};
+    use std::vector;
+    use supra_framework::account;
+    use supra_framework::event;
+    use supra_framework::timestamp;
+    use supra_framework::coin::{Self, Coin};
+    use supra_framework::supra_coin::SupraCoin;
+    use aptos_token::token::{Self, TokenDataId, TokenId};
+
+    #[event]
+    struct TokenListed has drop, store {
+        seller: address,
+        token_id: TokenId,
+        price: u64,
+        timestamp: u64,
+    }
+
+    #[event]
+    struct TokenSold has drop, store {
+        seller: address,
+        buyer: address,
+        token_id: TokenId,
+        price: u64,
+        timestamp: u64,
+    }
+
+    struct Listing has key {
+        token_id: TokenId,
+        seller: address,
+        price: u64,
+        is_active: bool,
+    }
+
+    struct Marketplace has key {
+        fee_percentage: u64,
+        admin: address,
+        total_sales: u64,
+    }
+
+    const ENOT_AUTHORIZED: u64 = 1;
+    const ELISTING_NOT_FOUND: u64 = 2;
+    const ELISTING_NOT_ACTIVE: u64 = 3;
+    const EINSUFFICIENT_FUNDS: u64 = 4;
+    const EINVALID_PRICE: u64 = 5;
+
+    fun init_module(admin: &signer) {
+        move_to(admin, Marketplace {
+            fee_percentage: {{fee_bps}}, // basis points
+            admin: signer::address_of(admin),
+            total_sales: 0,
+        });
+    }
+
+    public entry fun list_token(
+        seller: &signer,
+        creator: address,
+        collection: String,
+        name: String,
+        property_version: u64,
+        price: u64,
+    ) acquires Marketplace {
+        assert!(price > 0, error::invalid_argument(EINVALID_PRICE));
+        
+        let token_id = token::create_token_id_raw(creator, collection, name, property_version);
+        let seller_addr = signer::address_of(seller);
+        
+        // Transfer token to marketplace
+        let token = token::withdraw_token(seller, token_id, 1);
+        move_to(seller, Listing {
+            token_id,
+            seller: seller_addr,
+            price,
+            is_active: true,
+        });
+        
+        token::deposit_token(seller, token);
+        
+        event::emit(TokenListed {
+            seller: seller_addr,
+            token_id,
+            price,
+            timestamp: timestamp::now_seconds(),
+        });
+    }
+
+    public entry fun buy_token(
+        buyer: &signer,
+        seller: address,
+    ) acquires Listing, Marketplace {
+        let listing = borrow_global_mut<Listing>(seller);
+        assert!(listing.is_active, error::invalid_state(ELISTING_NOT_ACTIVE));
+        
+        let marketplace = borrow_global_mut<Marketplace>(@{{address}});
+        let buyer_addr = signer::address_of(buyer);
+        
+        // Calculate fees
+        let fee = (listing.price * marketplace.fee_percentage) / 10000;
+        let seller_amount = listing.price - fee;
+        
+        // Transfer payment
+        let payment = coin::withdraw<SupraCoin>(buyer, listing.price);
+        let fee_coin = coin::extract(&mut payment, fee);
+        
+        coin::deposit(seller, payment);
+        coin::deposit(marketplace.admin, fee_coin);
+        
+        // Transfer token
+        let token = token::withdraw_token_with_capability(
+            &listing_cap, listing.token_id, 1
+        );
+        token::deposit_token(buyer, token);
+        
+        // Update listing
+        listing.is_active = false;
+        marketplace.total_sales = marketplace.total_sales + 1;
+        
+        event::emit(TokenSold {
+            seller,
+            buyer: buyer_addr,
+            token_id: listing.token_id,
+            price: listing.price,
+            timestamp: timestamp::now_seconds(),
+        });
+    }
+
+    #[view]
+    public fun get_listing(seller: address): (TokenId, u64, bool) acquires Listing {
+        let listing = borrow_global<Listing>(seller);
+        (listing.token_id, listing.price, listing.is_active)
+    }
+}
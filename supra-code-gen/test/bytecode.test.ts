@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+import { loadModuleAbis } from '../src/abi.js';
+import { deserializeModule, loadCompiledModules, printInterface, toModuleAbi } from '../src/bytecode.js';
+import { generateSdkWrappers } from '../src/sdkWrappers.js';
+import { matchSnapshot } from './snapshot.js';
+
+const workspace = join(dirname(fileURLToPath(import.meta.url)), '../../supra/move_workspace');
+const titsFun = join(workspace, 'titsFun/build/tits_dot_fun/bytecode_modules');
+const messageFile = join(workspace, 'exampleContract/build/exampleContract/bytecode_modules/message.mv');
+const deployer = '0x5d9e5ddecdcaf31b27ccf90970574d4001fe819928bc811a9279347fc769ffb8';
+
+describe('deserializeModule', () => {
+  it('reads the example message module', () => {
+    assert.deepEqual(deserializeModule(readFileSync(messageFile)), {
+      version: 6,
+      address: deployer,
+      name: 'message',
+      friends: [],
+      structs: [
+        {
+          name: 'MessageChange',
+          abilities: ['drop', 'store'],
+          typeParams: [],
+          fields: [
+            { name: 'account', type: 'address' },
+            { name: 'from_message', type: '0x1::string::String' },
+            { name: 'to_message', type: '0x1::string::String' },
+          ],
+          attributes: ['event'],
+        },
+        {
+          name: 'MessageHolder',
+          abilities: ['key'],
+          typeParams: [],
+          fields: [{ name: 'message', type: '0x1::string::String' }],
+          attributes: [],
+        },
+      ],
+      functions: [
+        {
+          name: 'get_message',
+          visibility: 'public',
+          isEntry: false,
+          isView: true,
+          isNative: false,
+          typeParams: [],
+          params: ['address'],
+          returns: ['0x1::string::String'],
+          acquires: ['MessageHolder'],
+        },
+        {
+          name: 'set_message',
+          visibility: 'public',
+          isEntry: true,
+          isView: false,
+          isNative: false,
+          typeParams: [],
+          params: ['signer', '0x1::string::String'],
+          returns: [],
+          acquires: ['MessageHolder'],
+        },
+      ],
+    });
+  });
+
+  it('reads generics, phantoms, friends and natives from the framework', () => {
+    const coin = deserializeModule(readFileSync(join(workspace, 'titsFun/build/tits_dot_fun/bytecode_modules/dependencies/SupraFramework/coin.mv')));
+    assert.equal(coin.address, '0x1');
+    assert.ok(coin.friends.includes('0x1::genesis'));
+    assert.deepEqual(coin.structs.find((struct) => struct.name === 'Coin')?.typeParams, [{ constraints: [], isPhantom: true }]);
+    const transfer = coin.functions.find((fn) => fn.name === 'transfer');
+    assert.deepEqual([transfer?.isEntry, transfer?.typeParams, transfer?.params], [true, [[]], ['&signer', 'address', 'u64']]);
+  });
+
+  it('prints the tits.fun interfaces', () => {
+    for (const module of loadCompiledModules(titsFun)) {
+      matchSnapshot(`bytecode-${module.name}`, printInterface(module));
+    }
+  });
+
+  it('rejects anything but a supported module', () => {
+    const message = readFileSync(messageFile);
+    assert.throws(() => deserializeModule(Uint8Array.from([0, 1, 2, 3])), /bad magic/);
+    assert.throws(() => deserializeModule(Uint8Array.from([...message.subarray(0, 4), 7, 0, 0, 0])), /Unsupported bytecode version 7/);
+    assert.throws(() => deserializeModule(message.subarray(0, 100)), /Unexpected end of bytecode/);
+  });
+});
+
+describe('compiled modules as ABIs', () => {
+  it('exposes public, friend and entry functions only', () => {
+    const abi = toModuleAbi(deserializeModule(readFileSync(join(titsFun, 'pool_manager.mv'))));
+    const trade = abi.exposed_functions.find((fn) => fn.name === 'trade');
+    assert.deepEqual(trade?.params, ['&signer', 'address', 'u64', 'u64', 'bool', 'u64', 'u64', 'u64']);
+    assert.ok(!abi.exposed_functions.some((fn) => fn.name === 'update_trader_deviation'));
+  });
+
+  it('feeds SDK generation from a bytecode directory', () => {
+    const abis = loadModuleAbis(titsFun);
+    assert.deepEqual(abis.map((abi) => abi.name), ['math_utils', 'pool_launcher', 'pool_manager', 'tits_deviation', 'tits_treasury', 'token_factory']);
+    const poolManager = generateSdkWrappers(abis).files.find((file) => file.path === 'pool_manager.ts');
+    assert.match(poolManager!.code, /async getPoolInfo\(arg0: string, arg1: bigint \| number\): Promise<\[string, string, string, string, string, boolean\]>/);
+  });
+});
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { MoveValidationError, printModule, validateModule, type MoveModule } from '../src/move.js';
+import { buildMoveContract, extractModuleName } from '../src/moveContract.js';
+import { matchSnapshot } from './snapshot.js';
+
+function counterModule(overrides: Partial<MoveModule> = {}): MoveModule {
+  return {
+    address: 'your_addr',
+    name: 'counter',
+    uses: [{ path: 'std::signer' }],
+    structs: [{ name: 'Counter', abilities: ['key'], fields: [{ name: 'value', type: 'u64' }] }],
+    constants: [],
+    functions: [
+      {
+        name: 'bump',
+        visibility: 'public',
+        entry: true,
+        params: [{ name: 'account', type: '&signer' }],
+        acquires: ['Counter'],
+        body: ['increment(signer::address_of(account));'],
+      },
+      {
+        name: 'increment',
+        params: [{ name: 'addr', type: 'address' }],
+        acquires: ['Counter'],
+        body: ['let counter = borrow_global_mut<Counter>(addr);', 'counter.value = counter.value + 1;'],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('generate_code move contracts', () => {
+  it('prints the basic contract', () => {
+    matchSnapshot('move-basic', printModule(buildMoveContract('Simple vault', [])));
+  });
+
+  it('prints the events contract', () => {
+    matchSnapshot('move-events', printModule(buildMoveContract('Event log', ['events'])));
+  });
+
+  it('prints the contract with every feature', () => {
+    matchSnapshot('move-all-features', printModule(buildMoveContract('DeFi lending protocol', ['events', 'payments', 'vrf', 'automation'])));
+  });
+
+  it('keeps the uses inside the module and only the used ones', () => {
+    const code = printModule(buildMoveContract('Simple vault', []));
+    assert.match(code, /^module your_addr::simple_vault \{\n    use std::error;/);
+    assert.doesNotMatch(code, /supra_framework::account|std::vector/);
+  });
+
+  it('derives a valid module name from any description', () => {
+    assert.equal(extractModuleName('NFT Marketplace!'), 'nft_marketplace');
+    assert.equal(extractModuleName('2048 game'), 'm_2048_game');
+    assert.equal(extractModuleName('Move'), 'move_module');
+    assert.equal(extractModuleName('  ***  '), 'custom_module');
+  });
+});
+
+describe('validateModule', () => {
+  it('accepts acquires declared through local calls', () => {
+    assert.deepEqual(validateModule(counterModule()), []);
+  });
+
+  it('reports invalid identifiers', () => {
+    assert.deepEqual(validateModule(counterModule({ name: '2fast', constants: [{ name: 'move', type: 'u64', value: '1' }] })), [
+      'module "2fast" is not a valid identifier',
+      'constant "move" is not a valid identifier',
+    ]);
+  });
+
+  it('reports unused imports, ignoring comments and strings', () => {
+    const module = counterModule({
+      uses: [{ path: 'std::signer' }, { path: 'std::vector' }, { path: 'std::string', members: ['Self', 'String'] }],
+    });
+    module.functions[0].body.push('// vector::empty()', 'let _name = b"String";');
+    assert.deepEqual(validateModule(module), [
+      'unused import std::vector',
+      'unused import std::string',
+      'unused import std::string::String',
+    ]);
+  });
+
+  it('only counts a module import as used through module::', () => {
+    const module = counterModule({ uses: [{ path: 'std::signer' }, { path: 'std::vector' }] });
+    module.structs[0].fields.push({ name: 'history', type: 'vector<u8>' });
+    assert.deepEqual(validateModule(module), ['unused import std::vector']);
+
+    module.functions[1].body.push('vector::push_back(&mut counter.history, 1);');
+    assert.deepEqual(validateModule(module), []);
+  });
+
+  it('reports missing and extra acquires', () => {
+    const module = counterModule();
+    module.functions[0].acquires = [];
+    module.functions[1].acquires = ['Counter', 'Other'];
+    assert.deepEqual(validateModule(module), [
+      'bump must declare acquires Counter',
+      'increment declares acquires Other but never borrows it',
+    ]);
+  });
+
+  it('reports friends that are not another module', () => {
+    const module = counterModule({ friends: ['your_addr::launcher', 'launcher', 'your_addr::2fast', 'your_addr::counter'] });
+    assert.deepEqual(validateModule(module), [
+      'friend "launcher" is not an address::module path',
+      'friend "your_addr::2fast" is not an address::module path',
+      'counter cannot be its own friend',
+    ]);
+  });
+
+  it('refuses to print an invalid module', () => {
+    assert.throws(() => printModule(counterModule({ name: 'fun' })), (error: unknown) => {
+      assert.ok(error instanceof MoveValidationError);
+      assert.deepEqual(error.issues, ['module "fun" is not a valid identifier']);
+      return true;
+    });
+  });
+});
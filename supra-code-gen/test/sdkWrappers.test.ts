@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { dirname, join } from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+import { loadModuleAbis, parseModuleAbis, parseMoveType } from '../src/abi.js';
+import { generateSdkWrappers } from '../src/sdkWrappers.js';
+import { matchSnapshot } from './snapshot.js';
+
+const fixtures = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+describe('parseMoveType', () => {
+  it('parses references, vectors and structs', () => {
+    assert.deepEqual(parseMoveType('&signer'), { kind: 'reference', mutable: false, to: { kind: 'signer' } });
+    assert.deepEqual(parseMoveType('vector<0x0001::option::Option<T0>>'), {
+      kind: 'vector',
+      item: { kind: 'struct', address: '0x1', module: 'option', name: 'Option', typeArgs: [{ kind: 'generic', index: 0 }] },
+    });
+  });
+
+  it('rejects malformed types', () => {
+    assert.throws(() => parseMoveType('vector<u8'), /Invalid Move type "vector<u8"/);
+    assert.throws(() => parseMoveType('u64<u8>'), /Invalid Move type/);
+    assert.throws(() => parseMoveType('Pool'), /Invalid Move type/);
+  });
+});
+
+describe('module ABIs', () => {
+  it('loads every ABI under a directory', () => {
+    assert.deepEqual(loadModuleAbis(fixtures).map((abi) => abi.name), ['pool_manager', 'vault']);
+  });
+
+  it('rejects JSON that is not an ABI', () => {
+    assert.throws(() => parseModuleAbis([{ bytecode: '0x' }]), /Entry 0 is not a Move module ABI/);
+  });
+});
+
+describe('generateSdkWrappers', () => {
+  const { files, skipped } = generateSdkWrappers(loadModuleAbis(fixtures));
+
+  it('wraps every entry and view function', () => {
+    assert.deepEqual(files.map((file) => file.path), [
+      'pool_manager.ts',
+      'pool_manager.test.ts',
+      'vault.ts',
+      'vault.test.ts',
+      'bcs.ts',
+    ]);
+    for (const file of files) matchSnapshot(`sdk-${file.path.replace(/\.ts$/, '')}`, file.code);
+  });
+
+  it('uses the BCS.bcsSerialize* of each parameter type', () => {
+    const poolManager = files[0].code;
+    assert.match(poolManager, /BCS\.bcsToBytes\(TxnBuilderTypes\.AccountAddress\.fromHex\(arg0\)\),\n\s+BCS\.bcsSerializeUint64\(arg1\)/);
+    assert.match(poolManager, /BCS\.bcsSerializeBytes\(arg1\)/);
+    assert.doesNotMatch(poolManager, /determineWinner|from '\.\/bcs'/);
+  });
+
+  it('lists the functions it cannot wrap', () => {
+    assert.deepEqual(skipped, [
+      { module: 'vault', function: 'swap', reason: 'T0 cannot be passed as a transaction argument' },
+      { module: 'vault', function: 'co_sign', reason: 'only the sender can sign, multi-agent transactions are not wrapped' },
+    ]);
+  });
+});
@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const snapshotDir = join(dirname(fileURLToPath(import.meta.url)), '__snapshots__');
+
+/** Compares `actual` with test/__snapshots__/<name>.snap, UPDATE_SNAPSHOTS=1 rewrites it */
+export function matchSnapshot(name: string, actual: string): void {
+  const file = join(snapshotDir, `${name}.snap`);
+  if (process.env.UPDATE_SNAPSHOTS === '1' || !existsSync(file)) {
+    mkdirSync(snapshotDir, { recursive: true });
+    writeFileSync(file, actual);
+    return;
+  }
+  assert.equal(actual, readFileSync(file, 'utf8'), `${name} snapshot changed, rerun with UPDATE_SNAPSHOTS=1 if intended`);
+}
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+import { parseTemplate, resolveParameters, TemplateRegistry } from '../src/templates.js';
+import { matchSnapshot } from './snapshot.js';
+
+const templatesDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'templates');
+
+const source = (header: string, body = 'module {{address}}::example {}') => `---\n${header}\n---\n${body}\n`;
+
+describe('parseTemplate', () => {
+  it('reads the front matter', () => {
+    const template = parseTemplate(source(`name: example
+description: "Example: a module"
+features: [vrf, events]
+parameters:
+  address:
+    type: address
+    description: Publisher
+    default: 0x1
+  rounds:
+    type: integer
+    description: Rounds
+    enum: [1, 3]`), 'example.move');
+
+    assert.equal(template.language, 'move');
+    assert.equal(template.description, 'Example: a module');
+    assert.deepEqual(template.features, ['vrf', 'events']);
+    assert.deepEqual(template.parameters, [
+      { name: 'address', type: 'address', description: 'Publisher', required: false, default: '0x1', enum: undefined, min: undefined, max: undefined },
+      { name: 'rounds', type: 'integer', description: 'Rounds', required: true, default: undefined, enum: [1, 3], min: undefined, max: undefined },
+    ]);
+    assert.equal(template.body, 'module {{address}}::example {}\n');
+  });
+
+  it('rejects placeholders that are not declared', () => {
+    assert.throws(
+      () => parseTemplate(source('name: example\ndescription: Example', 'module {{address}}::{{name}} {}'), 'example.move'),
+      /example.move: \{\{address\}\}, \{\{name\}\} used but not declared under parameters/,
+    );
+  });
+
+  it('rejects bad headers', () => {
+    assert.throws(() => parseTemplate('module a::b {}', 'b.move'), /missing the --- front matter block/);
+    assert.throws(() => parseTemplate(source('name: example'), 'example.rs'), /templates are .move or .ts files/);
+    assert.throws(() => parseTemplate(source('name: Example-1\ndescription: x'), 'example.move'), /name must be a snake_case identifier/);
+    assert.throws(
+      () => parseTemplate(source('name: example\ndescription: x\nparameters:\n  address:\n    type: u64'), 'example.move'),
+      /parameter address has type u64/,
+    );
+    assert.throws(
+      () => parseTemplate(source('name: example\ndescription: x\nparameters:\n  address:\n    type: address\n    default: 0xZZ'), 'example.move'),
+      /default of address must be a hex address or a named address/,
+    );
+  });
+});
+
+describe('TemplateRegistry', () => {
+  const registry = TemplateRegistry.load(templatesDir);
+
+  it('lists the bundled templates, filtered by features', () => {
+    assert.deepEqual(registry.list().map((template) => template.name), ['faucet_transfer', 'nft_marketplace']);
+    assert.deepEqual(registry.list(['payments', 'events']).map((template) => template.name), ['nft_marketplace']);
+    assert.deepEqual(registry.list(['vrf']), []);
+  });
+
+  it('renders with defaults and given values', () => {
+    matchSnapshot('template-nft_marketplace', registry.render('nft_marketplace', { address: '0xcafe', fee_bps: 300 }));
+    matchSnapshot('template-faucet_transfer', registry.render('faucet_transfer'));
+  });
+
+  it('reports every invalid parameter', () => {
+    assert.throws(
+      () => registry.render('nft_marketplace', { fee_bps: 10001, address: 'nft-owner', fee: 1 }),
+      {
+        message: 'Invalid parameters for nft_marketplace: unknown parameter fee; '
+          + 'address must be a hex address or a named address; fee_bps must be at most 10000',
+      },
+    );
+    assert.throws(() => registry.render('faucet_transfer', { amount: '5' }), /amount must be an integer/);
+    assert.throws(() => registry.get('dex'), /Unknown template dex, available: faucet_transfer, nft_marketplace/);
+  });
+
+  it('requires parameters without a default', () => {
+    const template = parseTemplate(source('name: example\ndescription: x\nparameters:\n  address:\n    type: identifier'), 'example.move');
+    assert.throws(() => resolveParameters(template), /address is required/);
+    assert.deepEqual(resolveParameters(template, { address: 'owner' }), { address: 'owner' });
+  });
+
+  it('refuses two templates with the same name', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'templates-'));
+    try {
+      const template = source('name: example\ndescription: x\nparameters:\n  address:\n    type: address');
+      writeFileSync(join(dir, 'a.move'), template);
+      writeFileSync(join(dir, 'b.move'), template);
+      writeFileSync(join(dir, 'notes.md'), 'ignored');
+      assert.throws(() => TemplateRegistry.load(dir), /Template example is defined by both .*a.move and .*b.move/);
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+});
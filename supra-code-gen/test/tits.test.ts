@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { basename } from 'node:path';
+import { describe, it } from 'node:test';
+
+import { DEFAULT_TITS_PARAMS, generateTitsModules, resolveTitsParams } from '../src/tits.js';
+import { matchSnapshot } from './snapshot.js';
+
+interface GeneratedModule {
+  name: string;
+  uses: string[];
+  friends: string[];
+  friendFunctions: string[];
+  code: string;
+}
+
+function readModules(address: string): GeneratedModule[] {
+  return generateTitsModules(resolveTitsParams({ address }))
+    .filter(({ path }) => path.endsWith('.move'))
+    .map(({ code }) => ({
+      name: new RegExp(`^module ${address}::(\\w+) \\{`, 'm').exec(code)![1],
+      uses: [...code.matchAll(new RegExp(`^\\s*use ${address}::(\\w+);`, 'gm'))].map(([, name]) => name),
+      friends: [...code.matchAll(new RegExp(`^\\s*friend ${address}::(\\w+);`, 'gm'))].map(([, name]) => name),
+      friendFunctions: [...code.matchAll(/public\(friend\) fun (\w+)/g)].map(([, name]) => name),
+      code,
+    }));
+}
+
+describe('generate_tits_modules', () => {
+  it('prints the default package', () => {
+    for (const { path, code } of generateTitsModules(DEFAULT_TITS_PARAMS)) {
+      matchSnapshot(`tits-${basename(path).replace(/\.\w+$/, '')}`, code);
+    }
+  });
+
+  it('publishes every module under the given address', () => {
+    const sources = generateTitsModules(resolveTitsParams({ address: 'game' }));
+    assert.match(sources[0].code, /^game = "_"$/m);
+    for (const { code } of sources.slice(1)) assert.match(code, /^module game::\w+ \{$/m);
+    assert.doesNotMatch(sources.map(({ code }) => code).join('\n'), /tits_fun/);
+  });
+
+  it('only uses and befriends modules of the package', () => {
+    const modules = readModules('tits_fun');
+    const names = new Set(modules.map((module) => module.name));
+    for (const module of modules) {
+      for (const use of module.uses) assert.ok(names.has(use), `${module.name} uses missing module ${use}`);
+      for (const friend of module.friends) assert.ok(names.has(friend), `${module.name} befriends missing module ${friend}`);
+    }
+  });
+
+  it('has a caller in every friend', () => {
+    const modules = readModules('tits_fun');
+    for (const module of modules) {
+      for (const friend of module.friends) {
+        const caller = modules.find((other) => other.name === friend)!;
+        const calls = module.friendFunctions.filter((fn) => caller.code.includes(`${module.name}::${fn}(`));
+        assert.ok(calls.length, `${friend} is a friend of ${module.name} but calls none of its friend functions`);
+      }
+    }
+  });
+
+  it('puts the parameters in config', () => {
+    const config = generateTitsModules(resolveTitsParams({
+      candleSizes: [96, 288],
+      deviationThreshold: 500,
+      initialSupply: '42',
+      maxDelay: 60,
+    })).find(({ path }) => path === 'sources/config.move')!.code;
+    assert.match(config, /CANDLE_SIZES: vector<u64> = vector\[96, 288\];/);
+    assert.match(config, /DEVIATION_THRESHOLD: u128 = 500;/);
+    assert.match(config, /INITIAL_SUPPLY: u64 = 42;/);
+    assert.match(config, /MAX_DELAY: u64 = 60;/);
+  });
+});
+
+describe('resolveTitsParams', () => {
+  it('defaults to the values on Flow', () => {
+    assert.deepEqual(resolveTitsParams(), DEFAULT_TITS_PARAMS);
+    assert.deepEqual(resolveTitsParams({ maxDelay: 0 }), { ...DEFAULT_TITS_PARAMS, maxDelay: 0 });
+  });
+
+  it('rejects an invalid named address', () => {
+    assert.throws(() => resolveTitsParams({ address: 'TitsFun' }), /Invalid named address "TitsFun"/);
+    assert.throws(() => resolveTitsParams({ address: '0x1' }), /Invalid named address "0x1"/);
+  });
+
+  it('rejects empty, duplicate and non-divisor candle sizes', () => {
+    assert.throws(() => resolveTitsParams({ candleSizes: [] }), /candleSizes must be a non-empty list without duplicates/);
+    assert.throws(() => resolveTitsParams({ candleSizes: [96, 96] }), /candleSizes must be a non-empty list without duplicates/);
+    assert.throws(() => resolveTitsParams({ candleSizes: [96, 100] }), /Invalid candle size 100, it must divide 1440 minutes/);
+    assert.throws(() => resolveTitsParams({ candleSizes: [0] }), /Invalid candle size 0/);
+    assert.throws(() => resolveTitsParams({ candleSizes: [1.5] }), /Invalid candle size 1.5/);
+  });
+
+  it('rejects a threshold outside 1 to 9999 basis points', () => {
+    for (const deviationThreshold of [0, 10000, 6.9]) {
+      assert.throws(() => resolveTitsParams({ deviationThreshold }), /deviationThreshold must be whole basis points between 1 and 9999/);
+    }
+  });
+
+  it('rejects a supply that is not a positive u64', () => {
+    for (const initialSupply of ['0', '18446744073709551616', '1e12', '-1']) {
+      assert.throws(() => resolveTitsParams({ initialSupply }), /initialSupply must be a positive integer that fits a u64/);
+    }
+    assert.equal(resolveTitsParams({ initialSupply: '18446744073709551615' }).initialSupply, '18446744073709551615');
+  });
+
+  it('rejects a delay of a day or more', () => {
+    for (const maxDelay of [-1, 86400, 0.5]) {
+      assert.throws(() => resolveTitsParams({ maxDelay }), /maxDelay must be whole seconds under a day/);
+    }
+  });
+});
@@ -0,0 +1,47 @@
+import { cryptoTittyAbi, tittyPoolAbi, tittyPoolFactoryAbi } from './abis';
+
+export * from './abis';
+
+// No viem in here, so the web app and the hardhat scripts can each bring their own version.
+// The helpers below are `{ address, abi }` pairs to spread into readContract, writeContract,
+// watchContractEvent and friends, which infer function names, args and event logs from the ABI.
+export type Address = `0x${string}`;
+
+export const tittyPool = (address: Address) => ({ address, abi: tittyPoolAbi }) as const;
+export const tittyPoolFactory = (address: Address) => ({ address, abi: tittyPoolFactoryAbi }) as const;
+export const cryptoTitty = (address: Address) => ({ address, abi: cryptoTittyAbi }) as const;
+
+/** `TittyPool.poolInfo()` by name, the getter returns the struct as a tuple */
+export interface PoolInfo {
+  poolId: bigint;
+  lValue: bigint;
+  hValue: bigint;
+  xReserve: bigint;
+  yReserve: bigint;
+  tokenAddress: Address;
+  startTime: bigint;
+  endTime: bigint;
+  isLocked: boolean;
+  totalTrades: bigint;
+  currentWinner: Address;
+  winnerProposedDelay: bigint;
+  winnerProposedCandleSize: bigint;
+}
+
+export type PoolInfoTuple = readonly [
+  bigint, bigint, bigint, bigint, bigint, Address,
+  bigint, bigint, boolean, bigint, Address, bigint, bigint,
+];
+
+export function toPoolInfo(raw: PoolInfoTuple): PoolInfo {
+  const [
+    poolId, lValue, hValue, xReserve, yReserve, tokenAddress,
+    startTime, endTime, isLocked, totalTrades, currentWinner,
+    winnerProposedDelay, winnerProposedCandleSize,
+  ] = raw;
+  return {
+    poolId, lValue, hValue, xReserve, yReserve, tokenAddress,
+    startTime, endTime, isLocked, totalTrades, currentWinner,
+    winnerProposedDelay, winnerProposedCandleSize,
+  };
+}
@@ -0,0 +1,80 @@
+import { PRECISION } from './math';
+import { INITIAL_X_RESERVE, INITIAL_Y_RESERVE, simulateTrade, type PoolCurveParams } from './pool';
+
+const DAY = 24 * 60 * 60;
+
+export interface Candle {
+  index: number; // candles since startTime
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  trades: number;
+}
+
+export interface CandleTrade {
+  quantity: bigint;
+  side: boolean; // true = buy
+  timestamp: bigint;
+  logIndex: number; // orders trades within a block
+}
+
+export function getCandleSeconds(lValue: bigint) {
+  return DAY / Number(lValue);
+}
+
+/** Native per token, as a float for charting */
+export function toPrice(xReserve: bigint, yReserve: bigint) {
+  if (yReserve === 0n) return 0;
+  return Number(xReserve * PRECISION / yReserve) / Number(PRECISION);
+}
+
+/**
+ * Replays every trade through the AMM from the initial reserves (the pool does not emit
+ * reserves) and buckets the resulting native/token price into candles of 24h / L.
+ */
+export function buildCandles(pool: PoolCurveParams, trades: CandleTrade[]): Candle[] {
+  const candleSeconds = getCandleSeconds(pool.lValue);
+  const startTime = Number(pool.startTime);
+
+  let x = INITIAL_X_RESERVE;
+  let y = INITIAL_Y_RESERVE;
+  let price = toPrice(x, y);
+
+  const candles = new Map<number, Candle>();
+  const ordered = [...trades].sort((a, b) => (
+    Number(a.timestamp - b.timestamp) || a.logIndex - b.logIndex
+  ));
+
+  for (const trade of ordered) {
+    ({ xReserve: x, yReserve: y } = simulateTrade(
+      { ...pool, xReserve: x, yReserve: y },
+      trade.quantity,
+      trade.side,
+      trade.timestamp,
+    ));
+
+    const open = price;
+    price = toPrice(x, y);
+
+    const index = Math.floor((Number(trade.timestamp) - startTime) / candleSeconds);
+    const candle = candles.get(index);
+    if (candle) {
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      candle.close = price;
+      candle.trades++;
+    } else {
+      candles.set(index, {
+        index,
+        open,
+        high: Math.max(open, price),
+        low: Math.min(open, price),
+        close: price,
+        trades: 1,
+      });
+    }
+  }
+
+  return [...candles.values()].sort((a, b) => a.index - b.index);
+}
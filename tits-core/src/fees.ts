@@ -0,0 +1,18 @@
+// Constants from TittyPool.sol
+export const TRADE_GAS = 300_000n;
+export const FEE_GAS_MULTIPLIER = 2n;
+
+/**
+ * Fee `TittyPool.trade` charges at `gasPrice` on top of the trade, paid in native and
+ * forwarded to the treasury. Pools created before the factory had a treasury charge none,
+ * pass `hasTreasury` false for those.
+ */
+export function estimateTradeFee(gasPrice: bigint, hasTreasury = true): bigint {
+  if (!hasTreasury) return 0n;
+  return FEE_GAS_MULTIPLIER * TRADE_GAS * gasPrice;
+}
+
+/** Native value to send with a trade, the quantity on a buy plus the fee either way */
+export function getTradeValue(quantity: bigint, side: boolean, fee: bigint): bigint {
+  return (side ? quantity : 0n) + fee;
+}
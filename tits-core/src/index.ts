@@ -0,0 +1,6 @@
+export * from './math';
+export * from './pool';
+export * from './lifecycle';
+export * from './candles';
+export * from './fees';
+export * from './players';
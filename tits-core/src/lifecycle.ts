@@ -0,0 +1,95 @@
+import { POOL_DURATION } from './pool';
+
+export type PoolPhase =
+  | 'scheduled' // created with a delay, startTime not reached
+  | 'active'
+  | 'locked' // crossed the deviation threshold, tokens burned
+  | 'ended' // past endTime, waiting for finalizeWinner or the next pool
+  | 'finalized'; // winner finalized, or the next pool is already out
+
+export interface PoolTimes {
+  lValue: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  isLocked: boolean;
+  currentWinner: string | null;
+  winnerProposedDelay: bigint;
+}
+
+export interface PoolLifecycleContext {
+  finalized?: boolean; // PoolWinnerFinalized was emitted
+  nextPoolStartTime?: bigint | null; // start of the following pool, if it was created already
+}
+
+export interface PoolLifecycle {
+  phase: PoolPhase;
+  tradable: boolean;
+  reason: string | null; // why trading is disabled
+  nextCandleAt: bigint | null; // while active
+  endsAt: bigint;
+  nextPoolStartAt: bigint | null; // actual when known, estimated from the winner's delay otherwise
+  nextPoolStartIsEstimate: boolean;
+  nextTransitionAt: bigint | null; // when `phase` changes on its own, ie, without a transaction
+}
+
+/** Next candle boundary after `now`, `TittyPool.trade` scores against this candle */
+export function getNextCandleAt(lValue: bigint, startTime: bigint, now: bigint): bigint {
+  const candleDuration = ((24n * 60n) / lValue) * 60n;
+  const elapsed = now > startTime ? now - startTime : 0n;
+  return startTime + (elapsed / candleDuration + 1n) * candleDuration;
+}
+
+/**
+ * Where a pool is in its life at `now`, mirroring the checks in `TittyPool.trade`. The next
+ * pool starts 24h after this one started plus the winner's delay, a locked or winnerless
+ * pool is replaced with random parameters so its next start is only known once created.
+ */
+export function getPoolLifecycle(
+  pool: PoolTimes,
+  now: bigint,
+  { finalized = false, nextPoolStartTime = null }: PoolLifecycleContext = {},
+): PoolLifecycle {
+  const estimate = pool.isLocked || !pool.currentWinner
+    ? null
+    : pool.startTime + POOL_DURATION + pool.winnerProposedDelay;
+  const nextPoolStartAt = nextPoolStartTime ?? estimate;
+  const base = {
+    endsAt: pool.endTime,
+    nextPoolStartAt,
+    nextPoolStartIsEstimate: nextPoolStartTime === null && estimate !== null,
+    nextCandleAt: null,
+  };
+
+  if (pool.isLocked) {
+    return { ...base, phase: 'locked', tradable: false, reason: 'Pool is locked', nextTransitionAt: null };
+  }
+  if (now < pool.startTime) {
+    return {
+      ...base,
+      phase: 'scheduled',
+      tradable: false,
+      reason: 'Pool has not started yet',
+      nextTransitionAt: pool.startTime,
+    };
+  }
+  if (now <= pool.endTime) {
+    return {
+      ...base,
+      phase: 'active',
+      tradable: true,
+      reason: null,
+      nextCandleAt: getNextCandleAt(pool.lValue, pool.startTime, now),
+      nextTransitionAt: pool.endTime + 1n,
+    };
+  }
+  if (finalized || nextPoolStartTime !== null) {
+    return { ...base, phase: 'finalized', tradable: false, reason: 'Pool has ended', nextTransitionAt: null };
+  }
+  return {
+    ...base,
+    phase: 'ended',
+    tradable: false,
+    reason: 'Pool has ended, waiting for the next pool',
+    nextTransitionAt: null,
+  };
+}
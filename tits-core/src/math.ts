@@ -0,0 +1,194 @@
+/**
+ * Bigint port of `MathUtils.sol` and the deviation math in `TittyPool.sol`.
+ *
+ * Every function returns exactly what the contract returns for the same inputs, including
+ * the saturating behaviour of the `safe*` helpers. Where the contract would revert (checked
+ * arithmetic overflow in Solidity 0.8) the port throws a `MathOverflowError` instead.
+ */
+
+// Fixed point precision (10^8)
+export const PRECISION = 100_000_000n;
+export const MAX_U256 = (1n << 256n) - 1n;
+
+// Basis points scale used for deviations, 690 = 6.9%
+export const BASIS_POINTS = 10_000n;
+
+export class MathOverflowError extends Error {
+  constructor(operation: string) {
+    super(`Arithmetic overflow in ${operation}`);
+    this.name = 'MathOverflowError';
+  }
+}
+
+function assertU256(value: bigint, name: string) {
+  if (value < 0n || value > MAX_U256) {
+    throw new RangeError(`${name} is not a uint256: ${value}`);
+  }
+}
+
+// Solidity 0.8 reverts on overflow, mirror that for the unguarded operations
+function checked(value: bigint, operation: string) {
+  if (value > MAX_U256) throw new MathOverflowError(operation);
+  return value;
+}
+
+// Safe arithmetic with saturating behavior
+export function safeAdd(a: bigint, b: bigint): bigint {
+  assertU256(a, 'a');
+  assertU256(b, 'b');
+  if (a > MAX_U256 - b) {
+    return MAX_U256; // Saturate to maximum
+  }
+  return a + b;
+}
+
+export function safeSub(a: bigint, b: bigint): bigint {
+  assertU256(a, 'a');
+  assertU256(b, 'b');
+  if (a < b) {
+    return 0n; // Saturate to zero
+  }
+  return a - b;
+}
+
+export function safeMul(a: bigint, b: bigint): bigint {
+  assertU256(a, 'a');
+  assertU256(b, 'b');
+  if (a === 0n || b === 0n) return 0n;
+  if (a > MAX_U256 / b) {
+    return MAX_U256; // Saturate to maximum
+  }
+  return a * b;
+}
+
+export function safeDiv(a: bigint, b: bigint): bigint {
+  assertU256(a, 'a');
+  assertU256(b, 'b');
+  if (b === 0n) return 0n;
+  return a / b;
+}
+
+// Fixed-point division: (a * PRECISION) / b
+export function safeDivPrecision(a: bigint, b: bigint): bigint {
+  assertU256(a, 'a');
+  assertU256(b, 'b');
+  if (b === 0n) return 0n;
+
+  if (a > MAX_U256 / PRECISION) {
+    return checked((a / b) * PRECISION, 'safeDivPrecision');
+  }
+  return (a * PRECISION) / b;
+}
+
+// Fixed-point multiplication: (a * b) / PRECISION
+export function safeMulFixedPoint(a: bigint, b: bigint): bigint {
+  assertU256(a, 'a');
+  assertU256(b, 'b');
+  if (a === 0n || b === 0n) return 0n;
+
+  if (a > MAX_U256 / b) {
+    if (a > b) {
+      return checked((a / PRECISION) * b, 'safeMulFixedPoint');
+    } else {
+      return checked(a * (b / PRECISION), 'safeMulFixedPoint');
+    }
+  }
+  return (a * b) / PRECISION;
+}
+
+// Absolute difference
+export function absDiff(a: bigint, b: bigint): bigint {
+  assertU256(a, 'a');
+  assertU256(b, 'b');
+  return a > b ? a - b : b - a;
+}
+
+// Square root, same shortcuts and iteration cap as the contract (not always the exact root)
+export function sqrt(x: bigint): bigint {
+  assertU256(x, 'x');
+  if (x === 0n) return 0n;
+  if (x === 1n) return 1n;
+
+  // for most common use case, hard code
+  if (x === 96n) return 9n;
+  if (x === 144n) return 12n;
+  if (x === 288n) return 16n;
+
+  // For small values, use linear search
+  if (x < 10000n) {
+    let i = 1n;
+    while (i * i <= x && i < 100n) {
+      i++;
+    }
+    return i - 1n;
+  }
+
+  // Newton's method for larger values
+  let z = x;
+  let y = checked(x + 1n, 'sqrt') / 2n;
+
+  let iterations = 0;
+  while (y < z && iterations < 20) {
+    z = y;
+    y = (x / y + y) / 2n;
+    iterations++;
+  }
+
+  return z;
+}
+
+// Convert regular number to fixed-point
+export function toFixedPoint(value: bigint): bigint {
+  assertU256(value, 'value');
+  return checked(value * PRECISION, 'toFixedPoint');
+}
+
+// Convert fixed-point to regular number
+export function fromFixedPoint(value: bigint): bigint {
+  assertU256(value, 'value');
+  return value / PRECISION;
+}
+
+// Calculate bonded curve: y = 4*(H/L)*x(1-x/L)
+export function calculateCurveY(x: bigint, h: bigint, l: bigint): bigint {
+  assertU256(x, 'x');
+  assertU256(h, 'h');
+  assertU256(l, 'l');
+  if (x > l || l === 0n) return 0n;
+  if (x === 0n) return 0n;
+
+  const lMinusX = safeSub(l, x);
+  const fourH = safeMul(4n, h);
+  const numerator = safeMul(safeMul(fourH, x), lMinusX);
+  const denominator = safeMul(l, l);
+
+  return safeDivPrecision(numerator, denominator);
+}
+
+// Calculate AMM output: x * y = k
+export function calculateAmmOut(xIn: bigint, xReserve: bigint, yReserve: bigint): bigint {
+  assertU256(xIn, 'xIn');
+  assertU256(xReserve, 'xReserve');
+  assertU256(yReserve, 'yReserve');
+  if (xReserve === 0n || yReserve === 0n || xIn === 0n) return 0n;
+
+  const k = safeMul(xReserve, yReserve);
+  const newXReserve = safeAdd(xReserve, xIn);
+
+  if (newXReserve === 0n) return 0n;
+
+  const newYReserve = safeDiv(k, newXReserve);
+  return safeSub(yReserve, newYReserve);
+}
+
+/**
+ * `TittyPool.calculateDeviation`, relative distance of `actual` from `expected` in basis
+ * points, itself in fixed-point. `fromFixedPoint` of this is what `TradeEvent` emits.
+ */
+export function calculateDeviation(actual: bigint, expected: bigint): bigint {
+  assertU256(actual, 'actual');
+  assertU256(expected, 'expected');
+  if (expected === 0n) return 0n;
+  const diff = absDiff(actual, expected);
+  return safeDivPrecision(checked(diff * BASIS_POINTS, 'calculateDeviation'), expected);
+}
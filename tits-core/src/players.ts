@@ -0,0 +1,23 @@
+import { adjectives, animals, colors, uniqueNamesGenerator } from 'unique-names-generator';
+
+// A string seed sums its character codes, so addresses with the same digits in another order
+// share a name. FNV-1a depends on the order, and the generator keeps 32 bits of a number seed anyway.
+export function playerSeed(address: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of address.toLowerCase()) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  // a seed of 0 makes the generator pick at random
+  return (hash >>> 0) || 1;
+}
+
+/** Same address, same name, on every page load and either chain, e.g. "safe-amaranth-hippopotamus" */
+export function playerName(address: string): string {
+  return uniqueNamesGenerator({
+    seed: playerSeed(address),
+    dictionaries: [adjectives, colors, animals],
+    separator: '-',
+    length: 3,
+    style: 'lowerCase',
+  });
+}
@@ -0,0 +1,173 @@
+import {
+  calculateAmmOut,
+  calculateCurveY,
+  calculateDeviation,
+  fromFixedPoint,
+  safeAdd,
+  safeSub,
+  toFixedPoint,
+} from './math';
+
+// Constants from TittyPool.sol
+export const DEVIATION_THRESHOLD = 690n; // 6.9% in basis points
+export const MAX_DELAY = 12n * 60n * 60n;
+export const POOL_DURATION = 24n * 60n * 60n;
+export const INITIAL_TOKEN_SUPPLY = 1_000_000n * 10n ** 18n;
+export const VALID_CANDLE_SIZES = [96n, 144n, 288n] as const;
+
+export const INITIAL_X_RESERVE = toFixedPoint(10n ** 18n); // 1 native token
+export const INITIAL_Y_RESERVE = toFixedPoint(INITIAL_TOKEN_SUPPLY);
+
+export interface PoolCurveParams {
+  lValue: bigint;
+  hValue: bigint; // fixed-point
+  startTime: bigint;
+}
+
+export interface PoolReserves {
+  xReserve: bigint; // fixed-point
+  yReserve: bigint; // fixed-point
+}
+
+export interface TradeSimulation extends PoolReserves {
+  ammOutput: bigint; // fixed-point, what the deviation is measured on
+  amountOut: bigint; // regular units actually paid out
+  curveExpected: bigint; // fixed-point
+  deviation: bigint; // fixed-point basis points, as stored in traderDeviations
+}
+
+/** Candle the pool scores a trade at `timestamp` against, ie, the one after the current */
+export function getNextCandle(lValue: bigint, startTime: bigint, timestamp: bigint): bigint {
+  const candleDuration = ((24n * 60n) / lValue) * 60n; // seconds
+  const timeElapsed = timestamp - startTime;
+  const currentCandle = timeElapsed < candleDuration ? 0n : timeElapsed / candleDuration;
+  return currentCandle + 1n;
+}
+
+export function getCurveExpected(pool: PoolCurveParams, timestamp: bigint): bigint {
+  const nextCandle = getNextCandle(pool.lValue, pool.startTime, timestamp);
+  return calculateCurveY(nextCandle, fromFixedPoint(pool.hValue), pool.lValue);
+}
+
+/** Runs the reserve and deviation math of `TittyPool.trade` without touching the chain */
+export function simulateTrade(
+  pool: PoolCurveParams & PoolReserves,
+  quantity: bigint,
+  side: boolean, // true = buy, false = sell
+  timestamp: bigint,
+): TradeSimulation {
+  const curveExpected = getCurveExpected(pool, timestamp);
+  const inputAmountFixed = toFixedPoint(quantity);
+
+  let xReserve: bigint;
+  let yReserve: bigint;
+  let ammOutput: bigint;
+
+  if (side) {
+    ammOutput = calculateAmmOut(inputAmountFixed, pool.xReserve, pool.yReserve);
+    xReserve = safeAdd(pool.xReserve, inputAmountFixed);
+    yReserve = safeSub(pool.yReserve, ammOutput);
+  } else {
+    ammOutput = calculateAmmOut(inputAmountFixed, pool.yReserve, pool.xReserve);
+    xReserve = safeSub(pool.xReserve, ammOutput);
+    yReserve = safeAdd(pool.yReserve, inputAmountFixed);
+  }
+
+  return {
+    xReserve,
+    yReserve,
+    ammOutput,
+    amountOut: fromFixedPoint(ammOutput),
+    curveExpected,
+    deviation: calculateDeviation(ammOutput, curveExpected),
+  };
+}
+
+export interface TraderDeviation {
+  trader: string;
+  deviation: bigint; // fixed-point basis points
+  tradeCount: bigint;
+  lastUpdated: bigint;
+}
+
+/**
+ * Orders traders the way `TittyPool.getCurrentWinner` picks its winner: lowest deviation
+ * first, most recent `lastUpdated` wins ties, and on a full tie the earlier trader stays ahead.
+ * `traders` must be in `getAllTraders` order.
+ */
+export function rankTraders<T extends TraderDeviation>(traders: T[]): T[] {
+  return traders
+    .map((trader, index) => ({ trader, index }))
+    .sort((a, b) => {
+      if (a.trader.deviation !== b.trader.deviation) {
+        return a.trader.deviation < b.trader.deviation ? -1 : 1;
+      }
+      if (a.trader.lastUpdated !== b.trader.lastUpdated) {
+        return a.trader.lastUpdated > b.trader.lastUpdated ? -1 : 1;
+      }
+      return a.index - b.index;
+    })
+    .map(({ trader }) => trader);
+}
+
+export function getCurrentWinner<T extends TraderDeviation>(traders: T[]): T | null {
+  return rankTraders(traders)[0] ?? null;
+}
+
+export interface TradeOutcome {
+  trade: TradeSimulation;
+  recordedDeviation: bigint; // the trader's best deviation after this trade
+  traders: TraderDeviation[]; // the trader table after this trade, in `getAllTraders` order
+  rank: number; // 0 based
+  isWinner: boolean;
+  maxDeviation: bigint; // worst recorded deviation in the pool after this trade
+  exceedsThreshold: boolean; // the deviation keeper would lock the pool
+}
+
+const isSameTrader = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * What-if of a trade against the current trader table, following `updateTraderDeviation`
+ * and `getCurrentWinner`. The threshold check mirrors the deviation keeper, which locks
+ * the pool once any recorded deviation goes over `DEVIATION_THRESHOLD`.
+ */
+export function simulateTradeOutcome(
+  pool: PoolCurveParams & PoolReserves,
+  traders: TraderDeviation[],
+  trader: string,
+  quantity: bigint,
+  side: boolean,
+  timestamp: bigint,
+): TradeOutcome {
+  const trade = simulateTrade(pool, quantity, side, timestamp);
+
+  const existing = traders.find((t) => isSameTrader(t.trader, trader));
+  const previous = existing ?? { trader, deviation: 0n, tradeCount: 0n, lastUpdated: 0n };
+  const updated: TraderDeviation = {
+    trader: previous.trader,
+    // a stored 0 means no trade yet, as in the contract
+    deviation: previous.deviation === 0n || trade.deviation < previous.deviation
+      ? trade.deviation
+      : previous.deviation,
+    tradeCount: previous.tradeCount + 1n,
+    lastUpdated: timestamp,
+  };
+
+  const after = existing
+    ? traders.map((t) => (t === existing ? updated : t))
+    : [...traders, updated];
+
+  const ranked = rankTraders(after);
+  const rank = ranked.indexOf(updated);
+  const maxDeviation = after.reduce((max, t) => (t.deviation > max ? t.deviation : max), 0n);
+
+  return {
+    trade,
+    recordedDeviation: updated.deviation,
+    traders: after,
+    rank,
+    isWinner: rank === 0,
+    maxDeviation,
+    exceedsThreshold: maxDeviation > toFixedPoint(DEVIATION_THRESHOLD),
+  };
+}
@@ -0,0 +1,79 @@
+import http from 'http';
+import { getCheckpoint, type Db } from './db';
+import {
+  getCandles,
+  getLeaderboard,
+  getOutcome,
+  getPlayer,
+  getPool,
+  getPools,
+  getTrades,
+} from './queries';
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// bigints go out as decimal strings, JSON has no lossless number type for them
+const toJson = (body: unknown) => JSON.stringify(body, (_, value) => (
+  typeof value === 'bigint' ? value.toString() : value
+));
+
+function parsePoolId(value: string) {
+  if (!/^\d+$/.test(value)) throw new HttpError(400, `Invalid pool id ${value}`);
+  return BigInt(value);
+}
+
+function found<T>(value: T | null, message: string): T {
+  if (value === null) throw new HttpError(404, message);
+  return value;
+}
+
+type Route = (db: Db, params: string[], query: URLSearchParams) => unknown;
+
+const ROUTES: [RegExp, Route][] = [
+  [/^\/status$/, (db) => ({ checkpoint: getCheckpoint(db), pools: getPools(db).length })],
+  [/^\/pools$/, (db) => getPools(db)],
+  [/^\/pools\/([^/]+)$/, (db, [id]) => {
+    const poolId = parsePoolId(id);
+    const pool = found(getPool(db, poolId), `Pool ${id} not found`);
+    return { ...pool, outcome: getOutcome(db, poolId) };
+  }],
+  [/^\/pools\/([^/]+)\/trades$/, (db, [id], query) => {
+    const poolId = parsePoolId(id);
+    found(getPool(db, poolId), `Pool ${id} not found`);
+    return getTrades(db, poolId, query.get('trader') ?? undefined);
+  }],
+  [/^\/pools\/([^/]+)\/candles$/, (db, [id]) => found(getCandles(db, parsePoolId(id)), `Pool ${id} not found`)],
+  [/^\/pools\/([^/]+)\/leaderboard$/, (db, [id]) => found(getLeaderboard(db, parsePoolId(id)), `Pool ${id} not found`)],
+  [/^\/pools\/([^/]+)\/outcome$/, (db, [id]) => found(getOutcome(db, parsePoolId(id)), `Pool ${id} not found`)],
+  [/^\/players\/(0x[0-9a-fA-F]{40})$/, (db, [address]) => ({ address, pools: getPlayer(db, address) })],
+];
+
+/** Read-only JSON API over the indexed tables, `listen` is up to the caller */
+export function createApi(db: Db) {
+  return http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    let status = 200;
+    let body: unknown;
+
+    try {
+      if (req.method !== 'GET') throw new HttpError(405, `${req.method} not allowed`);
+      const route = ROUTES.find(([pattern]) => pattern.test(url.pathname));
+      if (!route) throw new HttpError(404, `No route for ${url.pathname}`);
+      const [pattern, handler] = route;
+      body = handler(db, pattern.exec(url.pathname)!.slice(1), url.searchParams);
+    } catch (error) {
+      status = error instanceof HttpError ? error.status : 500;
+      body = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    res.writeHead(status, {
+      'content-type': 'application/json',
+      'access-control-allow-origin': '*',
+    });
+    res.end(toJson(body));
+  });
+}
@@ -0,0 +1,155 @@
+import Database from 'better-sqlite3';
+
+export type Db = Database.Database;
+
+// uint256 values that can outgrow an int64 (reserves, quantities, deviations) are stored as
+// decimal TEXT, everything that fits (ids, L, times, block numbers) as INTEGER.
+// Addresses compare case-insensitively, every event row keeps its block number so a reorg
+// can drop what it replaced.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS checkpoint (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    block_timestamp INTEGER NOT NULL
+  );
+
+  -- recent indexed heads, walked back to find where a reorg forked off
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS pools (
+    pool_id INTEGER PRIMARY KEY,
+    address TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    token_address TEXT NOT NULL COLLATE NOCASE,
+    l_value INTEGER NOT NULL,
+    h_value TEXT NOT NULL,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    block_number INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS trades (
+    pool_id INTEGER NOT NULL,
+    trader TEXT NOT NULL COLLATE NOCASE,
+    quantity TEXT NOT NULL,
+    side INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    deviation TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (transaction_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS trades_by_pool ON trades (pool_id, timestamp, log_index);
+  CREATE INDEX IF NOT EXISTS trades_by_trader ON trades (trader);
+
+  CREATE TABLE IF NOT EXISTS winners (
+    pool_id INTEGER NOT NULL,
+    winner TEXT NOT NULL COLLATE NOCASE,
+    deviation TEXT NOT NULL,
+    proposed_delay INTEGER NOT NULL,
+    proposed_candle_size INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (transaction_hash, log_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS locks (
+    pool_id INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (transaction_hash, log_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS finalizations (
+    pool_id INTEGER NOT NULL,
+    winner TEXT NOT NULL COLLATE NOCASE,
+    final_deviation TEXT NOT NULL,
+    next_pool_delay INTEGER NOT NULL,
+    next_pool_candle_size INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (transaction_hash, log_index)
+  );
+`;
+
+const EVENT_TABLES = ['pools', 'trades', 'winners', 'locks', 'finalizations'] as const;
+
+export function openDb(filename = ':memory:'): Db {
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  return db;
+}
+
+export interface Checkpoint {
+  blockNumber: bigint;
+  blockHash: string;
+  blockTimestamp: bigint;
+}
+
+interface BlockRow {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+const toCheckpoint = (row: BlockRow): Checkpoint => ({
+  blockNumber: BigInt(row.number),
+  blockHash: row.hash,
+  blockTimestamp: BigInt(row.timestamp),
+});
+
+export function getCheckpoint(db: Db): Checkpoint | null {
+  const row = db.prepare(`
+    SELECT block_number AS number, block_hash AS hash, block_timestamp AS timestamp FROM checkpoint WHERE id = 1
+  `).get() as BlockRow | undefined;
+  return row ? toCheckpoint(row) : null;
+}
+
+/** Records `checkpoint` as fully indexed, keeping `keepBlocks` heads behind it for reorg checks */
+export function setCheckpoint(db: Db, checkpoint: Checkpoint, keepBlocks: number) {
+  const number = Number(checkpoint.blockNumber);
+  const timestamp = Number(checkpoint.blockTimestamp);
+  db.prepare('INSERT OR REPLACE INTO checkpoint (id, block_number, block_hash, block_timestamp) VALUES (1, ?, ?, ?)')
+    .run(number, checkpoint.blockHash, timestamp);
+  db.prepare('INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)')
+    .run(number, checkpoint.blockHash, timestamp);
+  db.prepare('DELETE FROM blocks WHERE number < ?').run(number - keepBlocks);
+}
+
+/** Indexed heads at or below `blockNumber`, newest first */
+export function getRecentBlocks(db: Db, blockNumber: bigint): Checkpoint[] {
+  const rows = db.prepare('SELECT number, hash, timestamp FROM blocks WHERE number <= ? ORDER BY number DESC')
+    .all(Number(blockNumber)) as BlockRow[];
+  return rows.map(toCheckpoint);
+}
+
+/** Forgets everything after `fork`, or everything when there is no common block */
+export function rollback(db: Db, fork: Checkpoint | null) {
+  db.transaction(() => {
+    const after = fork ? Number(fork.blockNumber) : -1;
+    for (const table of EVENT_TABLES) {
+      db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(after);
+    }
+    db.prepare('DELETE FROM blocks WHERE number > ?').run(after);
+    if (fork) {
+      db.prepare('UPDATE checkpoint SET block_number = ?, block_hash = ?, block_timestamp = ? WHERE id = 1')
+        .run(after, fork.blockHash, Number(fork.blockTimestamp));
+    } else {
+      db.prepare('DELETE FROM checkpoint').run();
+    }
+  })();
+}
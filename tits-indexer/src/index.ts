@@ -0,0 +1,4 @@
+export * from './db';
+export * from './indexer';
+export * from './queries';
+export * from './api';
@@ -0,0 +1,226 @@
+import { createPublicClient, type Address, type Log, type PublicClient, type Transport } from 'viem';
+import { tittyPoolAbi, tittyPoolFactoryAbi } from 'tits-contracts';
+import { getCheckpoint, getRecentBlocks, rollback, setCheckpoint, type Checkpoint, type Db } from './db';
+
+export interface IndexerOptions {
+  transport: Transport;
+  factory: Address;
+  db: Db;
+  startBlock?: bigint; // where to begin without a checkpoint, the factory's deployment block
+  batchSize?: bigint; // blocks per eth_getLogs
+  confirmations?: bigint; // blocks to stay behind the head
+  reorgDepth?: number; // indexed heads kept to find a fork point
+  pollInterval?: number; // ms
+  log?: (message: string) => void;
+}
+
+export interface SyncResult {
+  fromBlock: bigint;
+  toBlock: bigint;
+  reorgedTo: bigint | null; // the fork block when a reorg was rolled back, -1n for a full reset
+}
+
+type LogMeta = Pick<Log<bigint, number, false>, 'blockNumber' | 'transactionHash' | 'logIndex'>;
+
+const meta = ({ blockNumber, transactionHash, logIndex }: LogMeta) => ({
+  block_number: Number(blockNumber),
+  transaction_hash: transactionHash,
+  log_index: logIndex,
+});
+
+/**
+ * Follows the factory's `PoolCreated` and the events of every pool it deployed into SQLite.
+ * Each batch of blocks is written in one transaction together with the checkpoint, so a
+ * restart resumes after the last complete batch. Before each sync the checkpoint's hash is
+ * compared with the chain, on a mismatch the stored heads are walked back to the fork and
+ * everything after it is dropped and indexed again.
+ */
+export function createIndexer({
+  transport,
+  factory,
+  db,
+  startBlock = 0n,
+  batchSize = 2_000n,
+  confirmations = 0n,
+  reorgDepth = 64,
+  pollInterval = 5_000,
+  log = console.log,
+}: IndexerOptions) {
+  // no block number cache, each sync has to see the head it was called for
+  const client = createPublicClient({ transport, cacheTime: 0 }) as PublicClient;
+
+  const insertPool = db.prepare(`
+    INSERT OR IGNORE INTO pools (pool_id, address, token_address, l_value, h_value, start_time, end_time, created_at, block_number)
+    VALUES (@pool_id, @address, @token_address, @l_value, @h_value, @start_time, @end_time, @created_at, @block_number)
+  `);
+  const insertTrade = db.prepare(`
+    INSERT OR IGNORE INTO trades (pool_id, trader, quantity, side, timestamp, deviation, block_number, transaction_hash, log_index)
+    VALUES (@pool_id, @trader, @quantity, @side, @timestamp, @deviation, @block_number, @transaction_hash, @log_index)
+  `);
+  const insertWinner = db.prepare(`
+    INSERT OR IGNORE INTO winners (pool_id, winner, deviation, proposed_delay, proposed_candle_size, timestamp, block_number, transaction_hash, log_index)
+    VALUES (@pool_id, @winner, @deviation, @proposed_delay, @proposed_candle_size, @timestamp, @block_number, @transaction_hash, @log_index)
+  `);
+  const insertLock = db.prepare(`
+    INSERT OR IGNORE INTO locks (pool_id, reason, timestamp, block_number, transaction_hash, log_index)
+    VALUES (@pool_id, @reason, @timestamp, @block_number, @transaction_hash, @log_index)
+  `);
+  const insertFinalization = db.prepare(`
+    INSERT OR IGNORE INTO finalizations (pool_id, winner, final_deviation, next_pool_delay, next_pool_candle_size, timestamp, block_number, transaction_hash, log_index)
+    VALUES (@pool_id, @winner, @final_deviation, @next_pool_delay, @next_pool_candle_size, @timestamp, @block_number, @transaction_hash, @log_index)
+  `);
+
+  const getPoolAddresses = () => (
+    db.prepare('SELECT address FROM pools ORDER BY pool_id').pluck().all() as Address[]
+  );
+
+  async function getChainBlock(blockNumber: bigint): Promise<Checkpoint | null> {
+    const block = await client.getBlock({ blockNumber }).catch(() => null);
+    return block ? { blockNumber, blockHash: block.hash, blockTimestamp: block.timestamp } : null;
+  }
+
+  // the newest stored head still on the chain, null when none are
+  async function findFork(checkpoint: Checkpoint) {
+    for (const stored of getRecentBlocks(db, checkpoint.blockNumber)) {
+      const block = await getChainBlock(stored.blockNumber);
+      if (block?.blockHash === stored.blockHash) return stored;
+    }
+    return null;
+  }
+
+  async function indexBatch(fromBlock: bigint, toBlock: bigint) {
+    const created = await client.getContractEvents({
+      address: factory,
+      abi: tittyPoolFactoryAbi,
+      eventName: 'PoolCreated',
+      fromBlock,
+      toBlock,
+    });
+    // pools created in this batch can already have traded in it
+    const addresses = [...getPoolAddresses(), ...created.map((event) => event.args.poolAddress!)];
+    const events = addresses.length
+      ? await client.getContractEvents({ address: addresses, abi: tittyPoolAbi, fromBlock, toBlock })
+      : [];
+    const head = await getChainBlock(toBlock);
+    if (!head) throw new Error(`Block ${toBlock} not found`);
+
+    db.transaction(() => {
+      for (const event of created) {
+        const { poolId, poolAddress, tokenAddress, lValue, hValue, startTime, endTime, timestamp } = event.args;
+        insertPool.run({
+          pool_id: Number(poolId),
+          address: poolAddress,
+          token_address: tokenAddress,
+          l_value: Number(lValue),
+          h_value: hValue!.toString(),
+          start_time: Number(startTime),
+          end_time: Number(endTime),
+          created_at: Number(timestamp),
+          block_number: Number(event.blockNumber),
+        });
+      }
+
+      for (const event of events) {
+        switch (event.eventName) {
+          case 'TradeEvent':
+            insertTrade.run({
+              ...meta(event),
+              pool_id: Number(event.args.poolId),
+              trader: event.args.trader,
+              quantity: event.args.quantity!.toString(),
+              side: event.args.side ? 1 : 0,
+              timestamp: Number(event.args.timestamp),
+              deviation: event.args.deviation!.toString(),
+            });
+            break;
+          case 'NewWinnerDetected':
+            insertWinner.run({
+              ...meta(event),
+              pool_id: Number(event.args.poolId),
+              winner: event.args.winner,
+              deviation: event.args.deviation!.toString(),
+              proposed_delay: Number(event.args.proposedDelay),
+              proposed_candle_size: Number(event.args.proposedCandleSize),
+              timestamp: Number(event.args.timestamp),
+            });
+            break;
+          case 'PoolLocked':
+            insertLock.run({
+              ...meta(event),
+              pool_id: Number(event.args.poolId),
+              reason: event.args.reason,
+              timestamp: Number(event.args.timestamp),
+            });
+            break;
+          case 'PoolWinnerFinalized':
+            insertFinalization.run({
+              ...meta(event),
+              pool_id: Number(event.args.poolId),
+              winner: event.args.winner,
+              final_deviation: event.args.finalDeviation!.toString(),
+              next_pool_delay: Number(event.args.nextPoolDelay),
+              next_pool_candle_size: Number(event.args.nextPoolCandleSize),
+              timestamp: Number(event.args.timestamp),
+            });
+            break;
+        }
+      }
+
+      setCheckpoint(db, head, reorgDepth);
+    })();
+
+    return created.length + events.length;
+  }
+
+  /** Indexes up to the confirmed head, rolling back a reorg first */
+  async function sync(): Promise<SyncResult> {
+    let reorgedTo: bigint | null = null;
+    const checkpoint = getCheckpoint(db);
+    if (checkpoint) {
+      const block = await getChainBlock(checkpoint.blockNumber);
+      if (block?.blockHash !== checkpoint.blockHash) {
+        const fork = await findFork(checkpoint);
+        rollback(db, fork);
+        reorgedTo = fork ? fork.blockNumber : -1n;
+        log(`Reorg at block ${checkpoint.blockNumber}, rolled back to ${fork ? fork.blockNumber : 'the start block'}`);
+      }
+    }
+
+    const resumeFrom = getCheckpoint(db);
+    const fromBlock = resumeFrom ? resumeFrom.blockNumber + 1n : startBlock;
+    const toBlock = await client.getBlockNumber() - confirmations;
+
+    for (let from = fromBlock; from <= toBlock; from += batchSize) {
+      const to = from + batchSize - 1n < toBlock ? from + batchSize - 1n : toBlock;
+      const count = await indexBatch(from, to);
+      if (count) log(`Indexed ${count} events in blocks ${from}-${to}`);
+    }
+
+    return { fromBlock, toBlock, reorgedTo };
+  }
+
+  /** Syncs every `pollInterval` until the returned function is called */
+  function run() {
+    let stopped = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const loop = async () => {
+      try {
+        await sync();
+      } catch (error) {
+        log(`Sync failed: ${error instanceof Error ? error.message : error}`);
+      }
+      if (!stopped) timer = setTimeout(loop, pollInterval);
+    };
+    void loop();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+
+  return { client, sync, run };
+}
+
+export type Indexer = ReturnType<typeof createIndexer>;
@@ -0,0 +1,45 @@
+import fs from 'fs';
+import path from 'path';
+import { createPublicClient, http, isAddress, type Address } from 'viem';
+import { createApi, createIndexer, openDb } from './index';
+
+const REGISTRY_PATH = path.join(__dirname, '..', '..', 'deployments', 'registry.json');
+
+// INDEXER_FACTORY wins, the current registry entry for the RPC's chain otherwise
+async function resolveFactory(rpcUrl: string): Promise<Address> {
+  const configured = process.env.INDEXER_FACTORY;
+  if (configured) {
+    if (!isAddress(configured)) throw new Error(`INDEXER_FACTORY ${configured} is not an address`);
+    return configured;
+  }
+
+  const chainId = await createPublicClient({ transport: http(rpcUrl) }).getChainId();
+  const registry = JSON.parse(fs.readFileSync(REGISTRY_PATH, 'utf8'));
+  const factory = registry[chainId]?.history.at(-1)?.contracts.factory;
+  if (!factory) throw new Error(`No factory for chain ${chainId} in ${REGISTRY_PATH}, set INDEXER_FACTORY`);
+  return factory;
+}
+
+async function main() {
+  const rpcUrl = process.env.INDEXER_RPC_URL ?? 'http://127.0.0.1:8545';
+  const port = Number(process.env.INDEXER_PORT ?? 4200);
+  const factory = await resolveFactory(rpcUrl);
+
+  const db = openDb(process.env.INDEXER_DB ?? 'tits-indexer.db');
+  const indexer = createIndexer({
+    transport: http(rpcUrl),
+    factory,
+    db,
+    startBlock: BigInt(process.env.INDEXER_START_BLOCK ?? 0),
+    confirmations: BigInt(process.env.INDEXER_CONFIRMATIONS ?? 0),
+  });
+
+  console.log(`Indexing factory ${factory} from ${rpcUrl}`);
+  indexer.run();
+  createApi(db).listen(port, () => console.log(`API listening on :${port}`));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
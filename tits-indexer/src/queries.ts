@@ -0,0 +1,219 @@
+import {
+  INITIAL_X_RESERVE,
+  INITIAL_Y_RESERVE,
+  buildCandles,
+  rankTraders,
+  simulateTradeOutcome,
+  type Candle,
+  type TraderDeviation,
+} from 'tits-core';
+import { getCheckpoint, type Db } from './db';
+
+export interface IndexedPool {
+  poolId: bigint;
+  address: string;
+  tokenAddress: string;
+  lValue: bigint;
+  hValue: bigint; // fixed-point
+  startTime: bigint;
+  endTime: bigint;
+  createdAt: bigint;
+  blockNumber: bigint;
+  totalTrades: bigint;
+}
+
+export interface IndexedTrade {
+  poolId: bigint;
+  trader: string;
+  quantity: bigint;
+  side: boolean; // true = buy, false = sell
+  timestamp: bigint;
+  deviation: bigint; // whole basis points, as emitted
+  blockNumber: bigint;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/** Same shape as the web app's `PoolOutcome` */
+export type PoolOutcome =
+  | { status: 'open' }
+  | { status: 'locked'; reason: string | null }
+  | {
+    status: 'won';
+    winner: string | null;
+    deviation: bigint | null;
+    nextPoolDelay: bigint;
+    nextPoolCandleSize: bigint; // as L
+    finalized: boolean;
+  }
+  | { status: 'noWinner' };
+
+export interface PlayerPool {
+  poolId: bigint;
+  rank: number; // 0 based
+  standing: TraderDeviation;
+  won: boolean; // finalized as the winner
+}
+
+interface PoolRow {
+  pool_id: number;
+  address: string;
+  token_address: string;
+  l_value: number;
+  h_value: string;
+  start_time: number;
+  end_time: number;
+  created_at: number;
+  block_number: number;
+  total_trades: number;
+}
+
+interface TradeRow {
+  pool_id: number;
+  trader: string;
+  quantity: string;
+  side: number;
+  timestamp: number;
+  deviation: string;
+  block_number: number;
+  transaction_hash: string;
+  log_index: number;
+}
+
+const POOL_SELECT = `
+  SELECT pools.*, (SELECT COUNT(*) FROM trades WHERE trades.pool_id = pools.pool_id) AS total_trades FROM pools
+`;
+
+const toPool = (row: PoolRow): IndexedPool => ({
+  poolId: BigInt(row.pool_id),
+  address: row.address,
+  tokenAddress: row.token_address,
+  lValue: BigInt(row.l_value),
+  hValue: BigInt(row.h_value),
+  startTime: BigInt(row.start_time),
+  endTime: BigInt(row.end_time),
+  createdAt: BigInt(row.created_at),
+  blockNumber: BigInt(row.block_number),
+  totalTrades: BigInt(row.total_trades),
+});
+
+const toTrade = (row: TradeRow): IndexedTrade => ({
+  poolId: BigInt(row.pool_id),
+  trader: row.trader,
+  quantity: BigInt(row.quantity),
+  side: row.side === 1,
+  timestamp: BigInt(row.timestamp),
+  deviation: BigInt(row.deviation),
+  blockNumber: BigInt(row.block_number),
+  transactionHash: row.transaction_hash,
+  logIndex: row.log_index,
+});
+
+export function getPools(db: Db): IndexedPool[] {
+  return (db.prepare(`${POOL_SELECT} ORDER BY pool_id`).all() as PoolRow[]).map(toPool);
+}
+
+export function getPool(db: Db, poolId: bigint): IndexedPool | null {
+  const row = db.prepare(`${POOL_SELECT} WHERE pool_id = ?`).get(Number(poolId)) as PoolRow | undefined;
+  return row ? toPool(row) : null;
+}
+
+/** Chain order, optionally for a single trader */
+export function getTrades(db: Db, poolId: bigint, trader?: string): IndexedTrade[] {
+  const rows = trader
+    ? db.prepare('SELECT * FROM trades WHERE pool_id = ? AND trader = ? ORDER BY block_number, log_index')
+      .all(Number(poolId), trader)
+    : db.prepare('SELECT * FROM trades WHERE pool_id = ? ORDER BY block_number, log_index')
+      .all(Number(poolId));
+  return (rows as TradeRow[]).map(toTrade);
+}
+
+export function getCandles(db: Db, poolId: bigint): Candle[] | null {
+  const pool = getPool(db, poolId);
+  return pool ? buildCandles(pool, getTrades(db, poolId)) : null;
+}
+
+/**
+ * The pool's trader table in `getAllTraders` order. `TradeEvent` only carries the deviation
+ * in whole basis points, so every trade is replayed from the initial reserves to recover the
+ * fixed-point deviation `updateTraderDeviation` stored.
+ */
+export function getTraderDeviations(db: Db, poolId: bigint): TraderDeviation[] | null {
+  const pool = getPool(db, poolId);
+  if (!pool) return null;
+
+  let reserves = { xReserve: INITIAL_X_RESERVE, yReserve: INITIAL_Y_RESERVE };
+  let traders: TraderDeviation[] = [];
+  for (const { trader, quantity, side, timestamp } of getTrades(db, poolId)) {
+    const outcome = simulateTradeOutcome({ ...pool, ...reserves }, traders, trader, quantity, side, timestamp);
+    reserves = { xReserve: outcome.trade.xReserve, yReserve: outcome.trade.yReserve };
+    traders = outcome.traders;
+  }
+  return traders;
+}
+
+/** Best first, ranked the way the pool picks its winner */
+export function getLeaderboard(db: Db, poolId: bigint): TraderDeviation[] | null {
+  const traders = getTraderDeviations(db, poolId);
+  return traders && rankTraders(traders);
+}
+
+/**
+ * Mirrors the web app's `getPoolOutcome`, with the time taken from the last indexed block
+ * so the answer is consistent with the indexed events.
+ */
+export function getOutcome(db: Db, poolId: bigint): PoolOutcome | null {
+  const pool = getPool(db, poolId);
+  if (!pool) return null;
+
+  const locked = db.prepare('SELECT reason FROM locks WHERE pool_id = ?').get(Number(poolId)) as
+    { reason: string } | undefined;
+  if (locked) return { status: 'locked', reason: locked.reason };
+
+  const finalized = db.prepare('SELECT * FROM finalizations WHERE pool_id = ?').get(Number(poolId)) as
+    { winner: string; final_deviation: string; next_pool_delay: number; next_pool_candle_size: number } | undefined;
+  if (finalized) {
+    return {
+      status: 'won',
+      winner: finalized.winner,
+      deviation: BigInt(finalized.final_deviation),
+      nextPoolDelay: BigInt(finalized.next_pool_delay),
+      nextPoolCandleSize: BigInt(finalized.next_pool_candle_size),
+      finalized: true,
+    };
+  }
+
+  const now = getCheckpoint(db)?.blockTimestamp ?? 0n;
+  if (now <= pool.endTime) return { status: 'open' };
+
+  const winner = db.prepare('SELECT * FROM winners WHERE pool_id = ? ORDER BY block_number DESC, log_index DESC')
+    .get(Number(poolId)) as { winner: string; proposed_delay: number; proposed_candle_size: number } | undefined;
+  if (!winner) return { status: 'noWinner' };
+
+  // the winner can improve on the deviation they won with without a new event
+  const standing = getTraderDeviations(db, poolId)!
+    .find((trader) => trader.trader.toLowerCase() === winner.winner.toLowerCase());
+  return {
+    status: 'won',
+    winner: winner.winner,
+    deviation: standing?.deviation ?? null,
+    nextPoolDelay: BigInt(winner.proposed_delay),
+    nextPoolCandleSize: BigInt(winner.proposed_candle_size),
+    finalized: false,
+  };
+}
+
+/** Every pool `address` traded in, with where they stand */
+export function getPlayer(db: Db, address: string): PlayerPool[] {
+  const poolIds = db.prepare('SELECT DISTINCT pool_id FROM trades WHERE trader = ? ORDER BY pool_id')
+    .pluck().all(address) as number[];
+  const wins = new Set(
+    db.prepare('SELECT pool_id FROM finalizations WHERE winner = ?').pluck().all(address) as number[]
+  );
+
+  return poolIds.map((poolId) => {
+    const leaderboard = getLeaderboard(db, BigInt(poolId))!;
+    const rank = leaderboard.findIndex((trader) => trader.trader.toLowerCase() === address.toLowerCase());
+    return { poolId: BigInt(poolId), rank, standing: leaderboard[rank], won: wins.has(poolId) };
+  });
+}
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // shared game math and contract ABIs, shipped as TypeScript source
+  transpilePackages: ["tits-core", "tits-contracts"],
 };
 
 export default nextConfig;
@@ -5,6 +5,7 @@ import './globals.css';
 import cn from '@/util/cn';
 
 import AppProvider from '@/context/AppProvider';
+import ChainProvider from '@/context/ChainProvider';
 import Web3Providers from '@/context/Web3Providers';
 
 const sourGummy = Sour_Gummy({
@@ -33,9 +34,11 @@ export default function RootLayout({
         )}
       >
         <Web3Providers cookies={null}>
-          <AppProvider>
-            {children}
-          </AppProvider>
+          <ChainProvider>
+            <AppProvider>
+              {children}
+            </AppProvider>
+          </ChainProvider>
         </Web3Providers>
       </body>
     </html>
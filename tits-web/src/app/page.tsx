@@ -1,17 +1,23 @@
 'use client';
 
-import { useState } from 'react';
+import Link from 'next/link';
 
 import cn from '@/util/cn';
-import { generateUniqueNameFromTimestamp } from '@/util/uniqueName';
 
 
+import Leaderboard from '@/component/Leaderboard';
+import PlayerName from '@/component/PlayerName';
+import PoolStatus from '@/component/PoolStatus';
+import TradeTicket from '@/component/TradeTicket';
 import WalletButton from '@/component/WalletButton';
+import { useApp } from '@/context/AppProvider';
+import { useChain } from '@/context/ChainProvider';
 // import { ConnectButton } from '@rainbow-me/rainbowkit';
 
 export default function Home() {
 
-  const [ name ] = useState(generateUniqueNameFromTimestamp);
+  const app = useApp();
+  const { adapter } = useChain();
   // const { getShortAddress } = useWeb3();
 
 
@@ -30,15 +36,29 @@ export default function Home() {
       )}>
 
         <div className={cn(
-          ''
+          'flex flex-row gap-4',
         )}>
-          {name}
+          {adapter.account && <PlayerName address={adapter.account} />}
+          <Link href='/pools' className='underline hover:text-foreground/60'>Past pools</Link>
         </div>
 
         <WalletButton />
 
       </div>
 
+      <PoolStatus />
+
+      {app?.getChart()}
+
+      <div className={cn(
+        'w-full',
+        'flex flex-row flex-wrap gap-4',
+        'items-start justify-center',
+      )}>
+        <TradeTicket />
+        <Leaderboard />
+      </div>
+
 
 
     </div>
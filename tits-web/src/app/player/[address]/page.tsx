@@ -0,0 +1,156 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { formatUnits } from 'viem';
+import { rankTraders } from 'tits-core';
+
+import cn from '@/util/cn';
+import { formatDeviation, formatTimestamp } from '@/util/format';
+import { generateUniqueNameFromAddress } from '@/util/uniqueName';
+import { useChain } from '@/context/ChainProvider';
+
+const isSame = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export default function Player() {
+
+  const { address } = useParams<{ address: string }>();
+  const { chain, adapter } = useChain();
+
+  const { data: poolIds, error } = useQuery({
+    queryKey: [ chain, 'poolIds' ],
+    queryFn: () => adapter.listPoolIds(),
+  });
+
+  // one query per pool so finished pools stay cached while the live one refetches
+  const pools = useQueries({
+    queries: (poolIds ?? []).map((poolId) => ({
+      queryKey: [ chain, 'player', address.toLowerCase(), poolId.toString() ],
+      queryFn: async () => {
+        const [ trades, deviations, outcome ] = await Promise.all([
+          adapter.getTrades(poolId, address),
+          adapter.getTraderDeviations(poolId),
+          adapter.getPoolOutcome(poolId),
+        ]);
+        const ranked = rankTraders(deviations);
+        const rank = ranked.findIndex((t) => isSame(t.trader, address));
+        return {
+          poolId,
+          trades,
+          deviation: rank === -1 ? null : ranked[rank].deviation,
+          rank: rank === -1 ? null : rank,
+          traderCount: ranked.length,
+          won: outcome?.status === 'won' && !!outcome.winner && isSame(outcome.winner, address),
+        };
+      },
+    })),
+  });
+
+  const played = pools
+    .flatMap((p) => p.data ? [p.data] : [])
+    .filter((p) => p.trades.length > 0 || p.rank !== null)
+    .sort((a, b) => Number(b.poolId - a.poolId));
+
+  const trades = played.flatMap((p) => p.trades.map((t) => ({ ...t, poolId: p.poolId })));
+  const bestDeviation = played.reduce<bigint | null>(
+    (best, p) => p.deviation !== null && (best === null || p.deviation < best) ? p.deviation : best,
+    null,
+  );
+  const isLoading = !poolIds || pools.some((p) => p.isLoading);
+
+  return (
+    <div className={cn(
+      'w-full h-full px-16',
+      'flex flex-col gap-4',
+    )}>
+
+      <div className='flex flex-row items-center justify-between'>
+        <div className='flex flex-col'>
+          <h1 className='text-2xl'>{generateUniqueNameFromAddress(address)}</h1>
+          <span className='text-sm text-foreground/60'>{address}</span>
+        </div>
+        <Link href='/pools' className='underline hover:text-foreground/60'>All pools</Link>
+      </div>
+
+      {error && <div className='text-red'>{error.message}</div>}
+
+      <div className='grid grid-cols-4 gap-2 max-w-2xl'>
+        {[
+          [ 'Pools played', played.length.toString() ],
+          [ 'Wins', played.filter((p) => p.won).length.toString() ],
+          [ 'Trades', trades.length.toString() ],
+          [ 'Best deviation', bestDeviation === null ? '-' : formatDeviation(bestDeviation) ],
+        ].map(([ label, value ]) => (
+          <div key={label} className='flex flex-col p-2 border border-foreground/40 rounded-lg'>
+            <span className='text-sm text-foreground/60'>{label}</span>
+            <span className='text-xl'>{isLoading ? '...' : value}</span>
+          </div>
+        ))}
+      </div>
+
+      {!isLoading && played.length === 0 && (
+        <div className='text-foreground/60'>No trades on {chain} yet</div>
+      )}
+
+      {played.length > 0 && (
+        <table className='w-full text-sm text-left'>
+          <thead className='text-foreground/60'>
+            <tr>
+              <th>Pool</th>
+              <th>Trades</th>
+              <th>Best deviation</th>
+              <th>Rank</th>
+              <th>Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {played.map((p) => (
+              <tr key={p.poolId.toString()} className='border-t border-foreground/20'>
+                <td className='py-2'>
+                  <Link href={`/pool/${p.poolId}`} className='underline hover:text-foreground/60'>
+                    #{p.poolId.toString()}
+                  </Link>
+                </td>
+                <td>{p.trades.length}</td>
+                <td>{p.deviation === null ? '-' : formatDeviation(p.deviation)}</td>
+                <td>{p.rank === null ? '-' : `${p.rank + 1} / ${p.traderCount}`}</td>
+                <td className={cn(p.won && 'text-green')}>{p.won ? 'Won' : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {trades.length > 0 && (
+        <div className='flex flex-col gap-2'>
+          <h2 className='text-xl'>Trades</h2>
+          <table className='w-full text-sm text-left'>
+            <thead className='text-foreground/60'>
+              <tr>
+                <th>Pool</th>
+                <th>Side</th>
+                <th>Quantity</th>
+                <th>Time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...trades].sort((a, b) => Number(b.timestamp - a.timestamp)).map((t) => (
+                <tr key={`${t.transactionHash}:${t.logIndex}`} className='border-t border-foreground/20'>
+                  <td className='py-1'>#{t.poolId.toString()}</td>
+                  <td className={t.side ? 'text-green' : 'text-red'}>{t.side ? 'Buy' : 'Sell'}</td>
+                  <td>
+                    {formatUnits(t.quantity, t.side ? adapter.decimals.native : adapter.decimals.token)}
+                    {' '}{t.side ? adapter.nativeSymbol : 'tokens'}
+                  </td>
+                  <td>{formatTimestamp(t.timestamp)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { PRECISION } from 'tits-core';
+
+import cn from '@/util/cn';
+import { formatTimestamp } from '@/util/format';
+
+import PoolChart from '@/component/PoolChart';
+import PoolOutcome from '@/component/PoolOutcome';
+import { usePool } from '@/context/AppProvider';
+
+function parsePoolId(id: string) {
+  return /^\d+$/.test(id) ? BigInt(id) : null;
+}
+
+export default function Pool() {
+
+  const { id } = useParams<{ id: string }>();
+  const poolId = parsePoolId(id);
+
+  const { state, outcome, trades, isLoading } = usePool(poolId, { withTrades: true });
+
+  return (
+    <div className={cn(
+      'w-full h-full px-16',
+      'flex flex-col gap-4',
+    )}>
+
+      <div className='flex flex-row items-center justify-between'>
+        <h1 className='text-2xl'>Pool #{id}</h1>
+        <Link href='/pools' className='underline hover:text-foreground/60'>All pools</Link>
+      </div>
+
+      {poolId === null && <div className='text-red'>Invalid pool id</div>}
+      {poolId !== null && isLoading && <div>Loading pool...</div>}
+      {poolId !== null && !isLoading && !state && (
+        <div className='text-foreground/60'>This pool is not available on the selected chain</div>
+      )}
+
+      {state && <>
+        <div className='grid grid-cols-2 gap-2 text-sm max-w-lg'>
+          <span className='text-foreground/60'>L (candles per day)</span>
+          <span>{state.lValue.toString()}</span>
+          <span className='text-foreground/60'>H</span>
+          <span>{Number(state.hValue) / Number(PRECISION)}</span>
+          <span className='text-foreground/60'>Start</span>
+          <span>{formatTimestamp(state.startTime)}</span>
+          <span className='text-foreground/60'>End</span>
+          <span>{formatTimestamp(state.endTime)}</span>
+          <span className='text-foreground/60'>Outcome</span>
+          <PoolOutcome outcome={outcome} showNextPool />
+        </div>
+
+        <PoolChart poolInfo={state} trades={trades} />
+      </>}
+
+    </div>
+  );
+}
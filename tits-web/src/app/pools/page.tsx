@@ -0,0 +1,79 @@
+'use client';
+
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { PRECISION } from 'tits-core';
+
+import cn from '@/util/cn';
+import { formatTimestamp } from '@/util/format';
+
+import PoolOutcome from '@/component/PoolOutcome';
+import { usePool } from '@/context/AppProvider';
+import { useChain } from '@/context/ChainProvider';
+
+function PoolRow({ poolId }: { poolId: bigint }) {
+
+  const { state, outcome } = usePool(poolId);
+
+  return (
+    <tr className='border-t border-foreground/20'>
+      <td className='py-2'>
+        <Link href={`/pool/${poolId}`} className='underline hover:text-foreground/60'>
+          #{poolId.toString()}
+        </Link>
+      </td>
+      <td>{state?.lValue.toString() ?? '-'}</td>
+      <td>{state ? (Number(state.hValue) / Number(PRECISION)).toString() : '-'}</td>
+      <td>{state ? formatTimestamp(state.startTime) : '-'}</td>
+      <td>{state ? formatTimestamp(state.endTime) : '-'}</td>
+      <td>{state ? <PoolOutcome outcome={outcome} /> : 'Not available'}</td>
+    </tr>
+  );
+}
+
+export default function Pools() {
+
+  const { chain, adapter } = useChain();
+
+  const { data: poolIds, error } = useQuery({
+    queryKey: [ chain, 'poolIds' ],
+    queryFn: () => adapter.listPoolIds(),
+  });
+
+  return (
+    <div className={cn(
+      'w-full h-full px-16',
+      'flex flex-col gap-4',
+    )}>
+
+      <div className='flex flex-row items-center justify-between'>
+        <h1 className='text-2xl'>Pools</h1>
+        <Link href='/' className='underline hover:text-foreground/60'>Back to the game</Link>
+      </div>
+
+      {error && <div className='text-red'>{error.message}</div>}
+      {poolIds?.length === 0 && <div className='text-foreground/60'>No pools yet</div>}
+
+      {!!poolIds?.length && (
+        <table className='w-full text-sm text-left'>
+          <thead className='text-foreground/60'>
+            <tr>
+              <th>Pool</th>
+              <th>L</th>
+              <th>H</th>
+              <th>Start</th>
+              <th>End</th>
+              <th>Outcome</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...poolIds].reverse().map((poolId) => (
+              <PoolRow key={poolId.toString()} poolId={poolId} />
+            ))}
+          </tbody>
+        </table>
+      )}
+
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+// Generated from deployments/registry.json by evm/scripts/lib/registry.ts, do not edit.
+// Run `npm run registry:web` in evm/ after changing the registry by hand.
+
+import type { Address } from 'viem';
+
+interface BaseDeployment {
+  chainId: number;
+  network: string;
+  deployedAt: string | null;
+}
+
+export interface FlowDeployment extends BaseDeployment {
+  treasury: Address;
+  factory: Address;
+  tokenFactory: Address;
+  firstPool?: Address;
+  deployedBlock?: bigint; // where event scans start, from block 0 when unknown
+}
+
+export interface SupraDeployment extends BaseDeployment {
+  titsFun: string; // module address, pool_manager lives under it
+}
+
+export const flowDeployments: Partial<Record<number, FlowDeployment>> = {
+  545: {
+    chainId: 545,
+    network: 'flowTestnet',
+    deployedAt: '2025-06-24T00:47:46.308Z',
+    treasury: '0x8cCc681207aB06BC06EdcF9a9d1f10aafc3D319F',
+    factory: '0x004bb5E37b305aAae08B578507e9Ec452de32f42',
+    tokenFactory: '0xa0c4CeBa57F26417B8D17B656Ae6dB3B20ec8FFf',
+  },
+};
+
+export const supraDeployments: Partial<Record<number, SupraDeployment>> = {
+  6: {
+    chainId: 6,
+    network: 'testnet',
+    deployedAt: null,
+    titsFun: '0x5d9e5ddecdcaf31b27ccf90970574d4001fe819928bc811a9279347fc769ffb8',
+  },
+};
@@ -0,0 +1,335 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  zeroAddress,
+  type Address,
+  type PublicClient,
+  type WalletClient,
+} from 'viem';
+
+import {
+  cryptoTitty,
+  tittyPool,
+  tittyPoolFactory,
+  toPoolInfo,
+} from 'tits-contracts';
+import { estimateTradeFee, getTradeValue } from 'tits-core';
+import { nowSeconds } from '@/util/time';
+
+import { flowDeployments } from './deployments';
+import type { ChainAdapter, PoolEvent, Trade, TradeFee } from './types';
+
+type TradeLog = {
+  args: { trader?: Address; quantity?: bigint; side?: boolean; timestamp?: bigint; deviation?: bigint };
+  transactionHash: `0x${string}` | null;
+  logIndex: number | null;
+};
+
+function toTrade(log: TradeLog): Trade {
+  return {
+    trader: log.args.trader!,
+    quantity: log.args.quantity!,
+    side: log.args.side!,
+    timestamp: log.args.timestamp!,
+    deviation: log.args.deviation!,
+    transactionHash: log.transactionHash!,
+    logIndex: log.logIndex!,
+  };
+}
+
+/** ChainAdapter over TittyPoolFactory / TittyPool, reads through `publicClient`, writes through `walletClient` */
+export function createFlowAdapter(
+  publicClient: PublicClient | undefined,
+  walletClient: WalletClient | undefined,
+  account: Address | undefined,
+): ChainAdapter {
+
+  const poolAddresses = new Map<bigint, Address>();
+
+  // whatever the registry has as current for the client's chain, see deployments/registry.json
+  const chainId = publicClient?.chain?.id;
+  const deployment = chainId === undefined ? undefined : flowDeployments[chainId];
+  const titsFactoryAddress = deployment?.factory;
+  // no pool predates its factory, event scans start there
+  const fromBlock = deployment?.deployedBlock ?? 0n;
+
+  const getClient = () => {
+    if (!publicClient) throw new Error('Flow client is not available');
+    if (!titsFactoryAddress) throw new Error(`No TittyPoolFactory deployed on chain ${chainId}`);
+    return publicClient;
+  }
+
+  const getPoolAddress = async (poolId: bigint) => {
+    const cached = poolAddresses.get(poolId);
+    if (cached) return cached;
+    const address = await getClient().readContract({
+      ...tittyPoolFactory(titsFactoryAddress!),
+      functionName: 'getPoolByPoolId',
+      args: [poolId],
+    });
+    poolAddresses.set(poolId, address);
+    return address;
+  }
+
+  const getAccount = () => {
+    if (!walletClient || !account) throw new Error('Connect a Flow wallet first');
+    return account;
+  }
+
+  // pools created before the factory had a treasury have no treasury() and charge nothing
+  const getPoolTreasury = async (poolId: bigint): Promise<Address> => {
+    try {
+      return await getClient().readContract({
+        ...tittyPool(await getPoolAddress(poolId)),
+        functionName: 'treasury',
+      });
+    } catch (error) {
+      const missing = error instanceof BaseError && error.walk((cause) =>
+        cause instanceof ContractFunctionRevertedError || cause instanceof ContractFunctionZeroDataError);
+      if (missing) return zeroAddress;
+      throw error;
+    }
+  }
+
+  const getTradeFee = async (poolId: bigint): Promise<TradeFee> => {
+    const [ gasPrice, treasury ] = await Promise.all([
+      getClient().getGasPrice(),
+      getPoolTreasury(poolId),
+    ]);
+    return { fee: estimateTradeFee(gasPrice, treasury !== zeroAddress), gasPrice };
+  }
+
+  const adapter: ChainAdapter = {
+    chain: 'flow',
+    account: account ?? null,
+    nativeSymbol: 'FLOW',
+    decimals: { native: 18, token: 18 },
+
+    getPoolId: async () => {
+      const count = await getClient().readContract({
+        ...tittyPoolFactory(titsFactoryAddress!),
+        functionName: 'getDeployedPoolCount',
+      });
+      // pool ids start at 1, the latest pool is the active one
+      return count === 0n ? null : count;
+    },
+
+    listPoolIds: async () => {
+      const count = await getClient().readContract({
+        ...tittyPoolFactory(titsFactoryAddress!),
+        functionName: 'getDeployedPoolCount',
+      });
+      return Array.from({ length: Number(count) }, (_, i) => BigInt(i + 1));
+    },
+
+    getPoolState: async (poolId) => {
+      const poolAddress = await getPoolAddress(poolId);
+      if (poolAddress === zeroAddress) return null;
+      const info = toPoolInfo(await getClient().readContract({
+        ...tittyPool(poolAddress),
+        functionName: 'poolInfo',
+      }));
+      return {
+        ...info,
+        currentWinner: info.currentWinner === zeroAddress ? null : info.currentWinner,
+      };
+    },
+
+    getPoolOutcome: async (poolId) => {
+      const client = getClient();
+      const state = await adapter.getPoolState(poolId);
+      if (!state) return null;
+      const address = await getPoolAddress(poolId);
+
+      if (state.isLocked) {
+        const [ locked ] = await client.getContractEvents({
+          ...tittyPool(address),
+          eventName: 'PoolLocked',
+          fromBlock,
+        });
+        return { status: 'locked', reason: locked?.args.reason ?? null };
+      }
+
+      const [ finalized ] = await client.getContractEvents({
+        ...tittyPool(address),
+        eventName: 'PoolWinnerFinalized',
+        fromBlock,
+      });
+      if (finalized) {
+        return {
+          status: 'won',
+          winner: finalized.args.winner!,
+          deviation: finalized.args.finalDeviation!,
+          nextPoolDelay: finalized.args.nextPoolDelay!,
+          nextPoolCandleSize: finalized.args.nextPoolCandleSize!,
+          finalized: true,
+        };
+      }
+
+      if (nowSeconds() <= state.endTime) return { status: 'open' };
+      if (!state.currentWinner) return { status: 'noWinner' };
+
+      const { deviation } = await client.readContract({
+        ...tittyPool(address),
+        functionName: 'getTraderDeviation',
+        args: [state.currentWinner as Address],
+      });
+      return {
+        status: 'won',
+        winner: state.currentWinner,
+        deviation,
+        nextPoolDelay: state.winnerProposedDelay,
+        nextPoolCandleSize: state.winnerProposedCandleSize,
+        finalized: false,
+      };
+    },
+
+    getTrades: async (poolId, trader) => {
+      const logs = await getClient().getContractEvents({
+        ...tittyPool(await getPoolAddress(poolId)),
+        eventName: 'TradeEvent',
+        args: trader ? { trader: trader as Address } : undefined,
+        fromBlock,
+      });
+      return logs.map(toTrade);
+    },
+
+    getTraderDeviations: async (poolId) => {
+      const client = getClient();
+      const poolAddress = await getPoolAddress(poolId);
+      const traders = await client.readContract({
+        ...tittyPool(poolAddress),
+        functionName: 'getAllTraders',
+      });
+      return Promise.all(traders.map((trader) => client.readContract({
+        ...tittyPool(poolAddress),
+        functionName: 'getTraderDeviation',
+        args: [trader],
+      })));
+    },
+
+    getTradeFee: (poolId) => getTradeFee(poolId),
+
+    trade: async (poolId, { quantity, side, delay, candleSize }) => {
+      const client = getClient();
+      const trader = getAccount();
+      const poolAddress = await getPoolAddress(poolId);
+
+      // sells pull tokens from the trader, approve the shortfall first
+      if (!side) {
+        const tokenAddress = await client.readContract({
+          ...tittyPool(poolAddress),
+          functionName: 'poolInfo',
+        }).then((raw) => toPoolInfo(raw).tokenAddress);
+
+        const allowance = await client.readContract({
+          ...cryptoTitty(tokenAddress),
+          functionName: 'allowance',
+          args: [trader, poolAddress],
+        });
+
+        if (allowance < quantity) {
+          const approveHash = await walletClient!.writeContract({
+            ...cryptoTitty(tokenAddress),
+            functionName: 'approve',
+            args: [poolAddress, quantity],
+            account: trader,
+            chain: walletClient!.chain,
+          });
+          await client.waitForTransactionReceipt({ hash: approveHash });
+        }
+      }
+
+      // the pool prices its fee at tx.gasprice, a legacy gas price keeps it at the quote
+      const { fee, gasPrice } = await getTradeFee(poolId);
+      const hash = await walletClient!.writeContract({
+        ...tittyPool(poolAddress),
+        functionName: 'trade',
+        args: [quantity, side, BigInt(delay), BigInt(candleSize)],
+        value: getTradeValue(quantity, side, fee),
+        gasPrice,
+        account: trader,
+        chain: walletClient!.chain,
+      });
+      const receipt = await client.waitForTransactionReceipt({ hash });
+
+      return { hash, success: receipt.status === 'success', vmStatus: null };
+    },
+
+    getNativeBalance: async () => {
+      return getClient().getBalance({ address: getAccount() });
+    },
+
+    getPoolTokenBalance: async (poolId) => {
+      const client = getClient();
+      const info = await adapter.getPoolState(poolId);
+      if (!info) return 0n;
+      return client.readContract({
+        ...cryptoTitty(info.tokenAddress as Address),
+        functionName: 'balanceOf',
+        args: [getAccount()],
+      });
+    },
+
+    subscribe: (poolId, onEvent) => {
+      let unwatch: (() => void) | null = null;
+      let cancelled = false;
+
+      getPoolAddress(poolId).then((address) => {
+        if (cancelled) return;
+        unwatch = getClient().watchContractEvent({
+          ...tittyPool(address),
+          onLogs: (logs) => logs.forEach((log) => {
+            const event = toPoolEvent(log);
+            if (event) onEvent(event);
+          }),
+        });
+      }).catch(console.error);
+
+      // the next pool comes out of the factory
+      const unwatchFactory = getClient().watchContractEvent({
+        ...tittyPoolFactory(titsFactoryAddress!),
+        eventName: 'PoolCreated',
+        onLogs: (logs) => logs.forEach((log) => onEvent({
+          type: 'poolCreated',
+          poolId: log.args.poolId!,
+          startTime: log.args.startTime!,
+        })),
+      });
+
+      return () => {
+        cancelled = true;
+        unwatch?.();
+        unwatchFactory();
+      };
+    },
+  };
+
+  return adapter;
+}
+
+type PoolLog = { eventName: string; args: Record<string, unknown> } & Omit<TradeLog, 'args'>;
+
+function toPoolEvent(log: PoolLog): PoolEvent | null {
+  const args = log.args;
+  switch (log.eventName) {
+    case 'TradeEvent':
+      return { type: 'trade', trade: toTrade(log as TradeLog) };
+    case 'NewWinnerDetected':
+      return {
+        type: 'newWinner',
+        winner: args.winner as Address,
+        deviation: args.deviation as bigint,
+        proposedDelay: args.proposedDelay as bigint,
+        proposedCandleSize: args.proposedCandleSize as bigint,
+        timestamp: args.timestamp as bigint,
+      };
+    case 'PoolLocked':
+      return { type: 'locked', reason: args.reason as string, timestamp: args.timestamp as bigint };
+    case 'PoolWinnerFinalized':
+      return { type: 'winnerFinalized', winner: args.winner as Address, timestamp: args.timestamp as bigint };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,163 @@
+import { HexString, type SupraClient } from 'supra-l1-sdk';
+
+import { nowSeconds } from '@/util/time';
+
+import type { ChainAdapter, PoolState, TradeRequest, TradeResult } from './types';
+
+const DAY_MINUTES = 24 * 60;
+const POOL_DURATION = 24 * 60 * 60; // pool_manager pools run for 24h
+
+// no event api in the sdk, subscriptions poll the pool instead
+const POLL_INTERVAL_MS = 5_000;
+
+/** pool_manager takes candle sizes in minutes, the UI speaks in L (candles per day) */
+export const toCandleMinutes = (lValue: number) => DAY_MINUTES / lValue;
+export const toLValue = (candleMinutes: bigint) => candleMinutes === 0n ? 0n : BigInt(DAY_MINUTES) / candleMinutes;
+
+interface SupraAdapterOptions {
+  client: SupraClient | null;
+  deployer: string | null;
+  account: string | null;
+  trade: (request: TradeRequest) => Promise<TradeResult>; // always trades in the active pool
+}
+
+/**
+ * ChainAdapter over the pool_manager Move module. The module keeps no trade history or
+ * trader list we can read, so trades and deviations come back empty on Supra.
+ */
+export function createSupraAdapter({ client, deployer, account, trade }: SupraAdapterOptions): ChainAdapter {
+
+  const getClient = () => {
+    if (!deployer) throw new Error('No tits_fun deployment for this Supra chain');
+    if (!client) throw new Error('Supra client is not initialized yet');
+    return { client, deployer };
+  }
+
+  const view = async (fn: string, args: string[]): Promise<unknown[]> => {
+    const { client, deployer } = getClient();
+    return client.invokeViewMethod(`${deployer}::pool_manager::${fn}`, [], [deployer, ...args]);
+  }
+
+  const getAccount = () => {
+    if (!account) throw new Error('Connect a Supra wallet first');
+    return new HexString(account);
+  }
+
+  const adapter: ChainAdapter = {
+    chain: 'supra',
+    account,
+    nativeSymbol: 'SUPRA',
+    decimals: { native: 8, token: 8 },
+
+    getPoolId: async () => {
+      const [ poolId ] = await view('get_current_active_pool_id', []);
+      const id = BigInt(poolId as string);
+      return id === 0n ? null : id;
+    },
+
+    listPoolIds: async () => {
+      const { client, deployer } = getClient();
+      const [ pools ] = await client.invokeViewMethod(
+        `${deployer}::token_factory::get_all_pools`,
+        [],
+        [deployer],
+      );
+      return (pools as { pool_id: string }[]).map((pool) => BigInt(pool.pool_id));
+    },
+
+    getPoolState: async (poolId): Promise<PoolState | null> => {
+      // a single Pool resource lives under the deployer, older pools are overwritten
+      if (poolId !== await adapter.getPoolId()) return null;
+
+      const id = poolId.toString();
+      const [
+        [ lValue, hValue, xReserve, yReserve, tokenAddress, isLocked ],
+        [ startTime ],
+        [ proposedDelay, proposedCandleMinutes ],
+      ] = await Promise.all([
+        view('get_pool_info', [id]),
+        view('get_pool_start_time', [id]),
+        view('get_winner_proposal', [id]),
+      ]);
+      const start = BigInt(startTime as string);
+      return {
+        poolId,
+        lValue: BigInt(lValue as string),
+        hValue: BigInt(hValue as string),
+        xReserve: BigInt(xReserve as string),
+        yReserve: BigInt(yReserve as string),
+        tokenAddress: tokenAddress as string,
+        startTime: start,
+        endTime: start + BigInt(POOL_DURATION),
+        isLocked: isLocked as boolean,
+        totalTrades: 0n, // not exposed by pool_manager
+        currentWinner: null, // only known to determine_winner, which needs the admin signer
+        winnerProposedDelay: BigInt(proposedDelay as string),
+        winnerProposedCandleSize: toLValue(BigInt(proposedCandleMinutes as string)),
+      };
+    },
+
+    getPoolOutcome: async (poolId) => {
+      const state = await adapter.getPoolState(poolId);
+      if (!state) return null;
+      // lock reasons and the winner are only in events and determine_winner, neither readable here
+      if (state.isLocked) return { status: 'locked', reason: null };
+      if (nowSeconds() <= state.endTime) return { status: 'open' };
+      if (state.winnerProposedCandleSize === 0n) return { status: 'noWinner' };
+      return {
+        status: 'won',
+        winner: null,
+        deviation: null,
+        nextPoolDelay: state.winnerProposedDelay,
+        nextPoolCandleSize: state.winnerProposedCandleSize,
+        finalized: false,
+      };
+    },
+
+    getTrades: async () => [],
+
+    getTraderDeviations: async () => [],
+
+    getTradeFee: async () => null,
+    trade: (poolId, request) => trade(request),
+
+    getNativeBalance: async () => {
+      return getClient().client.getAccountSupraCoinBalance(getAccount());
+    },
+
+    getPoolTokenBalance: async () => {
+      const { client, deployer } = getClient();
+      return client.getAccountCoinBalance(getAccount(), `${deployer}::token_factory::PoolToken`);
+    },
+
+    subscribe: (poolId, onEvent) => {
+      let last: string | null = null;
+
+      const poll = async () => {
+        const activeId = await adapter.getPoolId();
+        if (activeId !== null && activeId > poolId) {
+          const next = await adapter.getPoolState(activeId);
+          if (next) onEvent({ type: 'poolCreated', poolId: activeId, startTime: next.startTime });
+          return;
+        }
+
+        const state = await adapter.getPoolState(poolId);
+        if (!state) return;
+        const key = [
+          state.xReserve, state.yReserve, state.isLocked,
+          state.winnerProposedDelay, state.winnerProposedCandleSize,
+        ].join(':');
+        if (last !== null && key !== last) onEvent({ type: 'changed' });
+        last = key;
+      };
+
+      const tick = () => { poll().catch(console.error); };
+
+      tick();
+      const interval = setInterval(tick, POLL_INTERVAL_MS);
+      return () => clearInterval(interval);
+    },
+  };
+
+  return adapter;
+}
@@ -0,0 +1,112 @@
+export type ChainName = 'flow' | 'supra';
+
+/** Chain neutral view of a pool, amounts keep the contracts' 8 decimal fixed-point */
+export interface PoolState {
+  poolId: bigint;
+  lValue: bigint; // candles per day, 96 | 144 | 288
+  hValue: bigint; // fixed-point
+  xReserve: bigint; // fixed-point
+  yReserve: bigint; // fixed-point
+  tokenAddress: string;
+  startTime: bigint;
+  endTime: bigint;
+  isLocked: boolean;
+  totalTrades: bigint;
+  currentWinner: string | null;
+  winnerProposedDelay: bigint;
+  winnerProposedCandleSize: bigint; // as L, ie, 96 | 144 | 288
+}
+
+export interface Trade {
+  trader: string;
+  quantity: bigint;
+  side: boolean; // true = buy, false = sell
+  timestamp: bigint;
+  deviation: bigint;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface TraderDeviation {
+  trader: string;
+  deviation: bigint; // fixed-point basis points
+  tradeCount: bigint;
+  lastUpdated: bigint;
+}
+
+export interface TradeRequest {
+  quantity: bigint;
+  side: boolean; // true = buy, false = sell
+  delay: number; // seconds
+  candleSize: number; // as L, ie, 96 | 144 | 288
+}
+
+/** Fee quoted at `gasPrice`, trades are sent at that gas price so the pool charges exactly `fee` */
+export interface TradeFee {
+  fee: bigint; // native, on top of the quantity on a buy
+  gasPrice: bigint;
+}
+
+export interface TradeResult {
+  hash: string;
+  success: boolean;
+  vmStatus: string | null; // Move only
+}
+
+/** How a pool ended, `winner` and `reason` are null when the chain does not expose them */
+export type PoolOutcome =
+  | { status: 'open' }
+  | { status: 'locked'; reason: string | null }
+  | {
+    status: 'won';
+    winner: string | null;
+    deviation: bigint | null;
+    nextPoolDelay: bigint;
+    nextPoolCandleSize: bigint; // as L
+    finalized: boolean; // false until the owner calls finalizeWinner
+  }
+  | { status: 'noWinner' };
+
+export type PoolEvent =
+  | { type: 'trade'; trade: Trade }
+  | {
+    type: 'newWinner';
+    winner: string;
+    deviation: bigint;
+    proposedDelay: bigint;
+    proposedCandleSize: bigint;
+    timestamp: bigint;
+  }
+  | { type: 'locked'; reason: string; timestamp: bigint }
+  | { type: 'winnerFinalized'; winner: string; timestamp: bigint }
+  | { type: 'poolCreated'; poolId: bigint; startTime: bigint }
+  // emitted by adapters that cannot read events and poll instead, refetch everything
+  | { type: 'changed' };
+
+/**
+ * Everything the UI needs from a chain, implemented over TittyPool on Flow EVM and over
+ * pool_manager on Supra. Methods throw when the wallet or contracts are not available.
+ */
+export interface ChainAdapter {
+  chain: ChainName;
+  account: string | null;
+  nativeSymbol: string;
+  decimals: { native: number; token: number };
+
+  getPoolId: () => Promise<bigint | null>;
+  listPoolIds: () => Promise<bigint[]>;
+  getPoolState: (poolId: bigint) => Promise<PoolState | null>;
+  getPoolOutcome: (poolId: bigint) => Promise<PoolOutcome | null>;
+  getTrades: (poolId: bigint, trader?: string) => Promise<Trade[]>;
+  getTraderDeviations: (poolId: bigint) => Promise<TraderDeviation[]>;
+
+  /** Null where the chain charges no per-trade fee */
+  getTradeFee: (poolId: bigint) => Promise<TradeFee | null>;
+  trade: (poolId: bigint, request: TradeRequest) => Promise<TradeResult>;
+
+  getNativeBalance: () => Promise<bigint>;
+  getPoolTokenBalance: (poolId: bigint) => Promise<bigint>;
+
+  /** Returns an unsubscribe function */
+  subscribe: (poolId: bigint, onEvent: (event: PoolEvent) => void) => () => void;
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { rankTraders } from 'tits-core';
+
+import cn from '@/util/cn';
+import { formatDeviation, formatDuration } from '@/util/format';
+import { CANDLE_SIZE_LABELS, type CandleSize } from '@/util/trade';
+import { poolQueryKey, useApp } from '@/context/AppProvider';
+import { useChain } from '@/context/ChainProvider';
+
+import PlayerName from './PlayerName';
+
+export default function Leaderboard() {
+
+  const app = useApp();
+  const { chain, adapter } = useChain();
+  const poolId = app?.poolId ?? null;
+  const poolInfo = app?.poolState ?? null;
+
+  const [ flashWinner, setFlashWinner ] = useState<string | null>(null);
+
+  // refetched by AppProvider whenever the pool emits
+  const { data: deviations } = useQuery({
+    queryKey: poolQueryKey(chain, poolId, 'deviations'),
+    queryFn: () => adapter.getTraderDeviations(poolId!),
+    enabled: !!poolId,
+  });
+
+  useEffect(() => {
+    if (!poolId) return;
+    return adapter.subscribe(poolId, (event) => {
+      if (event.type === 'newWinner') setFlashWinner(event.winner);
+    });
+  }, [adapter, poolId]);
+
+  const ranked = useMemo(() => rankTraders(deviations ?? []), [deviations]);
+
+  if (!poolId || !poolInfo) return null;
+
+  const hasWinner = poolInfo.currentWinner !== null;
+  const proposedCandleSize = Number(poolInfo.winnerProposedCandleSize) as CandleSize;
+
+  return (
+    <div className={cn(
+      'w-full max-w-md p-4',
+      'flex flex-col gap-4',
+      'border border-foreground rounded-lg',
+    )}>
+
+      <div className='flex flex-row items-center justify-between'>
+        <h2 className='text-xl'>Leaderboard</h2>
+        <span className='text-sm text-foreground/60'>{ranked.length} traders</span>
+      </div>
+
+      {hasWinner && (
+        <div className={cn(
+          'p-2 rounded-lg text-sm',
+          'border border-green',
+          flashWinner === poolInfo.currentWinner && 'animate-pulse',
+        )}>
+          <PlayerName address={poolInfo.currentWinner!} /> is winning and proposes
+          a {formatDuration(poolInfo.winnerProposedDelay)} delay
+          with {proposedCandleSize} candles ({CANDLE_SIZE_LABELS[proposedCandleSize] ?? '?'})
+        </div>
+      )}
+
+      {ranked.length === 0 ? (
+        <div className='text-sm text-foreground/60'>No trades yet</div>
+      ) : (
+        <table className='w-full text-sm'>
+          <thead className='text-foreground/60'>
+            <tr>
+              <th className='text-left'>#</th>
+              <th className='text-left'>Trader</th>
+              <th className='text-right'>Best deviation</th>
+              <th className='text-right'>Trades</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.map((row, i) => (
+              <tr
+                key={row.trader}
+                className={cn(row.trader === poolInfo.currentWinner && 'text-green')}
+              >
+                <td>{i + 1}</td>
+                <td><PlayerName address={row.trader} /></td>
+                <td className='text-right'>{formatDeviation(row.deviation)}</td>
+                <td className='text-right'>{row.tradeCount.toString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import Link from 'next/link';
+
+import cn from '@/util/cn';
+import { generateUniqueNameFromAddress } from '@/util/uniqueName';
+
+interface PlayerNameProps {
+  address: string;
+  className?: string;
+}
+
+export default function PlayerName({ address, className }: PlayerNameProps) {
+  return (
+    <Link
+      href={`/player/${address}`}
+      title={address}
+      className={cn('hover:underline', className)}
+    >
+      {generateUniqueNameFromAddress(address)}
+    </Link>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useMemo } from 'react';
+
+import cn from '@/util/cn';
+import { buildCandles, getCurvePoints } from '@/util/chart';
+import type { PoolState, Trade } from '@/chain/types';
+
+interface PoolChartProps {
+  poolInfo: PoolState;
+  trades: Trade[];
+  className?: string;
+}
+
+const WIDTH = 800;
+const HEIGHT = 400;
+const PADDING = 40;
+
+export default function PoolChart({ poolInfo, trades, className }: PoolChartProps) {
+
+  const candles = useMemo(() => buildCandles(poolInfo, trades), [poolInfo, trades]);
+  const curve = useMemo(
+    () => getCurvePoints(poolInfo.hValue, poolInfo.lValue),
+    [poolInfo.hValue, poolInfo.lValue],
+  );
+
+  const l = Number(poolInfo.lValue);
+  const plotWidth = WIDTH - 2 * PADDING;
+  const plotHeight = HEIGHT - 2 * PADDING;
+  const candleWidth = plotWidth / l;
+
+  // Price and curve share the x-axis (candle index) but are scaled independently,
+  // the game is about matching the shape, not the units
+  const prices = candles.flatMap((c) => [c.high, c.low]);
+  const priceMax = prices.length ? Math.max(...prices) : 1;
+  const priceMin = prices.length ? Math.min(...prices) : 0;
+  const priceRange = priceMax - priceMin || priceMax || 1;
+  const curveMax = Math.max(...curve.map((p) => p.y)) || 1;
+
+  const toX = (index: number) => PADDING + index * candleWidth;
+  const toPriceY = (price: number) => HEIGHT - PADDING - ((price - priceMin) / priceRange) * plotHeight;
+  const toCurveY = (y: number) => HEIGHT - PADDING - (y / curveMax) * plotHeight;
+
+  const curvePath = curve
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${toX(p.x).toFixed(2)},${toCurveY(p.y).toFixed(2)}`)
+    .join(' ');
+
+  return (
+    <div className={cn('w-full flex flex-col gap-2', className)}>
+
+      <div className={cn(
+        'flex flex-row',
+        'items-center justify-between',
+        'text-sm text-foreground/60',
+      )}>
+        <span>Pool #{poolInfo.poolId.toString()} · L = {l}</span>
+        <span>H = {(Number(poolInfo.hValue) / 1e8).toFixed(2)}</span>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className={cn('w-full h-auto', 'border border-foreground/20 rounded-lg')}
+      >
+        <line
+          x1={PADDING} y1={HEIGHT - PADDING}
+          x2={WIDTH - PADDING} y2={HEIGHT - PADDING}
+          className='stroke-foreground/30'
+        />
+
+        <path d={curvePath} fill='none' strokeDasharray='6 4' className='stroke-foreground/60' strokeWidth={2} />
+
+        {candles.map((candle) => {
+          const isUp = candle.close >= candle.open;
+          const x = toX(candle.index);
+          const bodyTop = toPriceY(Math.max(candle.open, candle.close));
+          const bodyBottom = toPriceY(Math.min(candle.open, candle.close));
+
+          return (
+            <g key={candle.index} className={isUp ? 'fill-green stroke-green' : 'fill-red stroke-red'}>
+              <line
+                x1={x + candleWidth / 2} y1={toPriceY(candle.high)}
+                x2={x + candleWidth / 2} y2={toPriceY(candle.low)}
+              />
+              <rect
+                x={x + candleWidth * 0.15}
+                y={bodyTop}
+                width={candleWidth * 0.7}
+                height={Math.max(bodyBottom - bodyTop, 1)}
+              />
+            </g>
+          );
+        })}
+
+        <text x={PADDING} y={PADDING - 12} className='fill-foreground/60 text-xs'>
+          {priceMax.toExponential(3)}
+        </text>
+        <text x={PADDING} y={HEIGHT - PADDING + 20} className='fill-foreground/60 text-xs'>
+          {priceMin.toExponential(3)}
+        </text>
+        <text x={WIDTH - PADDING} y={PADDING - 12} textAnchor='end' className='fill-foreground/60 text-xs'>
+          curve peak {curveMax.toFixed(2)}
+        </text>
+      </svg>
+
+      {candles.length === 0 && (
+        <div className='text-sm text-foreground/60 text-center'>
+          No trades yet, be the first to draw the curve
+        </div>
+      )}
+
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import cn from '@/util/cn';
+import { formatDeviation, formatDuration } from '@/util/format';
+import { CANDLE_SIZE_LABELS, type CandleSize } from '@/util/trade';
+import type { PoolOutcome as Outcome } from '@/chain/types';
+
+import PlayerName from './PlayerName';
+
+interface PoolOutcomeProps {
+  outcome: Outcome | null;
+  showNextPool?: boolean;
+}
+
+export default function PoolOutcome({ outcome, showNextPool = false }: PoolOutcomeProps) {
+
+  if (!outcome) return <span className='text-foreground/60'>...</span>;
+
+  switch (outcome.status) {
+    case 'open':
+      return <span>In progress</span>;
+    case 'noWinner':
+      return <span className='text-foreground/60'>No winner</span>;
+    case 'locked':
+      return (
+        <span className='text-red'>
+          Locked{outcome.reason && `: ${outcome.reason}`}
+        </span>
+      );
+    case 'won': {
+      const candleSize = Number(outcome.nextPoolCandleSize) as CandleSize;
+      return (
+        <span className={cn('flex flex-col', !outcome.finalized && 'text-foreground/80')}>
+          <span className='text-green'>
+            Won by {outcome.winner ? <PlayerName address={outcome.winner} /> : 'unknown'}
+            {outcome.deviation !== null && ` (${formatDeviation(outcome.deviation)})`}
+            {!outcome.finalized && ', not finalized yet'}
+          </span>
+          {showNextPool && (
+            <span className='text-sm'>
+              Next pool after a {formatDuration(outcome.nextPoolDelay)} delay
+              with {candleSize} candles ({CANDLE_SIZE_LABELS[candleSize] ?? '?'})
+            </span>
+          )}
+        </span>
+      );
+    }
+  }
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getNextCandleAt, type PoolPhase } from 'tits-core';
+
+import cn from '@/util/cn';
+import { formatDuration } from '@/util/format';
+import { nowSeconds } from '@/util/time';
+import { useApp } from '@/context/AppProvider';
+
+const PHASE_LABELS: Record<PoolPhase, string> = {
+  scheduled: 'Starting soon',
+  active: 'Live',
+  locked: 'Locked',
+  ended: 'Ended',
+  finalized: 'Finalized',
+};
+
+function Countdown({ label, to, now, estimate = false }: {
+  label: string;
+  to: bigint;
+  now: bigint;
+  estimate?: boolean;
+}) {
+  return (
+    <div className='flex flex-col'>
+      <span className='text-foreground/60'>{label}</span>
+      <span>{estimate && '~'}{to > now ? formatDuration(to - now) : 'now'}</span>
+    </div>
+  );
+}
+
+export default function PoolStatus() {
+
+  const app = useApp();
+  const lifecycle = app?.lifecycle ?? null;
+  const poolState = app?.poolState ?? null;
+
+  const [ now, setNow ] = useState(nowSeconds);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(nowSeconds()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!lifecycle || !poolState) return null;
+
+  const { phase, endsAt, nextPoolStartAt, nextPoolStartIsEstimate } = lifecycle;
+
+  // lifecycle.nextCandleAt is as of the last phase change, tick it here
+  const nextCandleAt = phase === 'active' ? getNextCandleAt(poolState.lValue, poolState.startTime, now) : null;
+
+  return (
+    <div className={cn(
+      'w-full',
+      'flex flex-row flex-wrap gap-8',
+      'items-center text-sm',
+    )}>
+
+      <span className={cn(
+        'px-3 py-1 rounded-full border',
+        phase === 'active' ? 'border-green text-green' : phase === 'locked' ? 'border-red text-red' : 'border-foreground',
+      )}>
+        Pool #{poolState.poolId.toString()} {PHASE_LABELS[phase]}
+      </span>
+
+      {phase === 'scheduled' && <Countdown label='Starts in' to={poolState.startTime} now={now} />}
+      {nextCandleAt !== null && <Countdown label='Next candle in' to={nextCandleAt} now={now} />}
+      {(phase === 'scheduled' || phase === 'active') && <Countdown label='Ends in' to={endsAt} now={now} />}
+      {nextPoolStartAt !== null && (
+        <Countdown
+          label='Next pool in'
+          to={nextPoolStartAt}
+          now={now}
+          estimate={nextPoolStartIsEstimate}
+        />
+      )}
+
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+import { formatUnits, parseUnits } from 'viem';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getTradeValue, simulateTrade } from 'tits-core';
+
+import cn from '@/util/cn';
+import { CANDLE_SIZE_LABELS, VALID_CANDLE_SIZES, validateTrade } from '@/util/trade';
+import { nowSeconds } from '@/util/time';
+import { poolQueryKey, useApp } from '@/context/AppProvider';
+import { useChain } from '@/context/ChainProvider';
+
+import TradeWhatIf from './TradeWhatIf';
+
+function parseQuantity(amount: string, decimals: number) {
+  try {
+    return parseUnits(amount || '0', decimals);
+  } catch {
+    return 0n;
+  }
+}
+
+export default function TradeTicket() {
+
+  const app = useApp();
+  const { chain, adapter } = useChain();
+  const queryClient = useQueryClient();
+
+  const [ side, setSide ] = useState(true); // true = buy, false = sell
+  const [ amount, setAmount ] = useState('');
+  const [ delayHours, setDelayHours ] = useState('0');
+  const [ candleSize, setCandleSize ] = useState<number>(144);
+
+  const poolId = app?.poolId ?? null;
+  const poolInfo = app?.poolState ?? null;
+  const lifecycle = app?.lifecycle ?? null;
+  const address = adapter.account;
+
+  const inDecimals = side ? adapter.decimals.native : adapter.decimals.token;
+  const outDecimals = side ? adapter.decimals.token : adapter.decimals.native;
+
+  const quantity = parseQuantity(amount, inDecimals);
+  const delay = Math.round(Number(delayHours || '0') * 60 * 60);
+
+  const { data: tokenBalance } = useQuery({
+    queryKey: [ ...poolQueryKey(chain, poolId, 'tokenBalance'), address ],
+    queryFn: () => adapter.getPoolTokenBalance(poolId!),
+    enabled: !side && !!address && !!poolId,
+  });
+
+  // requoted as the gas price moves, the trade itself quotes again right before sending
+  const { data: tradeFee } = useQuery({
+    queryKey: poolQueryKey(chain, poolId, 'tradeFee'),
+    queryFn: () => adapter.getTradeFee(poolId!),
+    enabled: !!poolId,
+    refetchInterval: 15_000,
+  });
+
+  // on Flow a sell asks for an approval first when the allowance is short
+  const { mutate, data: result, isPending: isBusy, error: tradeError, reset } = useMutation({
+    mutationFn: () => adapter.trade(poolId!, { quantity, side, delay, candleSize }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: poolQueryKey(chain, poolId, 'tokenBalance') });
+    },
+  });
+
+  if (!poolId || !poolInfo) return null;
+
+  let error = validateTrade({ quantity, side, delay, candleSize });
+  if (!error && !side && (tokenBalance ?? 0n) < quantity) error = 'Insufficient token balance';
+
+  // the pool would revert with "Pool is locked" / "Pool not active"
+  const closedReason = lifecycle && !lifecycle.tradable ? lifecycle.reason : null;
+
+  // a large amount overflows the pool math, which would throw during render
+  let expectedOut: bigint | null = null;
+  try {
+    ({ amountOut: expectedOut } = simulateTrade(
+      poolInfo,
+      quantity,
+      side,
+      nowSeconds(),
+    ));
+  } catch {
+    error ??= 'Amount too large for the pool';
+  }
+
+  const submit = () => {
+    reset();
+    mutate();
+  }
+
+  return (
+    <div className={cn(
+      'w-full max-w-md p-4',
+      'flex flex-col gap-4',
+      'border border-foreground rounded-lg',
+    )}>
+
+      <div className='flex flex-row gap-2'>
+        {[ true, false ].map((s) => (
+          <button
+            key={String(s)}
+            onClick={() => setSide(s)}
+            className={cn(
+              'flex-1 px-4 py-2 rounded-full border cursor-pointer',
+              s ? 'border-green' : 'border-red',
+              side === s && (s ? 'bg-green text-background' : 'bg-red text-background'),
+            )}
+          >
+            {s ? 'Buy' : 'Sell'}
+          </button>
+        ))}
+      </div>
+
+      <label className='flex flex-col gap-1'>
+        <span className='text-sm text-foreground/60'>
+          {side ? `Pay (${adapter.nativeSymbol})` : 'Sell (pool tokens)'}
+        </span>
+        <input
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          inputMode='decimal'
+          placeholder='0.0'
+          className='px-4 py-2 bg-transparent border border-foreground/40 rounded-lg'
+        />
+      </label>
+
+      <div className='flex flex-row gap-2'>
+        <label className='flex-1 flex flex-col gap-1'>
+          <span className='text-sm text-foreground/60'>Next pool delay (h, max 12)</span>
+          <input
+            value={delayHours}
+            onChange={(e) => setDelayHours(e.target.value)}
+            inputMode='decimal'
+            className='px-4 py-2 bg-transparent border border-foreground/40 rounded-lg'
+          />
+        </label>
+
+        <label className='flex-1 flex flex-col gap-1'>
+          <span className='text-sm text-foreground/60'>Next candle size</span>
+          <select
+            value={candleSize}
+            onChange={(e) => setCandleSize(Number(e.target.value))}
+            className='px-4 py-2 bg-background border border-foreground/40 rounded-lg'
+          >
+            {VALID_CANDLE_SIZES.map((size) => (
+              <option key={size} value={size}>{size} ({CANDLE_SIZE_LABELS[size]})</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className='text-sm text-foreground/60'>
+        Expected out: {expectedOut === null ? '—' : formatUnits(expectedOut, outDecimals)} {side ? 'pool tokens' : adapter.nativeSymbol}
+      </div>
+
+      {tradeFee && (
+        <div className='text-sm text-foreground/60'>
+          Fee: {formatUnits(tradeFee.fee, adapter.decimals.native)} {adapter.nativeSymbol} (2x trade gas, to the treasury)
+          {quantity > 0n && <>, total {formatUnits(getTradeValue(quantity, side, tradeFee.fee), adapter.decimals.native)} {adapter.nativeSymbol}</>}
+        </div>
+      )}
+
+      <TradeWhatIf poolInfo={poolInfo} quantity={quantity} side={side} />
+
+      {closedReason && <div className='text-sm text-red'>{closedReason}</div>}
+      {error && quantity > 0n && <div className='text-sm text-red'>{error}</div>}
+      {tradeError && <div className='text-sm text-red'>{tradeError.message.split('\n')[0]}</div>}
+      {result && (result.success
+        ? <div className='text-sm text-green'>Transaction confirmed</div>
+        : <div className='text-sm text-red'>Transaction failed{result.vmStatus && `: ${result.vmStatus}`}</div>
+      )}
+
+      <button
+        onClick={submit}
+        disabled={!address || !!closedReason || !!error || isBusy}
+        className={cn(
+          'px-4 py-2 rounded-full border border-foreground cursor-pointer',
+          'hover:bg-foreground/10',
+          'disabled:opacity-40 disabled:cursor-not-allowed',
+        )}
+      >
+        {!address
+          ? 'Connect a wallet to trade'
+          : isBusy
+            ? 'Waiting...'
+            : side ? 'Buy' : 'Sell'}
+      </button>
+
+    </div>
+  );
+}
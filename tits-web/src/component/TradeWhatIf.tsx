@@ -0,0 +1,94 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { DEVIATION_THRESHOLD, simulateTradeOutcome, toFixedPoint } from 'tits-core';
+
+import cn from '@/util/cn';
+import { formatDeviation } from '@/util/format';
+import { nowSeconds } from '@/util/time';
+import type { PoolState } from '@/chain/types';
+import { poolQueryKey } from '@/context/AppProvider';
+import { useChain } from '@/context/ChainProvider';
+
+interface TradeWhatIfProps {
+  poolInfo: PoolState;
+  quantity: bigint;
+  side: boolean;
+}
+
+const THRESHOLD = toFixedPoint(DEVIATION_THRESHOLD);
+
+/** Runs the trade against the current reserves and trader table, before anything is signed */
+export default function TradeWhatIf({ poolInfo, quantity, side }: TradeWhatIfProps) {
+
+  const { chain, adapter } = useChain();
+
+  // same query as the leaderboard, so this is free when both are on screen
+  const { data: traders } = useQuery({
+    queryKey: poolQueryKey(chain, poolInfo.poolId, 'deviations'),
+    queryFn: () => adapter.getTraderDeviations(poolInfo.poolId),
+  });
+
+  if (!adapter.account || quantity <= 0n || !traders) return null;
+
+  let outcome;
+  try {
+    outcome = simulateTradeOutcome(
+      poolInfo,
+      traders,
+      adapter.account,
+      quantity,
+      side,
+      nowSeconds(),
+    );
+  } catch {
+    return <div className='text-sm text-red'>This trade would overflow the pool math</div>;
+  }
+
+  const usage = Math.min(Number(outcome.maxDeviation * 100n / THRESHOLD), 100);
+
+  return (
+    <div className={cn(
+      'p-2 rounded-lg text-sm',
+      'flex flex-col gap-1',
+      'border border-foreground/40',
+    )}>
+
+      <div className='flex flex-row justify-between'>
+        <span className='text-foreground/60'>This trade&apos;s deviation</span>
+        <span>{formatDeviation(outcome.trade.deviation)}</span>
+      </div>
+
+      <div className='flex flex-row justify-between'>
+        <span className='text-foreground/60'>Your best deviation after</span>
+        <span>{formatDeviation(outcome.recordedDeviation)}</span>
+      </div>
+
+      <div className='flex flex-row justify-between'>
+        <span className='text-foreground/60'>Rank after</span>
+        <span className={cn(outcome.isWinner && 'text-green')}>
+          #{outcome.rank + 1} of {outcome.traders.length}{outcome.isWinner && ', winning'}
+        </span>
+      </div>
+
+      <div className='flex flex-col gap-1'>
+        <div className='flex flex-row justify-between'>
+          <span className='text-foreground/60'>Pool vs {formatDeviation(THRESHOLD)} lock</span>
+          <span className={cn(outcome.exceedsThreshold && 'text-red')}>
+            {formatDeviation(outcome.maxDeviation)}
+          </span>
+        </div>
+        <div className='h-1 w-full bg-foreground/20 rounded-full'>
+          <div
+            className={cn('h-1 rounded-full', outcome.exceedsThreshold ? 'bg-red' : 'bg-green')}
+            style={{ width: `${usage}%` }}
+          />
+        </div>
+        {outcome.exceedsThreshold && (
+          <span className='text-red'>The pool would be locked and its funds burned</span>
+        )}
+      </div>
+
+    </div>
+  );
+}
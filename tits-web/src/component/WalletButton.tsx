@@ -31,16 +31,65 @@
 
 'use client';
 
+import { useState } from 'react';
+import Image from 'next/image';
+
+import cn from '@/util/cn';
+import { generateUniqueNameFromAddress } from '@/util/uniqueName';
+import type { ChainName } from '@/chain/types';
+import { useChain } from '@/context/ChainProvider';
+
+import WalletModal from './modal/WalletModal';
+
+const CHAINS: ChainName[] = [ 'flow', 'supra' ];
+
 export default function WalletButton() {
 
-  return (
-    // @ts-expect-error msg
-    <appkit-button 
-      balance='hide'
-      label='Trade Now!'
-      loadingLabel='Modal Open'
-      chainStatus='icon'
-    />
-  );
+  const [ isModalOpen, setIsModalOpen ] = useState(false);
+  const { chain, setChain, adapter } = useChain();
+
+  return <>
+    <div className='flex flex-row gap-2 items-center'>
+
+      {CHAINS.map((c) => (
+        <button
+          key={c}
+          onClick={() => setChain(c)}
+          title={c}
+          className={cn(
+            'p-1 rounded-full border cursor-pointer',
+            chain === c ? 'border-foreground' : 'border-transparent opacity-40',
+          )}
+        >
+          <Image src={`/${c}.svg`} alt={c} width={24} height={24} />
+        </button>
+      ))}
+
+      {chain === 'flow' ? (
+        // @ts-expect-error msg
+        <appkit-button 
+          balance='hide'
+          label='Trade Now!'
+          loadingLabel='Modal Open'
+          chainStatus='icon'
+        />
+      ) : (
+        <div
+          onClick={() => setIsModalOpen(true)}
+          className={cn(
+            'px-4 py-2',
+            'flex flex-row gap-2',
+            'border border-foreground rounded-full',
+            'hover:bg-foreground/10 cursor-pointer',
+            'items-center justify-center',
+          )}
+        >
+          {adapter.account ? generateUniqueNameFromAddress(adapter.account) : 'Trade Now!'}
+        </div>
+      )}
+
+    </div>
+    <WalletModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} />
+  </>;
 
 }
\ No newline at end of file
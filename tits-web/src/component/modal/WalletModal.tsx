@@ -1,11 +1,15 @@
 'use client';
 
-import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { formatUnits } from 'viem';
 
 import cn from '@/util/cn';
+import { shortAddress } from '@/util/format';
+import { generateUniqueNameFromAddress } from '@/util/uniqueName';
 
-// import { useSupra } from '@/context/SupraProvider';
-// import { useWeb3 } from '@/context/Web3Providers';
+import { poolQueryKey, useApp } from '@/context/AppProvider';
+import { useChain } from '@/context/ChainProvider';
+import { useSupra } from '@/context/SupraProvider';
 
 import BaseModal from './base';
 
@@ -14,58 +18,104 @@ interface WalletModalProps {
   onClose: () => void;
 }
 
-// function SupraBody() {
-  
-// //   const { hasStarkey, getPoolTokenBalance, getSupraBalance, connect } = useSupra();
-// //   const { address } = useWeb3();
+function Balances() {
 
-//   return <></>;
+  const app = useApp();
+  const { chain, adapter } = useChain();
+  const poolId = app?.poolId ?? null;
 
-// }
+  const { data: native } = useQuery({
+    queryKey: [ chain, 'nativeBalance', adapter.account ],
+    queryFn: () => adapter.getNativeBalance(),
+    enabled: !!adapter.account,
+  });
 
-// function FlowBody() {
+  const { data: token } = useQuery({
+    queryKey: [ ...poolQueryKey(chain, poolId, 'tokenBalance'), adapter.account ],
+    queryFn: () => adapter.getPoolTokenBalance(poolId!),
+    enabled: !!adapter.account && !!poolId,
+  });
 
-//   return (
-//     <div className={cn(
-//       'flex flex-col gap-4',
-//     )}>
+  if (!adapter.account) return null;
 
-//     </div>
-//   );
-// }
+  return (
+    <div className='flex flex-col gap-1 text-sm'>
+      <div>{generateUniqueNameFromAddress(adapter.account)} ({shortAddress(adapter.account)})</div>
+      <div>{formatUnits(native ?? 0n, adapter.decimals.native)} {adapter.nativeSymbol}</div>
+      <div>{formatUnits(token ?? 0n, adapter.decimals.token)} pool tokens</div>
+    </div>
+  );
+}
 
-export default function WalletModal({ isOpen, onClose }: WalletModalProps) {
+function SupraBody() {
+
+  const { hasStarkey, address, connect, fundAccount } = useSupra();
+
+  return (
+    <div className={cn(
+      'flex flex-col gap-4',
+    )}>
+      {!address ? (
+        <button
+          onClick={connect}
+          className='px-4 py-2 rounded-full border border-foreground cursor-pointer hover:bg-foreground/10'
+        >
+          {hasStarkey ? 'Connect StarKey' : 'Create a testnet account'}
+        </button>
+      ) : (
+        <>
+          <Balances />
+          {!hasStarkey && (
+            <button
+              onClick={fundAccount}
+              className='px-4 py-2 rounded-full border border-foreground cursor-pointer hover:bg-foreground/10'
+            >
+              Top up from faucet
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+
+}
 
-  const [ title ] = useState('');
+function FlowBody() {
 
-  // const { chain } = useWeb3();
+  return (
+    <div className={cn(
+      'flex flex-col gap-4',
+    )}>
+      <Balances />
+      {/* @ts-expect-error msg */}
+      <appkit-button balance='hide' label='Connect' />
+    </div>
+  );
+}
 
-  // useEffect(() => {
+export default function WalletModal({ isOpen, onClose }: WalletModalProps) {
 
-  //   if (chain === 'flow') {
-  //     setTitle('Go with the Flow?');
-  //   } else if (chain === 'supra') {
-  //     setTitle('Paper Trading on Supra');
-  //   }
+  const { chain } = useChain();
 
-  // }, [])
+  const title = {
+    'flow': 'Go with the Flow?',
+    'supra': 'Paper Trading on Supra',
+  }[chain];
 
   return (
     <BaseModal isOpen={isOpen} onClose={onClose} title={title}>
       <div className={cn(
         'flex flex-col gap-4',
       )}>
-{/* 
+
         {
           {
             'flow': <FlowBody />,
             'supra': <SupraBody />,
-          }[chain!] || <SupraBody />
+          }[chain]
         }
 
-*/}
-
       </div>
     </BaseModal>
   )
-}
\ No newline at end of file
+}
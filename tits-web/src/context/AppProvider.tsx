@@ -1,23 +1,120 @@
 'use client';
 
-import { createContext, useContext } from 'react';
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getPoolLifecycle, type PoolLifecycle } from 'tits-core';
+
+import { nowSeconds } from '@/util/time';
+import PoolChart from '@/component/PoolChart';
+import type { ChainName, PoolState, Trade } from '@/chain/types';
+
+import { useChain } from './ChainProvider';
 
 interface AppProviderContextType {
+  poolId: bigint | null;
+  poolState: PoolState | null;
+  lifecycle: PoolLifecycle | null;
+  trades: Trade[];
   getChart: () => React.ReactNode;
 }
 
 const AppProviderContext = createContext<AppProviderContextType | null>(null);
 
+/** react-query keys for per pool data, bigints do not serialize so ids go in as strings */
+export const poolQueryKey = (
+  chain: ChainName,
+  poolId: bigint | null | undefined,
+  data: 'state' | 'outcome' | 'trades' | 'deviations' | 'tokenBalance' | 'tradeFee',
+) => [ chain, 'pool', poolId?.toString() ?? null, data ];
+
 
 export default function AppProvider({ children }: { children: React.ReactNode }) {
 
+  const { chain, adapter } = useChain();
+  const queryClient = useQueryClient();
+
+  const { data: poolId, error: poolIdError } = useQuery({
+    queryKey: [ chain, 'poolId' ],
+    queryFn: () => adapter.getPoolId(),
+    refetchInterval: 30_000,
+  });
+
+  const { data: poolState } = useQuery({
+    queryKey: poolQueryKey(chain, poolId, 'state'),
+    queryFn: () => adapter.getPoolState(poolId!),
+    enabled: !!poolId,
+  });
+
+  const { data: trades } = useQuery({
+    queryKey: poolQueryKey(chain, poolId, 'trades'),
+    queryFn: () => adapter.getTrades(poolId!),
+    enabled: !!poolId,
+  });
+
+  const { data: outcome } = useQuery({
+    queryKey: poolQueryKey(chain, poolId, 'outcome'),
+    queryFn: () => adapter.getPoolOutcome(poolId!),
+    enabled: !!poolId,
+  });
+
+  // only bumped on phase boundaries, countdowns keep their own clock
+  const [ now, setNow ] = useState(nowSeconds);
+
+  const lifecycle = useMemo(() => poolState ? getPoolLifecycle(poolState, now, {
+    finalized: outcome?.status === 'won' && outcome.finalized,
+  }) : null, [poolState, outcome, now]);
+
+  const nextTransitionAt = lifecycle?.nextTransitionAt ?? null;
+
+  useEffect(() => {
+    if (nextTransitionAt === null) return;
+    const timeout = setTimeout(
+      () => setNow(nowSeconds()),
+      Math.max(Number(nextTransitionAt - nowSeconds()) * 1000, 0),
+    );
+    return () => clearTimeout(timeout);
+  }, [nextTransitionAt, now]);
+
+  useEffect(() => {
+    if (!poolId) return;
+
+    return adapter.subscribe(poolId, (event) => {
+      if (event.type === 'poolCreated') {
+        queryClient.invalidateQueries({ queryKey: [ chain, 'poolId' ] });
+        queryClient.invalidateQueries({ queryKey: [ chain, 'poolIds' ] });
+        return;
+      }
+      if (event.type === 'trade') {
+        queryClient.setQueryData<Trade[]>(poolQueryKey(chain, poolId, 'trades'), (prev = []) => {
+          const key = (t: Trade) => `${t.transactionHash}:${t.logIndex}`;
+          return prev.some((t) => key(t) === key(event.trade)) ? prev : [...prev, event.trade];
+        });
+      }
+      if (event.type === 'changed') {
+        queryClient.invalidateQueries({ queryKey: poolQueryKey(chain, poolId, 'trades') });
+      }
+      if (event.type !== 'trade') {
+        queryClient.invalidateQueries({ queryKey: poolQueryKey(chain, poolId, 'outcome') });
+      }
+      queryClient.invalidateQueries({ queryKey: poolQueryKey(chain, poolId, 'state') });
+      queryClient.invalidateQueries({ queryKey: poolQueryKey(chain, poolId, 'deviations') });
+    });
+  }, [adapter, chain, poolId, queryClient]);
+
   const getChart = () => {
-    return <div>Chart</div>;
+    if (poolIdError) return <div>{poolIdError.message}</div>;
+    if (poolId === null) return <div>No active pool</div>;
+    if (!poolState) return <div>Loading pool...</div>;
+    return <PoolChart poolInfo={poolState} trades={trades ?? []} />;
   };
 
   return (
-    <AppProviderContext.Provider 
+    <AppProviderContext.Provider
       value={{
+        poolId: poolId ?? null,
+        poolState: poolState ?? null,
+        lifecycle,
+        trades: trades ?? [],
         getChart,
       }}
     >
@@ -29,4 +126,34 @@ export default function AppProvider({ children }: { children: React.ReactNode })
 
 export const useApp = () => {
   return useContext(AppProviderContext);
-};
\ No newline at end of file
+};
+
+/** Any pool by id, shares the cache with the active pool so the current day is not fetched twice */
+export const usePool = (poolId: bigint | null, { withTrades = false } = {}) => {
+  const { chain, adapter } = useChain();
+
+  const { data: state, isLoading } = useQuery({
+    queryKey: poolQueryKey(chain, poolId, 'state'),
+    queryFn: () => adapter.getPoolState(poolId!),
+    enabled: poolId !== null,
+  });
+
+  const { data: outcome } = useQuery({
+    queryKey: poolQueryKey(chain, poolId, 'outcome'),
+    queryFn: () => adapter.getPoolOutcome(poolId!),
+    enabled: poolId !== null,
+  });
+
+  const { data: trades } = useQuery({
+    queryKey: poolQueryKey(chain, poolId, 'trades'),
+    queryFn: () => adapter.getTrades(poolId!),
+    enabled: poolId !== null && withTrades,
+  });
+
+  return {
+    state: state ?? null,
+    outcome: outcome ?? null,
+    trades: trades ?? [],
+    isLoading,
+  };
+};
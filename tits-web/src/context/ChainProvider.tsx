@@ -0,0 +1,61 @@
+'use client';
+
+import { createContext, useContext, useState } from 'react';
+
+import type { ChainAdapter, ChainName } from '@/chain/types';
+
+import FlowProvider, { useFlow } from './FlowProvider';
+import SupraProvider, { useSupra } from './SupraProvider';
+
+interface ChainProviderContextType {
+  chain: ChainName;
+  setChain: (chain: ChainName) => void;
+  adapter: ChainAdapter;
+}
+
+const ChainProviderContext = createContext<ChainProviderContextType | null>(null);
+
+
+function ChainSelector({ children }: { children: React.ReactNode }) {
+
+  const [ chain, setChain ] = useState<ChainName>('flow');
+
+  const flow = useFlow();
+  const supra = useSupra();
+
+  const adapter = chain === 'supra' ? supra.adapter : flow!.adapter;
+
+  return (
+    <ChainProviderContext.Provider
+      value={{
+        chain,
+        setChain,
+        adapter,
+      }}
+    >
+      {children}
+    </ChainProviderContext.Provider>
+  );
+}
+
+/** Both chains stay mounted so switching keeps wallet state, components only see `adapter` */
+export default function ChainProvider({ children }: { children: React.ReactNode }) {
+  return (
+    <FlowProvider>
+      <SupraProvider>
+        <ChainSelector>
+          {children}
+        </ChainSelector>
+      </SupraProvider>
+    </FlowProvider>
+  );
+}
+
+
+export const useChain = () => {
+  const context = useContext(ChainProviderContext);
+  if (!context) {
+    throw new Error('useChain must be used within a ChainProvider');
+  }
+  return context;
+};
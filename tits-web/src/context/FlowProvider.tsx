@@ -1,10 +1,15 @@
 'use client';
 
-import { createContext, useContext } from 'react';
+import { createContext, useContext, useMemo } from 'react';
+import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
+
+import { createFlowAdapter } from '@/chain/flow';
+import type { ChainAdapter } from '@/chain/types';
 
 interface FlowProviderContextType {
-  address: string;
-  chainId: string;
+  address: string | null;
+  chainId: number | null;
+  adapter: ChainAdapter;
 }
 
 const FlowProviderContext = createContext<FlowProviderContextType | null>(null);
@@ -12,11 +17,21 @@ const FlowProviderContext = createContext<FlowProviderContextType | null>(null);
 
 export default function FlowProvider({ children }: { children: React.ReactNode }) {
 
+  const { address, chainId } = useAccount();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+
+  const adapter = useMemo(
+    () => createFlowAdapter(publicClient, walletClient, address),
+    [publicClient, walletClient, address],
+  );
+
   return (
-    <FlowProviderContext.Provider 
+    <FlowProviderContext.Provider
       value={{
-        address: '',
-        chainId: '',
+        address: address ?? null,
+        chainId: chainId ?? null,
+        adapter,
       }}
     >
       {children}
@@ -27,4 +42,4 @@ export default function FlowProvider({ children }: { children: React.ReactNode }
 
 export const useFlow = () => {
   return useContext(FlowProviderContext);
-};
\ No newline at end of file
+};
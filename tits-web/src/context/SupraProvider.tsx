@@ -3,20 +3,56 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable react-hooks/exhaustive-deps */
 
-import { createContext, useContext, useEffect, useState } from 'react';
-import { SupraAccount, SupraClient, BCS } from 'supra-l1-sdk';
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { SupraAccount, SupraClient, BCS, HexString, TransactionStatus, TxnBuilderTypes } from 'supra-l1-sdk';
+
+import { supraDeployments } from '@/chain/deployments';
+import { createSupraAdapter, toCandleMinutes } from '@/chain/supra';
+import type { ChainAdapter } from '@/chain/types';
+
+const SUPRA_RPC_URL = 'https://rpc-testnet.supra.com/';
+const SUPRA_TESTNET_CHAIN_ID = 6;
+
+// polling for StarKey submissions, the SDK waits on its own for local accounts
+const CONFIRMATION_POLL_MS = 1000;
+const CONFIRMATION_MAX_POLLS = 30;
+
+export type SupraErrorCode =
+  | 'NOT_CONFIGURED' // no deployment for the chain in the registry
+  | 'NOT_CONNECTED' // neither a client + account nor StarKey available
+  | 'NO_ACTIVE_POOL'
+  | 'SUBMIT_FAILED'
+  | 'CONFIRMATION_TIMEOUT';
+
+export class SupraError extends Error {
+  code: SupraErrorCode;
+  hash?: string;
+
+  constructor(code: SupraErrorCode, message: string, options?: { hash?: string; cause?: unknown }) {
+    super(message, { cause: options?.cause });
+    this.name = 'SupraError';
+    this.code = code;
+    this.hash = options?.hash;
+  }
+}
 
-// import { useWeb3 } from './Web3Providers';
+export interface SupraTradeResult {
+  hash: string;
+  success: boolean;
+  vmStatus: string | null; // eg, 'Executed successfully' or the Move abort reason
+}
 
 interface SupraProviderContextType {
   hasStarkey: boolean;
+  address: string | null;
+  adapter: ChainAdapter;
   fundAccount: () => Promise<void>;
   trade: (
-    qty: number, 
+    qty: number | bigint, 
     side: 'buy' | 'sell', 
     delay: number, 
     candle_size: '5' | '10' | '15',
-  ) => Promise<void>;
+  ) => Promise<SupraTradeResult>;
   getPoolTokenBalance: () => Promise<number>;
   getSupraBalance: () => Promise<number>;
   connect: () => Promise<void>;
@@ -33,40 +69,31 @@ export default function SupraProvider({ children }: { children: React.ReactNode
   const [ hasStarkey, setHasStarkey ] = useState<boolean>(false);
   const [ starkeyProvider, setStarkeyProvider ] = useState<any | null>(null);
   const [ account, setAccount ] = useState<SupraAccount | null>(null);
-
-  // const { address, setAddress, setChain } = useWeb3();
+  const [ address, setAddress ] = useState<string | null>(null);
 
   const initializeNewAccount = async () => {
-    const _client = await SupraClient.init(
-      'https://rpc-testnet.supra.com/'
-    );
+    const _client = supraClient ?? await SupraClient.init(SUPRA_RPC_URL);
     const _account = new SupraAccount();
-    await fundAccount(_account);
-    // setAddress(_account.address().toString());
+    await _client.fundAccountWithFaucet(_account.address());
+    setAddress(_account.address().toString());
     setAccount(_account);
     setSupraClient(_client);
   }
 
   const initializeStarkey = async (_provider: any) => {
     setStarkeyProvider(_provider);
+    // still needed to build transactions and read state
+    setSupraClient(await SupraClient.init(SUPRA_RPC_URL));
     const chainId = await _provider.getChainId();
     if (chainId === 8) { 
       await _provider.switchNetwork(6); // switch to testnet
     }
     const acc = await _provider.account();
-    if (acc.length > 0) {
-      // setAddress(acc[0]);
-    } else {
-      // setAddress(null);
-    }
+    setAddress(acc.length > 0 ? acc[0] : null);
 
     // setup hooks
     _provider.on('accountsChanged', (accounts: string[]) => {
-      if (accounts.length > 0) {
-        // setAddress(accounts[0]);
-      } else {
-        // setAddress(null);
-      }
+      setAddress(accounts.length > 0 ? accounts[0] : null);
     });
 
     _provider.on('chainChanged', (chainId: number) => {
@@ -76,57 +103,72 @@ export default function SupraProvider({ children }: { children: React.ReactNode
     });
 
     _provider.on('disconnect', () => {
-      // setAddress(null);
+      setAddress(null);
     });
   }
 
-  const fundAccount = async (_account?: SupraAccount) => {
-    if (!supraClient || !account || !_account) return;
-    await supraClient.fundAccountWithFaucet(account ? account.address() : _account.address());
+  const fundAccount = async () => {
+    if (!supraClient || !account) return;
+    await supraClient.fundAccountWithFaucet(account.address());
   }
 
-  const getPoolId = async () => {
-
-    const f = hasStarkey? starkeyProvider.invokeViewMethod : supraClient!.invokeViewMethod;
-    
-    return await f(
-      `${deployer}::pool_manager::get_current_active_pool_id`,
+  const getPoolId = async (client: SupraClient, _deployer: string) => {
+    const [ poolId ] = await client.invokeViewMethod(
+      `${_deployer}::pool_manager::get_current_active_pool_id`,
       [],
-      new TextEncoder().encode(deployer || '')
+      [_deployer]
     );
+    return BigInt(poolId);
+  }
+
+  const getSender = async (): Promise<string> => {
+    if (hasStarkey) {
+      const acc: string[] = await starkeyProvider.account();
+      if (acc.length === 0) {
+        throw new SupraError('NOT_CONNECTED', 'StarKey is not connected');
+      }
+      return acc[0];
+    }
+    if (!account) {
+      throw new SupraError('NOT_CONNECTED', 'No Supra account, call connect() first');
+    }
+    return account.address().toString();
+  }
+
+  const waitForTransaction = async (client: SupraClient, sender: string, hash: string) => {
+    for (let i = 0; i < CONFIRMATION_MAX_POLLS; i++) {
+      // the rpc can 404 until the transaction is indexed, keep polling
+      const detail = await client.getTransactionDetail(new HexString(sender), hash).catch(() => null);
+      if (detail && detail.status !== TransactionStatus.Pending) return detail;
+      await new Promise((resolve) => setTimeout(resolve, CONFIRMATION_POLL_MS));
+    }
+    throw new SupraError('CONFIRMATION_TIMEOUT', `Transaction ${hash} was not confirmed in time`, { hash });
   }
 
   const getPoolTokenBalance = async () => {
-    // if (!address) return 0;
-    const f = hasStarkey? starkeyProvider.getAccountCoinBalance : supraClient!.getAccountCoinBalance;
-    return await f(account!.address(), 'PoolToken');
+    if (!address) return 0;
+    return Number(await adapter.getPoolTokenBalance(0n));
   }
 
   const getSupraBalance = async () => {
-    // if (!address) return 0;
-    const f = hasStarkey? starkeyProvider.getAccountSupraCoinBalance : supraClient!.getAccountSupraCoinBalance;
-    return await f(account!.address());
+    if (!address) return 0;
+    return Number(await adapter.getNativeBalance());
   }
 
   const connect = async () => {
     if (hasStarkey) {
       await starkeyProvider.connect();
       const acc = await starkeyProvider.account();
-      if (acc.length > 0) {
-        // setAddress(acc[0]);
-      } else {
-        // setAddress(null);
-      }
+      setAddress(acc.length > 0 ? acc[0] : null);
     } else {
+      // no wallet, trade from a faucet funded throwaway account
       await initializeNewAccount();
     }
   }
 
   useEffect(() => {
-    // setChain('supra');
-
     const _provider = typeof window !== "undefined" && (window as any)?.starkey?.supra;
-    const _deployer = process.env.NEXT_PUBLIC_SUPRA_TITS_DEPLOYER;
+    const _deployer = supraDeployments[SUPRA_TESTNET_CHAIN_ID]?.titsFun;
 
     setDeployer(_deployer ?? null);
 
@@ -134,44 +176,112 @@ export default function SupraProvider({ children }: { children: React.ReactNode
       setHasStarkey(true);
       initializeStarkey(_provider);
     } else {
-      initializeNewAccount();
+      // read only until connect() creates an account
+      SupraClient.init(SUPRA_RPC_URL).then(setSupraClient);
     }
-  });
+  }, []);
 
   const trade = async (
-    qty: number, 
+    qty: number | bigint, 
     side: 'buy' | 'sell', 
     delay: number, 
     candle_size: '5' | '10' | '15',
-  ) => {
-    if (!supraClient || !account) return;
+  ): Promise<SupraTradeResult> => {
+    if (!deployer) {
+      throw new SupraError('NOT_CONFIGURED', `No tits_fun deployment for Supra chain ${SUPRA_TESTNET_CHAIN_ID}`);
+    }
+    if (!supraClient) {
+      throw new SupraError('NOT_CONNECTED', 'Supra client is not initialized yet');
+    }
 
-    const poolId = await getPoolId();
+    const sender = await getSender();
 
-    const rawTx = await supraClient.createRawTxObject(
-      account.address(),
-      (await supraClient.getAccountInfo(account.address())).sequence_number,
-      process.env.NEXT_PUBLIC_SUPRA_TITS_DEPLOYER || '',
-      'pool_manager',
-      'trade',
-      [],
-      [
-        new TextEncoder().encode(process.env.NEXT_PUBLIC_SUPRA_TITS_DEPLOYER || ''),
-        BCS.bcsSerializeUint64(poolId),
-        BCS.bcsSerializeUint64(qty),
-        BCS.bcsSerializeBool(side === 'buy'),
-        BCS.bcsSerializeUint64(delay),
-        BCS.bcsSerializeUint64(Number(candle_size)),
-      ]
-    );
+    const poolId = await getPoolId(supraClient, deployer);
+    if (poolId === 0n) {
+      throw new SupraError('NO_ACTIVE_POOL', 'There is no active pool to trade in');
+    }
+
+    const isBuy = side === 'buy';
+    // pool_manager::trade(trader, admin_addr, pool_id, quantity, side, delay, candle_size, supra_amount)
+    const args = [
+      BCS.bcsToBytes(TxnBuilderTypes.AccountAddress.fromHex(deployer)),
+      BCS.bcsSerializeUint64(poolId),
+      BCS.bcsSerializeUint64(qty),
+      BCS.bcsSerializeBool(isBuy),
+      BCS.bcsSerializeUint64(delay),
+      BCS.bcsSerializeUint64(Number(candle_size)),
+      BCS.bcsSerializeUint64(isBuy ? qty : 0),
+    ];
+
+    let hash: string;
+    try {
+      if (hasStarkey) {
+        const data = await starkeyProvider.createRawTransactionData([
+          sender,
+          0, // StarKey fills in the sequence number
+          deployer,
+          'pool_manager',
+          'trade',
+          [],
+          args,
+          {},
+        ]);
+        hash = await starkeyProvider.sendTransaction({
+          data,
+          from: sender,
+          to: deployer,
+          chainId: SUPRA_TESTNET_CHAIN_ID,
+          value: '',
+        });
+      } else {
+        const serializedTx = await supraClient.createSerializedRawTxObject(
+          account!.address(),
+          (await supraClient.getAccountInfo(account!.address())).sequence_number,
+          deployer,
+          'pool_manager',
+          'trade',
+          [],
+          args
+        );
+        ({ txHash: hash } = await supraClient.sendTxUsingSerializedRawTransaction(
+          account!,
+          serializedTx,
+          { enableWaitForTransaction: true, enableTransactionSimulation: true }
+        ));
+      }
+    } catch (error) {
+      throw new SupraError('SUBMIT_FAILED', 'Failed to submit trade', { cause: error });
+    }
 
-    console.log(rawTx);
+    const detail = await waitForTransaction(supraClient, sender, hash);
+
+    return {
+      hash,
+      success: detail.status === TransactionStatus.Success,
+      vmStatus: detail.vm_status ?? null,
+    };
   }
 
+  const adapter = useMemo(() => createSupraAdapter({
+    client: supraClient,
+    deployer,
+    account: address,
+    trade: ({ quantity, side, delay, candleSize }) => {
+      return trade(
+        quantity,
+        side ? 'buy' : 'sell',
+        delay,
+        String(toCandleMinutes(candleSize)) as '5' | '10' | '15',
+      );
+    },
+  }), [supraClient, deployer, address, account, starkeyProvider]);
+
   return (
     <SupraProviderContext.Provider 
       value={{
         hasStarkey,
+        address,
+        adapter,
         fundAccount,
         trade,
         getPoolTokenBalance,
@@ -0,0 +1,24 @@
+import { PRECISION } from 'tits-core';
+
+// candles are built in tits-core so the indexer serves the same ones
+export { buildCandles, getCandleSeconds, type Candle } from 'tits-core';
+
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Target bonded curve y = 4*(H/L)*x(1-x/L), sampled once per candle boundary.
+ * The pool scores trades in candle i against x = i + 1, ie, the right edge of the candle.
+ */
+export function getCurvePoints(hValue: bigint, lValue: bigint): CurvePoint[] {
+  const h = Number(hValue) / Number(PRECISION);
+  const l = Number(lValue);
+
+  const points: CurvePoint[] = [];
+  for (let x = 0; x <= l; x++) {
+    points.push({ x, y: 4 * (h / l) * x * (1 - x / l) });
+  }
+  return points;
+}
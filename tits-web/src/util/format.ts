@@ -0,0 +1,21 @@
+import { PRECISION } from 'tits-core';
+
+export function shortAddress(address: string) {
+  return address.slice(0, 6) + '..' + address.slice(-4);
+}
+
+/** Deviations are stored as fixed-point basis points, eg, 690 * 10^8 = 6.9% */
+export function formatDeviation(deviation: bigint) {
+  return `${(Number(deviation) / Number(PRECISION) / 100).toFixed(2)}%`;
+}
+
+export function formatDuration(seconds: number | bigint) {
+  const s = Math.max(0, Math.floor(Number(seconds)));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  return h > 0 ? `${h}h ${m}m` : `${m}m ${s % 60}s`;
+}
+
+export function formatTimestamp(seconds: bigint) {
+  return new Date(Number(seconds) * 1000).toLocaleString();
+}
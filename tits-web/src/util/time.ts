@@ -0,0 +1,2 @@
+/** Unix seconds as the contracts see them */
+export const nowSeconds = () => BigInt(Math.floor(Date.now() / 1000));
@@ -0,0 +1,27 @@
+// Mirrors the validations in TittyPool.trade
+export const MAX_DELAY = 12 * 60 * 60; // seconds
+export const VALID_CANDLE_SIZES = [96, 144, 288] as const;
+
+export type CandleSize = typeof VALID_CANDLE_SIZES[number];
+
+export const CANDLE_SIZE_LABELS: Record<CandleSize, string> = {
+  96: '15m',
+  144: '10m',
+  288: '5m',
+};
+
+export interface TradeParams {
+  quantity: bigint;
+  side: boolean; // true = buy, false = sell
+  delay: number; // seconds
+  candleSize: number;
+}
+
+/** Returns a human readable reason the pool would reject the trade, or null if it is fine */
+export function validateTrade({ quantity, delay, candleSize }: TradeParams): string | null {
+  if (quantity <= 0n) return 'Quantity must be greater than zero';
+  if (!Number.isInteger(delay) || delay < 0) return 'Delay must be a whole number of seconds';
+  if (delay > MAX_DELAY) return 'Delay must be at most 12h';
+  if (!VALID_CANDLE_SIZES.includes(candleSize as CandleSize)) return 'Candle size must be one of 96, 144 or 288';
+  return null;
+}
@@ -1,13 +1,14 @@
-import { uniqueNamesGenerator, Config, adjectives, colors, animals } from 'unique-names-generator';
+import { playerName } from 'tits-core';
 
-const customConfig: Config = {
-  dictionaries: [adjectives, colors, animals],
-  separator: '-',
-  length: 3,
-  style: 'lowerCase',
-};
+const names = new Map<string, string>();
 
-export const generateUniqueNameFromTimestamp = uniqueNamesGenerator({
-  seed: Date.now(),
-  ...customConfig,
-})
+/** Same address, same name, on every page load and either chain */
+export function generateUniqueNameFromAddress(address: string) {
+  const key = address.toLowerCase();
+  let name = names.get(key);
+  if (!name) {
+    name = playerName(key);
+    names.set(key, name);
+  }
+  return name;
+}